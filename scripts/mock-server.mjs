@@ -0,0 +1,491 @@
+// Minimal local API for exercising uploads without the real backend.
+//
+//   npm run mock:server                 # http://localhost:8787
+//   MOCK_PORT=9000 MOCK_FAIL_RATE=0.3 MOCK_LATENCY_MS=400 npm run mock:server
+//   MOCK_TOKEN_TTL_S=20 MOCK_USERS="lan:secret:admin,minh:secret:public" npm run mock:server
+//
+// Auth: POST /auth/login returns a short-lived access token plus a refresh
+// token. Dataset review/admin routes need an admin Bearer token; any request
+// carrying an unknown or expired token gets 401 so the client's refresh path
+// can be exercised. Default accounts: admin/admin (admin), collector/collector.
+//
+// Signer profiles live under /signers. Uploads that name a `signer_id` must
+// carry the consent version that signer last accepted, or they get 422.
+//
+// Point the app at it with VITE_API_URL=http://localhost:8787. State lives in
+// memory and is lost on restart (which also exercises the "session expired" path).
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.MOCK_PORT || 8787);
+// Fraction of chunk PUTs that fail after storing nothing, to test retries
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE || 0);
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS || 0);
+const CHUNK_SIZE = Number(process.env.MOCK_CHUNK_SIZE || 1024 * 1024);
+
+/** @type {Map<string, { filename: string; size: number; user: string; label: string; dialect?: string; class_uid?: string; chunks: Buffer[]; received: number }>} */
+const uploads = new Map();
+let nextSampleId = 1;
+const handValues = (points) =>
+  Array.isArray(points) && points.length === 21
+    ? points.flatMap((p) => [p.x ?? 0, p.y ?? 0, p.z ?? 0])
+    : new Array(63).fill(0);
+
+/** @type {Array<{ sample_id: string; label: string; class_uid?: string; user: string; signer_id?: string; consent_version?: string; dialect?: string; session_id?: string; frames: number; created_at: string; quality_score?: number; quality_issues?: string[]; flagged?: boolean; review_status: string; review_reason?: string; reviewed_by?: string; reviewed_at?: string; assigned_reviewers?: string[]; votes?: object[]; adjudicated_by?: string; keypoints?: number[][] }>} */
+const samples = [];
+/** @type {Array<{ sample_id: string; reviewer: string; status: string; relabeled: boolean; at: string }>} */
+const reviews = [];
+/** @type {Map<string, { signer_id: string; display_name: string; dialect_region?: string; hearing_status: string; handedness: string; age_bracket: string; consent?: { version: string; accepted_at: string }; created_at: string }>} */
+const signers = new Map();
+let nextSignerId = 1;
+/** @type {Map<string, object>} class_uid -> reference media */
+const references = new Map();
+/** @type {Map<string, { created: number; frames: number }>} */
+const jobs = new Map();
+// Jobs move queued → processing → completed over this many milliseconds
+const JOB_DURATION_MS = Number(process.env.MOCK_JOB_MS || 15000);
+
+// Access tokens expire quickly by default so the refresh flow runs often
+const TOKEN_TTL_S = Number(process.env.MOCK_TOKEN_TTL_S || 300);
+/** @type {Map<string, { password: string; role: "admin" | "public"; display_name: string }>} */
+const users = new Map(
+  (process.env.MOCK_USERS || "admin:admin:admin,collector:collector:public")
+    .split(",")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([name, password]) => name && password)
+    .map(([name, password, role]) => [name, { password, role: role === "admin" ? "admin" : "public", display_name: name }]),
+);
+/** @type {Map<string, { username: string; expires: number }>} */
+const accessTokens = new Map();
+/** @type {Map<string, string>} refresh token -> username */
+const refreshTokens = new Map();
+
+const startJob = () => {
+  const id = `task_${randomUUID().slice(0, 8)}`;
+  jobs.set(id, { created: Date.now(), frames: 60 + Math.floor(Math.random() * 120) });
+  return id;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Content-Range, Authorization",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const parts = [];
+    req.on("data", (c) => parts.push(c));
+    req.on("end", () => resolve(Buffer.concat(parts)));
+    req.on("error", reject);
+  });
+
+const readJson = async (req) => {
+  const raw = await readBody(req);
+  try {
+    return raw.length ? JSON.parse(raw.toString("utf8")) : {};
+  } catch {
+    return null;
+  }
+};
+
+const publicUser = (username) => {
+  const u = users.get(username);
+  return { username, display_name: u.display_name, role: u.role };
+};
+
+const issueTokens = (username) => {
+  const access = `at_${randomUUID()}`;
+  const refresh = `rt_${randomUUID()}`;
+  accessTokens.set(access, { username, expires: Date.now() + TOKEN_TTL_S * 1000 });
+  refreshTokens.set(refresh, username);
+  return { access_token: access, refresh_token: refresh, token_type: "bearer", expires_in: TOKEN_TTL_S, user: publicUser(username) };
+};
+
+// undefined: no Authorization header; null: header present but token unknown or expired
+const authenticate = (req) => {
+  const header = req.headers.authorization;
+  if (!header) return undefined;
+  const token = header.replace(/^Bearer\s+/i, "");
+  const entry = accessTokens.get(token);
+  if (!entry || entry.expires < Date.now() || !users.has(entry.username)) {
+    accessTokens.delete(token);
+    return null;
+  }
+  return publicUser(entry.username);
+};
+
+// Wraps a route handler so only admin tokens reach it
+const adminOnly = (handler) => async (req, res, ...rest) => {
+  const user = authenticate(req);
+  if (!user) return send(res, 401, { detail: "Not authenticated" });
+  if (user.role !== "admin") return send(res, 403, { detail: "Admin role required" });
+  return handler(req, res, ...rest);
+};
+
+const SIGNER_FIELDS = ["display_name", "dialect_region", "hearing_status", "handedness", "age_bracket"];
+const pickSignerFields = (body) => Object.fromEntries(SIGNER_FIELDS.filter((k) => body[k] !== undefined).map((k) => [k, body[k]]));
+
+// Error message when an upload's signer/consent would not pass the ethics check
+const consentError = (signerId, version) => {
+  if (!signerId) return null;
+  const signer = signers.get(signerId);
+  if (!signer) return `Unknown signer ${signerId}`;
+  if (!signer.consent || signer.consent.version !== version) return `No consent on record for ${signerId} (version ${version ?? "-"})`;
+  return null;
+};
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+const recordSample = (fields) => {
+  const id = nextSampleId++;
+  samples.push({ sample_id: String(id), created_at: new Date().toISOString(), frames: 0, review_status: "pending", ...fields });
+  return id;
+};
+
+const fold = (s) => String(s ?? "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/gi, "d").toLowerCase();
+
+// Same parameters as the real `/dataset/samples`: filters, sort/order, page/page_size
+const querySamples = (params) => {
+  const has = (field, key) => (s) => !params.get(key) || fold(s[field]).includes(fold(params.get(key)));
+  const from = params.get("date_from");
+  const to = params.get("date_to");
+  const list = samples
+    .filter(has("label", "label"))
+    .filter(has("user", "user"))
+    .filter((s) => !params.get("dialect") || s.dialect === params.get("dialect"))
+    .filter((s) => !params.get("session_id") || s.session_id === params.get("session_id"))
+    .filter((s) => (!from || s.created_at.slice(0, 10) >= from) && (!to || s.created_at.slice(0, 10) <= to))
+    .filter((s) => !["1", "true"].includes(params.get("flagged") ?? "") || s.flagged === true)
+    .filter((s) => !params.get("review_status") || s.review_status === params.get("review_status"))
+    .filter((s) => !params.get("assigned_to")
+      || ((s.assigned_reviewers ?? []).includes(params.get("assigned_to")) && !(s.votes ?? []).some((v) => v.reviewer === params.get("assigned_to"))))
+    .filter((s) => (s.votes?.length ?? 0) >= (Number(params.get("min_votes")) || 0));
+  const sort = params.get("sort") || "created_at";
+  const dir = params.get("order") === "asc" ? 1 : -1;
+  list.sort((a, b) => (a[sort] ?? "") > (b[sort] ?? "") ? dir : (a[sort] ?? "") < (b[sort] ?? "") ? -dir : 0);
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const pageSize = Math.max(1, Number(params.get("page_size")) || 25);
+  const items = list.slice((page - 1) * pageSize, page * pageSize).map(({ keypoints: _kp, ...rest }) => rest);
+  return { items, total: list.length, page, page_size: pageSize };
+};
+
+const status = (id, u) => ({ upload_id: id, chunk_size: CHUNK_SIZE, received: u.received, size: u.size });
+
+const routes = [
+  ["POST", /^\/auth\/login$/, async (req, res) => {
+    const body = await readJson(req);
+    const user = users.get(String(body?.username ?? ""));
+    if (!user || user.password !== body?.password) return send(res, 401, { detail: "Invalid username or password" });
+    console.log(`[auth] login ${body.username}`);
+    send(res, 200, issueTokens(body.username));
+  }],
+  ["POST", /^\/auth\/refresh$/, async (req, res) => {
+    const body = await readJson(req);
+    const username = refreshTokens.get(String(body?.refresh_token ?? ""));
+    if (!username || !users.has(username)) return send(res, 401, { detail: "Invalid refresh token" });
+    // Rotate: the old refresh token is single-use
+    refreshTokens.delete(body.refresh_token);
+    send(res, 200, issueTokens(username));
+  }],
+  ["POST", /^\/auth\/logout$/, async (req, res) => {
+    const body = await readJson(req);
+    refreshTokens.delete(String(body?.refresh_token ?? ""));
+    accessTokens.delete(String(req.headers.authorization ?? "").replace(/^Bearer\s+/i, ""));
+    send(res, 204);
+  }],
+  ["GET", /^\/auth\/me$/, async (req, res) => {
+    const user = authenticate(req);
+    if (!user) return send(res, 401, { detail: "Not authenticated" });
+    send(res, 200, user);
+  }],
+  ["GET", /^\/signers$/, async (_req, res) => {
+    send(res, 200, { items: [...signers.values()] });
+  }],
+  ["POST", /^\/signers$/, async (req, res) => {
+    const body = await readJson(req);
+    if (!body || typeof body.display_name !== "string" || !body.display_name.trim()) {
+      return send(res, 400, { detail: "display_name is required" });
+    }
+    const signer = {
+      signer_id: `sg_${String(nextSignerId++).padStart(4, "0")}`,
+      hearing_status: "undisclosed",
+      handedness: "right",
+      age_bracket: "undisclosed",
+      ...pickSignerFields(body),
+      created_at: new Date().toISOString(),
+    };
+    signers.set(signer.signer_id, signer);
+    console.log(`[signers] created ${signer.signer_id} ${signer.display_name}`);
+    send(res, 201, signer);
+  }],
+  ["PUT", /^\/signers\/([^/]+)$/, async (req, res, [id]) => {
+    const signer = signers.get(id);
+    if (!signer) return send(res, 404, { detail: "Unknown signer" });
+    const body = await readJson(req);
+    if (!body) return send(res, 400, { detail: "Invalid JSON" });
+    Object.assign(signer, pickSignerFields(body));
+    send(res, 200, signer);
+  }],
+  ["POST", /^\/signers\/([^/]+)\/consent$/, async (req, res, [id]) => {
+    const signer = signers.get(id);
+    if (!signer) return send(res, 404, { detail: "Unknown signer" });
+    const body = await readJson(req);
+    if (!body?.version) return send(res, 400, { detail: "version is required" });
+    signer.consent = { version: String(body.version), accepted_at: body.accepted_at || new Date().toISOString() };
+    console.log(`[signers] ${id} accepted consent ${signer.consent.version}`);
+    send(res, 200, signer);
+  }],
+  ["POST", /^\/upload\/video\/chunked\/init$/, async (req, res) => {
+    const body = await readJson(req);
+    if (!body || typeof body.filename !== "string" || !Number.isFinite(body.size)) {
+      return send(res, 400, { detail: "filename and size are required" });
+    }
+    const refused = consentError(body.signer_id, body.consent?.version);
+    if (refused) return send(res, 422, { detail: refused });
+    const id = randomUUID();
+    uploads.set(id, { ...body, chunks: [], received: 0 });
+    console.log(`[init] ${id} ${body.filename} (${body.size} bytes)`);
+    send(res, 200, status(id, uploads.get(id)));
+  }],
+  ["GET", /^\/upload\/video\/chunked\/([^/]+)$/, async (_req, res, [id]) => {
+    const u = uploads.get(id);
+    if (!u) return send(res, 404, { detail: "Unknown upload id" });
+    send(res, 200, status(id, u));
+  }],
+  ["PUT", /^\/upload\/video\/chunked\/([^/]+)$/, async (req, res, [id], url) => {
+    const u = uploads.get(id);
+    const chunk = await readBody(req);
+    if (!u) return send(res, 404, { detail: "Unknown upload id" });
+    if (Math.random() < FAIL_RATE) return send(res, 503, { detail: "Simulated failure" });
+    const offset = Number(url.searchParams.get("offset"));
+    if (offset !== u.received) {
+      return send(res, 409, { detail: `Expected offset ${u.received}`, ...status(id, u) });
+    }
+    u.chunks.push(chunk);
+    u.received += chunk.length;
+    console.log(`[chunk] ${id} ${u.received}/${u.size}`);
+    send(res, 200, status(id, u));
+  }],
+  ["POST", /^\/upload\/video\/chunked\/([^/]+)\/complete$/, async (_req, res, [id]) => {
+    const u = uploads.get(id);
+    if (!u) return send(res, 404, { detail: "Unknown upload id" });
+    if (u.received !== u.size) return send(res, 409, { detail: "Upload incomplete", ...status(id, u) });
+    uploads.delete(id);
+    console.log(`[complete] ${id} ${u.filename} label=${u.label} class=${u.class_uid ?? "-"} user=${u.user}`);
+    const sampleId = recordSample({
+      label: u.label,
+      class_uid: u.class_uid,
+      user: u.user,
+      signer_id: u.signer_id,
+      consent_version: u.consent?.version,
+      dialect: u.dialect,
+    });
+    send(res, 200, { success: true, id: sampleId, filename: u.filename, status: "queued", task_id: startJob() });
+  }],
+  ["DELETE", /^\/upload\/video\/chunked\/([^/]+)$/, async (_req, res, [id]) => {
+    uploads.delete(id);
+    send(res, 204);
+  }],
+  ["POST", /^\/upload\/video$/, async (req, res) => {
+    const body = await readBody(req);
+    console.log(`[upload/video] ${body.length} bytes`);
+    send(res, 200, { success: true, id: recordSample({ label: "(multipart upload)", user: "" }), status: "queued", task_id: startJob() });
+  }],
+  ["POST", /^\/upload\/camera$/, async (req, res) => {
+    const body = await readJson(req);
+    if (!body) return send(res, 400, { detail: "Invalid JSON" });
+    const refused = consentError(body.signer_id, body.consent?.version);
+    if (refused) return send(res, 422, { detail: refused });
+    console.log(`[upload/camera] ${body.label} class=${body.class_uid ?? "-"} (${body.frames?.length ?? 0} frames)`);
+    const frames = Array.isArray(body.frames) ? body.frames : [];
+    const id = recordSample({
+      label: body.label,
+      class_uid: body.class_uid,
+      user: body.user,
+      signer_id: body.signer_id,
+      consent_version: body.consent?.version,
+      dialect: body.dialect,
+      session_id: body.session_id,
+      frames: frames.length,
+      quality_score: body.quality_info?.score,
+      quality_issues: body.quality_info?.issues?.map((i) => i.code),
+      flagged: body.quality_info?.flagged,
+      // 126 values per frame (left then right hand, 21 × xyz, zeros when missing),
+      // the layout the sample viewer decodes
+      keypoints: frames.map((f) => [f.landmarks?.left_hand, f.landmarks?.right_hand].flatMap(handValues)),
+    });
+    send(res, 200, { success: true, id, total_frames: frames.length });
+  }],
+  ["GET", /^\/dataset\/samples$/, adminOnly(async (_req, res, _m, url) => {
+    send(res, 200, querySamples(url.searchParams));
+  })],
+  ["GET", /^\/dataset\/samples\/([^/]+)\/data$/, adminOnly(async (_req, res, [id]) => {
+    const sample = samples.find((s) => s.sample_id === id);
+    if (!sample) return send(res, 404, { detail: "Unknown sample" });
+    send(res, 200, { keypoints: sample.keypoints ?? [] });
+  })],
+  ["POST", /^\/dataset\/samples\/([^/]+)\/review$/, adminOnly(async (req, res, [id]) => {
+    const sample = samples.find((s) => s.sample_id === id);
+    if (!sample) return send(res, 404, { detail: "Unknown sample" });
+    const body = await readJson(req);
+    if (!body || !["approved", "rejected"].includes(body.status)) {
+      return send(res, 400, { detail: "status (approved|rejected) is required" });
+    }
+    if (body.status === "rejected" && !body.reason) return send(res, 400, { detail: "A reason is required to reject" });
+    // Votes are cast by the token's account; `reviewer` is not trusted
+    const reviewer = authenticate(req).username;
+    const relabeled = typeof body.label === "string" && body.label !== sample.label;
+    const at = new Date().toISOString();
+
+    // Assigned samples collect independent votes; the sample is settled once all are in
+    if (sample.assigned_reviewers?.length) {
+      if (!sample.assigned_reviewers.includes(reviewer)) return send(res, 403, { detail: `Sample is not assigned to ${reviewer}` });
+      const vote = { reviewer, status: body.status, label: body.label, class_uid: body.class_uid, reason: body.reason, at };
+      sample.votes = [...(sample.votes ?? []).filter((v) => v.reviewer !== reviewer), vote];
+      if (sample.votes.length >= sample.assigned_reviewers.length) {
+        const category = (v) => (v.status === "rejected" ? "rejected" : v.class_uid ?? v.label ?? sample.class_uid ?? sample.label);
+        const agreed = new Set(sample.votes.map(category)).size === 1;
+        const first = sample.votes[0];
+        sample.review_status = agreed ? first.status : "disputed";
+        if (agreed && first.label && first.label !== sample.label) {
+          sample.label = first.label;
+          sample.class_uid = first.class_uid;
+        }
+      }
+      reviews.push({ sample_id: id, reviewer, status: body.status, relabeled, at });
+      console.log(`[vote] ${id} ${body.status} by ${reviewer} (${sample.votes.length}/${sample.assigned_reviewers.length}) → ${sample.review_status}`);
+      const { keypoints: _kp, ...rest } = sample;
+      return send(res, 200, rest);
+    }
+
+    if (relabeled) {
+      sample.label = body.label;
+      sample.class_uid = body.class_uid;
+    }
+    Object.assign(sample, {
+      review_status: body.status,
+      review_reason: body.reason,
+      reviewed_by: reviewer,
+      reviewed_at: at,
+    });
+    reviews.push({ sample_id: id, reviewer, status: body.status, relabeled, at: sample.reviewed_at });
+    console.log(`[review] ${id} ${body.status} by ${reviewer}${relabeled ? ` → ${body.label}` : ""}`);
+    const { keypoints: _kp, ...rest } = sample;
+    send(res, 200, rest);
+  })],
+  ["POST", /^\/dataset\/reviews\/assign$/, adminOnly(async (req, res) => {
+    const body = await readJson(req);
+    if (!body || typeof body.assignments !== "object") return send(res, 400, { detail: "assignments is required" });
+    let assigned = 0;
+    for (const [id, reviewers] of Object.entries(body.assignments)) {
+      const sample = samples.find((s) => s.sample_id === id);
+      if (!sample || !Array.isArray(reviewers)) continue;
+      Object.assign(sample, { assigned_reviewers: reviewers.map(String), votes: [], review_status: "pending", adjudicated_by: undefined });
+      assigned++;
+    }
+    console.log(`[assign] ${assigned} samples`);
+    send(res, 200, { assigned });
+  })],
+  ["POST", /^\/dataset\/samples\/([^/]+)\/adjudicate$/, adminOnly(async (req, res, [id]) => {
+    const sample = samples.find((s) => s.sample_id === id);
+    if (!sample) return send(res, 404, { detail: "Unknown sample" });
+    const body = await readJson(req);
+    if (!body || !["approved", "rejected"].includes(body.status)) {
+      return send(res, 400, { detail: "status (approved|rejected) is required" });
+    }
+    const reviewer = authenticate(req).username;
+    if (typeof body.label === "string" && body.label !== sample.label) {
+      sample.label = body.label;
+      sample.class_uid = body.class_uid;
+    }
+    Object.assign(sample, {
+      review_status: body.status,
+      review_reason: body.reason,
+      reviewed_by: reviewer,
+      reviewed_at: new Date().toISOString(),
+      adjudicated_by: reviewer,
+    });
+    console.log(`[adjudicate] ${id} ${body.status} by ${reviewer}`);
+    const { keypoints: _kp, ...rest } = sample;
+    send(res, 200, rest);
+  })],
+  ["GET", /^\/dataset\/reviews\/stats$/, adminOnly(async (_req, res) => {
+    const midnight = new Date();
+    midnight.setHours(0, 0, 0, 0);
+    const byReviewer = new Map();
+    for (const r of reviews) {
+      const row = byReviewer.get(r.reviewer) ?? { reviewer: r.reviewer, approved: 0, rejected: 0, relabeled: 0, today: 0 };
+      row[r.status]++;
+      if (r.relabeled) row.relabeled++;
+      if (new Date(r.at) >= midnight) row.today++;
+      row.last_reviewed_at = r.at;
+      byReviewer.set(r.reviewer, row);
+    }
+    send(res, 200, { pending: samples.filter((s) => s.review_status === "pending").length, reviewers: [...byReviewer.values()] });
+  })],
+  ["DELETE", /^\/dataset\/samples\/([^/]+)$/, adminOnly(async (_req, res, [id]) => {
+    const index = samples.findIndex((s) => s.sample_id === id);
+    if (index < 0) return send(res, 404, { detail: "Unknown sample" });
+    samples.splice(index, 1);
+    send(res, 204);
+  })],
+  ["GET", /^\/classes\/([^/]+)\/reference$/, async (_req, res, [uid]) => {
+    const media = references.get(uid);
+    if (!media) return send(res, 404, { detail: "No reference media" });
+    send(res, 200, media);
+  }],
+  ["PUT", /^\/classes\/([^/]+)\/reference$/, adminOnly(async (req, res, [uid]) => {
+    const body = await readJson(req);
+    if (!body || (body.type !== "video" && body.type !== "landmarks")) {
+      return send(res, 400, { detail: "type must be video or landmarks" });
+    }
+    references.set(uid, body);
+    console.log(`[reference] ${uid} ${body.type}`);
+    send(res, 200, body);
+  })],
+  ["DELETE", /^\/classes\/([^/]+)\/reference$/, adminOnly(async (_req, res, [uid]) => {
+    references.delete(uid);
+    send(res, 204);
+  })],
+  ["GET", /^\/jobs\/([^/]+)$/, async (_req, res, [id]) => {
+    const job = jobs.get(id);
+    if (!job) return send(res, 404, { detail: "Unknown job" });
+    const elapsed = (Date.now() - job.created) / JOB_DURATION_MS;
+    if (elapsed < 0.2) return send(res, 200, { jobId: id, status: "queued" });
+    if (elapsed < 1) return send(res, 200, { jobId: id, status: "processing", progress: Math.round(elapsed * 100) });
+    send(res, 200, { jobId: id, status: "completed", progress: 100, total_frames: job.frames });
+  }],
+];
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (LATENCY_MS > 0) await sleep(LATENCY_MS);
+  // A stale token is rejected everywhere (not just on admin routes), like the real API
+  if (!url.pathname.startsWith("/auth/") && authenticate(req) === null) {
+    return send(res, 401, { detail: "Token expired or invalid" });
+  }
+
+  for (const [method, pattern, handler] of routes) {
+    const match = req.method === method && url.pathname.match(pattern);
+    if (match) {
+      try {
+        await handler(req, res, match.slice(1).map(decodeURIComponent), url);
+      } catch (err) {
+        console.error(err);
+        send(res, 500, { detail: String(err) });
+      }
+      return;
+    }
+  }
+  send(res, 404, { detail: `No mock route for ${req.method} ${url.pathname}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`VOYA mock API on http://localhost:${PORT} (fail rate ${FAIL_RATE}, latency ${LATENCY_MS}ms)`);
+});
@@ -1,28 +1,38 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from "react-router-dom";
 import Layout from "./components/Layout";
+import AuthProvider from "./components/AuthProvider";
+import RequireAdmin from "./components/RequireAdmin";
 import { Suspense, lazy } from "react";
 
-// const DashboardPage = lazy(() => import("./components/dashboard/AnalyticsOverview"));
+const DashboardPage = lazy(() => import("./components/dashboard/AnalyticsOverview"));
 const LabelsPage = lazy(() => import("./pages/LabelsPage"));
 const UploadPage = lazy(() => import("./pages/UploadPage"));
-// const JobsPage = lazy(() => import("./pages/JobsPage"));
-// const SamplesPage = lazy(() => import("./pages/SamplesPage"));
+const JobsPage = lazy(() => import("./pages/JobsPage"));
+const SamplesPage = lazy(() => import("./pages/SamplesPage"));
+const ReviewPage = lazy(() => import("./pages/ReviewPage"));
+const AgreementPage = lazy(() => import("./pages/AgreementPage"));
+const LoginPage = lazy(() => import("./pages/LoginPage"));
 
 function App() {
   return (
     <Router>
+      <AuthProvider>
         <Layout>
           <Suspense fallback={<div className="p-6">Loading...</div>}>
             <Routes>
-              {/* <Route path="/dashboard" element={<DashboardPage />} /> */}
+              <Route path="/dashboard" element={<RequireAdmin><DashboardPage /></RequireAdmin>} />
               <Route path="/labels" element={<LabelsPage />} />
               <Route path="/upload" element={<UploadPage />} />
-              {/* <Route path="/jobs" element={<JobsPage />} /> */}
-              {/* <Route path="/samples" element={<SamplesPage />} /> */}
+              <Route path="/jobs" element={<JobsPage />} />
+              <Route path="/samples" element={<RequireAdmin><SamplesPage /></RequireAdmin>} />
+              <Route path="/review" element={<RequireAdmin><ReviewPage /></RequireAdmin>} />
+              <Route path="/agreement" element={<RequireAdmin><AgreementPage /></RequireAdmin>} />
+              <Route path="/login" element={<LoginPage />} />
               <Route path="/" element={<Navigate to="/upload" />} />
             </Routes>
           </Suspense>
         </Layout>
+      </AuthProvider>
     </Router>
   );
 }
@@ -0,0 +1,45 @@
+import axiosClient from "./axiosClient";
+import { describeError, httpStatus } from "./errors";
+import { clearSession, getSession, setSession } from "./session";
+import { validateAuthSession, validateAuthUser } from "./validators";
+import type { Result } from "./validators";
+import type { AuthSession, AuthUser } from "../types";
+
+// Exchange credentials for tokens and remember them (see api/session)
+export const login = async (username: string, password: string): Promise<Result<AuthSession>> => {
+  try {
+    const res = await axiosClient.post("/auth/login", { username, password });
+    const session = validateAuthSession(res.data);
+    if (session.ok) setSession(session.data);
+    return session;
+  } catch (err: unknown) {
+    if (httpStatus(err) === 401) return { ok: false, error: "Sai tên đăng nhập hoặc mật khẩu" };
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Re-check the stored login (the interceptor refreshes an expired access token).
+// Keeps the stored tokens but updates the user in case their role changed.
+export const fetchMe = async (): Promise<Result<AuthUser>> => {
+  try {
+    const res = await axiosClient.get("/auth/me");
+    const user = validateAuthUser(res.data);
+    const session = getSession();
+    if (user.ok && session) setSession({ ...session, user: user.data });
+    return user;
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Revokes the refresh token server-side; the local session is dropped either way
+export const logout = async (): Promise<void> => {
+  const session = getSession();
+  try {
+    if (session) await axiosClient.post("/auth/logout", { refresh_token: session.refresh_token });
+  } catch (err: unknown) {
+    console.warn("[auth] Logout request failed", describeError(err));
+  } finally {
+    clearSession();
+  }
+};
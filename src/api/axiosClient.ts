@@ -1,4 +1,7 @@
 import axios from "axios";
+import type { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { expireSession, getAccessToken, getSession, setSession } from "./session";
+import { validateAuthSession } from "./validators";
 
 const axiosClient = axios.create({
   baseURL: import.meta.env.VITE_API_URL || "http://localhost:8000", // Vite env var
@@ -13,6 +16,38 @@ axiosClient.interceptors.request.use((cfg) => {
   return cfg;
 });
 
+// Bearer token from the current login, unless the caller set its own header
+axiosClient.interceptors.request.use((cfg) => {
+  const token = getAccessToken();
+  if (token && !cfg.headers.Authorization) cfg.headers.Authorization = `Bearer ${token}`;
+  return cfg;
+});
+
+// One refresh at a time: requests that fail together wait for the same new token
+let refreshing: Promise<string | null> | null = null;
+
+const refreshAccessToken = () => {
+  refreshing ??= (async () => {
+    const session = getSession();
+    if (!session?.refresh_token) return null;
+    try {
+      // Plain axios so a 401 here does not recurse into the interceptor below
+      const res = await axios.post("/auth/refresh", { refresh_token: session.refresh_token }, { baseURL: axiosClient.defaults.baseURL });
+      const next = validateAuthSession(res.data);
+      if (!next.ok) return null;
+      setSession(next.data);
+      return next.data.access_token;
+    } catch {
+      return null;
+    }
+  })().finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+};
+
+const isAuthCall = (url?: string) => !!url && /^\/?auth\/(login|refresh)/.test(url);
+
 // Response logger
 axiosClient.interceptors.response.use(
   (res) => {
@@ -21,7 +56,19 @@ axiosClient.interceptors.response.use(
     }
     return res;
   },
-  (err) => {
+  async (err) => {
+    // Expired access token: refresh once and replay, otherwise send the user to login
+    const original = (err as AxiosError)?.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+    if (err?.response?.status === 401 && original && !original._retried && !isAuthCall(original.url)) {
+      original._retried = true;
+      const token = await refreshAccessToken();
+      if (token) {
+        original.headers.Authorization = `Bearer ${token}`;
+        return axiosClient(original);
+      }
+      expireSession();
+    }
+
     // Normalize error message for network errors and log details to console
   console.error('[api] Request failed:', err?.config?.url, err?.message, err?.response?.status);
 
@@ -0,0 +1,35 @@
+import axiosClient from "./axiosClient";
+import { validateCaptureProfiles } from "./validators";
+import type { CaptureProfileList, Result } from "./validators";
+import { DEFAULT_CAPTURE_PROFILE } from "../config/capture";
+
+export type CaptureProfileSource = "backend" | "file" | "builtin";
+
+// Resolve capture profiles at runtime: the backend `/capture/profiles` endpoint
+// first, then `public/capture-profiles.json`, then the built-in default. Never
+// fails — the built-in profile is always available.
+export const getCaptureProfiles = async (): Promise<Result<CaptureProfileList & { source: CaptureProfileSource }>> => {
+  try {
+    const res = await axiosClient.get("/capture/profiles");
+    const parsed = validateCaptureProfiles(res.data);
+    if (parsed.ok) return { ok: true, data: { ...parsed.data, source: "backend" } };
+  } catch {
+    // endpoint not available on this backend — fall through
+  }
+
+  try {
+    const res = await fetch(`${import.meta.env.BASE_URL}capture-profiles.json`, { cache: "no-cache" });
+    if (res.ok) {
+      const parsed = validateCaptureProfiles(await res.json());
+      if (parsed.ok) return { ok: true, data: { ...parsed.data, source: "file" } };
+      console.warn("[capture] Invalid capture-profiles.json:", parsed.error);
+    }
+  } catch {
+    // ignore
+  }
+
+  return {
+    ok: true,
+    data: { profiles: [DEFAULT_CAPTURE_PROFILE], default_profile: DEFAULT_CAPTURE_PROFILE.id, source: "builtin" },
+  };
+};
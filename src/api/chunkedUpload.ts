@@ -0,0 +1,239 @@
+import axiosClient from "./axiosClient";
+import { describeError, httpStatus } from "./errors";
+import { uploadVideo } from "./upload";
+import type { ClassUploadOptions, SignerUploadOptions, UploadProgressOptions } from "./upload";
+import { validateChunkedSession, validateUploadResult } from "./validators";
+import type { Result } from "./validators";
+import type { ChunkedUploadSession, UploadResult } from "../types";
+
+// Resumable video upload. The server hands out an upload id, the file is sent
+// in chunks and the id is remembered per file fingerprint in localStorage, so
+// re-adding the same file after a reload continues from the last stored byte.
+// Servers without the chunked endpoints get the single-request upload instead.
+
+const SESSIONS_KEY = "resumableUploads";
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const CHUNK_ATTEMPTS = 4;
+const BASE_DELAY = 500; // ms
+// Server sessions are assumed gone after a day
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+// Init responses meaning "this server has no chunked upload"
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+export const UPLOAD_ABORTED = "Upload aborted";
+
+// `upload_key` identifies what the bytes are being uploaded as (see uploadKey)
+type StoredSession = ChunkedUploadSession & { size: number; updated_at: number; upload_key?: string };
+
+export type ResumableUploadOptions = UploadProgressOptions & ClassUploadOptions & SignerUploadOptions & { dialect?: string };
+
+export const fileFingerprint = (file: File) => `${file.name}::${file.size}::${file.lastModified}`;
+
+// The server fixed user/label/class/signer at init, so a stored session only
+// continues an upload of the same file with the same metadata
+const uploadKey = (user: string, label: string, { dialect, classUid, signerId, consent }: ResumableUploadOptions) =>
+  JSON.stringify([user, label, dialect ?? null, classUid ?? null, signerId ?? null, consent?.version ?? null]);
+
+const readSessions = (): Record<string, StoredSession> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SESSIONS_KEY) || "{}");
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // ignore
+  }
+  return {};
+};
+
+const writeSessions = (sessions: Record<string, StoredSession>) => {
+  try {
+    const now = Date.now();
+    const fresh = Object.fromEntries(Object.entries(sessions).filter(([, s]) => now - s.updated_at < SESSION_TTL_MS));
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(fresh));
+  } catch {
+    // ignore
+  }
+};
+
+const saveSession = (file: File, session: ChunkedUploadSession, key: string) => {
+  writeSessions({ ...readSessions(), [fileFingerprint(file)]: { ...session, size: file.size, updated_at: Date.now(), upload_key: key } });
+};
+
+const clearSession = (file: File) => {
+  const sessions = readSessions();
+  delete sessions[fileFingerprint(file)];
+  writeSessions(sessions);
+};
+
+// Locally known progress of an unfinished upload for this file, if any.
+export const getStoredSession = (file: File): StoredSession | null => {
+  const session = readSessions()[fileFingerprint(file)];
+  if (!session || session.size !== file.size || Date.now() - session.updated_at >= SESSION_TTL_MS) return null;
+  return session;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(UPLOAD_ABORTED));
+    };
+    // The upload's signal outlives every retry, so don't leave a listener per wait
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const unwrap = <T>(res: Result<T>): T => {
+  if (!res.ok) throw new Error(res.error);
+  return res.data;
+};
+
+// Ask the server how far a stored session got. Returns null when the server
+// no longer knows the upload id, or the session was started with different
+// metadata, so the caller starts a fresh session.
+const resumeSession = async (file: File, key: string, signal?: AbortSignal): Promise<ChunkedUploadSession | null> => {
+  const stored = getStoredSession(file);
+  if (!stored) return null;
+  if (stored.upload_key !== key) {
+    await cancelResumableUpload(file);
+    return null;
+  }
+  try {
+    const res = await axiosClient.get(`/upload/video/chunked/${encodeURIComponent(stored.upload_id)}`, { signal });
+    return unwrap(validateChunkedSession(res.data, stored.chunk_size));
+  } catch (err: unknown) {
+    if (httpStatus(err) === 404 || httpStatus(err) === 410) {
+      clearSession(file);
+      return null;
+    }
+    throw err;
+  }
+};
+
+const initSession = async (
+  file: File,
+  user: string,
+  label: string,
+  dialect: string | undefined,
+  classUid: string | undefined,
+  { signerId, consent }: SignerUploadOptions,
+  signal?: AbortSignal
+): Promise<ChunkedUploadSession | "unsupported"> => {
+  try {
+    const res = await axiosClient.post("/upload/video/chunked/init", {
+      filename: file.name,
+      size: file.size,
+      content_type: file.type || "application/octet-stream",
+      user,
+      label,
+      dialect,
+      class_uid: classUid,
+      signer_id: signerId,
+      consent,
+    }, { signal });
+    return unwrap(validateChunkedSession(res.data, DEFAULT_CHUNK_SIZE));
+  } catch (err: unknown) {
+    const status = httpStatus(err);
+    if (status !== undefined && UNSUPPORTED_STATUSES.includes(status)) return "unsupported";
+    throw err;
+  }
+};
+
+// Send file[start, end) and return the server's new received offset. A failed
+// chunk (including one the server answered without advancing the offset) is
+// retried with backoff after re-reading the offset from the server, since the
+// bytes may have been stored even if the response was lost.
+const sendChunk = async (
+  session: ChunkedUploadSession,
+  file: File,
+  start: number,
+  end: number,
+  signal: AbortSignal | undefined,
+  report: (bytes: number) => void
+): Promise<number> => {
+  const url = `/upload/video/chunked/${encodeURIComponent(session.upload_id)}`;
+  let offset = start;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await axiosClient.put(url, file.slice(offset, end), {
+        signal,
+        params: { offset },
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Range": `bytes ${offset}-${end - 1}/${file.size}`,
+        },
+        onUploadProgress: (e) => report(offset + e.loaded),
+      });
+      const received = unwrap(validateChunkedSession(res.data, session.chunk_size)).received || end;
+      // A 2xx that did not move the offset would otherwise loop forever
+      if (received <= offset) throw new Error(`Server did not accept bytes at offset ${offset}`);
+      return received;
+    } catch (err: unknown) {
+      if (signal?.aborted || attempt >= CHUNK_ATTEMPTS) throw err;
+      await wait(BASE_DELAY * 2 ** (attempt - 1) + Math.random() * 100, signal);
+      try {
+        const status = await axiosClient.get(url, { signal });
+        const received = unwrap(validateChunkedSession(status.data, session.chunk_size)).received;
+        if (received >= end) return received;
+        offset = received;
+      } catch {
+        // keep the current offset; the next attempt reports the real error
+      }
+    }
+  }
+};
+
+export const uploadVideoResumable = async (
+  file: File,
+  user: string,
+  label: string,
+  options: ResumableUploadOptions = {}
+): Promise<Result<UploadResult>> => {
+  const { dialect, classUid, signerId, consent, signal, onProgress } = options;
+  const report = (bytes: number) => onProgress?.(Math.min(bytes, file.size), file.size);
+  const key = uploadKey(user, label, options);
+
+  try {
+    let session = await resumeSession(file, key, signal);
+    if (!session) {
+      const started = await initSession(file, user, label, dialect, classUid, { signerId, consent }, signal);
+      if (started === "unsupported") return uploadVideo(file, user, label, dialect, { signal, onProgress, classUid, signerId, consent });
+      if (signal?.aborted) throw new Error(UPLOAD_ABORTED);
+      session = started;
+      saveSession(file, session, key);
+    }
+
+    let offset = session.received;
+    report(offset);
+    while (offset < file.size) {
+      const end = Math.min(file.size, offset + session.chunk_size);
+      offset = await sendChunk(session, file, offset, end, signal, report);
+      // Never persist progress after an abort; cancel clears the session right away
+      if (signal?.aborted) throw new Error(UPLOAD_ABORTED);
+      session = { ...session, received: offset };
+      saveSession(file, session, key);
+      report(offset);
+    }
+
+    const res = await axiosClient.post(`/upload/video/chunked/${encodeURIComponent(session.upload_id)}/complete`, null, { signal });
+    clearSession(file);
+    return validateUploadResult(res.data);
+  } catch (err: unknown) {
+    if (signal?.aborted) return { ok: false, error: UPLOAD_ABORTED };
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Drop the server session (best effort) and forget it locally.
+export const cancelResumableUpload = async (file: File): Promise<void> => {
+  const stored = getStoredSession(file);
+  clearSession(file);
+  if (!stored) return;
+  try {
+    await axiosClient.delete(`/upload/video/chunked/${encodeURIComponent(stored.upload_id)}`);
+  } catch {
+    // ignore
+  }
+};
@@ -1,5 +1,6 @@
 import axiosClient from "./axiosClient";
-import { validateLabels, validateSessions, validateLabel } from "./validators";
+import { validateLabels, validateSessions, validateClassRow } from "./validators";
+import { describeError } from "./errors";
 import type { Result } from "./validators";
 import type { Label, Session, ClassRow, ClassesListResponse, ClassStatsRow, ClassStatsResponse } from "../types";
 
@@ -8,27 +9,8 @@ export const getLabels = async (): Promise<Result<Label[]>> => {
   return validateLabels(res.data);
 };
 
-export const createLabel = async (label: string): Promise<Result<Label>> => {
-  const formData = new FormData();
-  formData.append("label", label);
-  const res = await axiosClient.post("/dataset/labels", formData);
-  return validateLabel(res.data);
-};
-
-export const updateLabel = async (class_idx: number, label: string): Promise<Result<Label>> => {
-  const formData = new FormData();
-  formData.append("label", label);
-  const res = await axiosClient.put(`/dataset/labels/${class_idx}`, formData);
-  return validateLabel(res.data);
-};
-
-export const deleteLabel = async (class_idx: number): Promise<Result<null>> => {
-  const res = await axiosClient.delete(`/dataset/labels/${class_idx}`);
-  // Backend may return simple status object; we'll coerce to Result<null>
-  return { ok: res.status >= 200 && res.status < 300, data: null, error: res.statusText } as Result<null>;
-};
-
-export const getSamples = async (): Promise<Result<Session[]>> => {
+// Capture sessions (not individual samples; see api/samples.ts)
+export const getSessions = async (): Promise<Result<Session[]>> => {
   const res = await axiosClient.get("/dataset/sessions");
   return validateSessions(res.data);
 };
@@ -111,15 +93,46 @@ export const getClassesList = async (language?: string, dialect?: string): Promi
   }
 };
 
-export const registerClass = async (payload: { label: string; language?: string; dialect?: string; is_common_global?: boolean; is_common_language?: boolean; }): Promise<Result<ClassRow>> => {
-  const res = await axiosClient.post('/classes/register', payload);
-  const raw = res.data;
-  // Try to normalize the returned registration into a ClassRow
-  if (raw && typeof raw === 'object') {
-    const row = raw as ClassRow;
-    return { ok: true, data: row } as Result<ClassRow>;
+export type ClassFlags = { is_common_global?: boolean; is_common_language?: boolean };
+
+export const registerClass = async (payload: { label: string; slug?: string; language?: string; dialect?: string } & ClassFlags): Promise<Result<ClassRow>> => {
+  try {
+    const res = await axiosClient.post('/classes/register', payload);
+    return validateClassRow(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Rename and/or re-flag a class; only the given fields change
+export const updateClass = async (classUid: string, patch: { label_original?: string; slug?: string } & ClassFlags): Promise<Result<ClassRow>> => {
+  try {
+    const res = await axiosClient.patch(`/classes/${encodeURIComponent(classUid)}`, patch);
+    return validateClassRow(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Moves every sample of `sourceUid` to `targetUid` and retires the source class
+export const mergeClasses = async (sourceUid: string, targetUid: string): Promise<Result<{ moved_samples: number }>> => {
+  try {
+    const res = await axiosClient.post('/classes/merge', { source_uid: sourceUid, target_uid: targetUid });
+    const moved = Number((res.data as { moved_samples?: unknown } | undefined)?.moved_samples);
+    return { ok: true, data: { moved_samples: Number.isFinite(moved) ? moved : 0 } };
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Archived classes keep their samples but drop out of lists and uploads
+export const archiveClass = async (classUid: string): Promise<Result<null>> => {
+  try {
+    await axiosClient.post(`/classes/${encodeURIComponent(classUid)}/archive`);
+    return { ok: true, data: null };
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
   }
-  return { ok: false, error: 'Invalid register class response' } as Result<ClassRow>;
 };
 
 export const getClassesStats = async (language?: string, dialect?: string): Promise<Result<ClassStatsResponse>> => {
@@ -154,4 +167,4 @@ export const getClassesStats = async (language?: string, dialect?: string): Prom
   }
 };
 
-// Keep legacy endpoints as fallback (getLabels/createLabel/updateLabel/deleteLabel remain)
+// Legacy /dataset/labels is only read (getLabels) as a fallback; classes are edited through the endpoints above
@@ -0,0 +1,18 @@
+import axios from "axios";
+
+export const httpStatus = (err: unknown): number | undefined =>
+  axios.isAxiosError(err) ? err.response?.status : undefined;
+
+// Short, loggable description of a failed request. FastAPI-style
+// `{ detail: "..." }` bodies are shown as plain text.
+export const describeError = (err: unknown): string => {
+  if (axios.isAxiosError(err)) {
+    if (err.response) {
+      const data = err.response.data as { detail?: unknown } | undefined;
+      const detail = typeof data?.detail === "string" ? data.detail : JSON.stringify(data);
+      return `HTTP ${err.response.status} - ${detail}`;
+    }
+    if (err.request) return "No response received (request sent)";
+  }
+  return err instanceof Error ? err.message : String(err);
+};
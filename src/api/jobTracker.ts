@@ -0,0 +1,180 @@
+import { getJobStatus } from "./jobs";
+import { notify } from "../utils/notify";
+import type { JobStatus, TrackedJob, TrackedJobState } from "../types";
+
+// Background tracking of video extraction jobs. Every upload that returns a
+// task_id is recorded in localStorage and polled via getJobStatus until it is
+// extracted or failed. Polling backs off while a job does not change, and
+// components subscribe to `voya:jobschange` to re-read the history.
+
+const STORAGE_KEY = "jobHistory";
+const CHANGE_EVENT = "voya:jobschange";
+const MAX_HISTORY = 100;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+// A job whose status cannot be read this many times in a row is given up on
+const MAX_POLL_ERRORS = 8;
+// Floor for the timer so overdue jobs (e.g. while offline) never spin
+const MIN_TICK_MS = 1000;
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let polling = false;
+
+export const JOBS_CHANGE_EVENT = CHANGE_EVENT;
+
+export const isTerminal = (state: TrackedJobState) => state === "extracted" || state === "failed";
+
+const readJobs = (): TrackedJob[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed.filter((j) => j && typeof j.task_id === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeJobs = (jobs: TrackedJob[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs.slice(0, MAX_HISTORY)));
+  } catch {
+    // ignore
+  }
+  try {
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  } catch {
+    // ignore
+  }
+};
+
+const updateJob = (taskId: string, updates: Partial<TrackedJob>) => {
+  writeJobs(readJobs().map((j) => (j.task_id === taskId ? { ...j, ...updates } : j)));
+};
+
+// Newest first
+export const listJobs = (): TrackedJob[] => readJobs();
+
+export const removeJob = (taskId: string) => {
+  writeJobs(readJobs().filter((j) => j.task_id !== taskId));
+};
+
+export const clearFinishedJobs = () => {
+  writeJobs(readJobs().filter((j) => !isTerminal(j.state)));
+};
+
+const backoff = (idlePolls: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.min(idlePolls, 10));
+
+// Backends report free-form status strings; map the common ones.
+export const normalizeJobState = (status: JobStatus): TrackedJobState => {
+  const s = String(status.status ?? "").toLowerCase();
+  if (["failed", "failure", "error", "cancelled", "canceled"].includes(s)) return "failed";
+  if (["completed", "complete", "done", "success", "succeeded", "finished", "extracted"].includes(s)) return "extracted";
+  if (["running", "processing", "started", "in_progress", "progress"].includes(s)) return "processing";
+  return "queued";
+};
+
+const totalFrames = (status: JobStatus): number | undefined => {
+  const result = status.result as { total_frames?: unknown } | undefined;
+  const n = Number(status.total_frames ?? result?.total_frames);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+export const trackJob = (job: { task_id: string; label: string; user: string; filename?: string }) => {
+  const now = Date.now();
+  const tracked: TrackedJob = {
+    ...job,
+    state: "queued",
+    created_at: now,
+    updated_at: now,
+    idle_polls: 0,
+    errors: 0,
+    next_poll_at: now + BASE_DELAY_MS,
+  };
+  writeJobs([tracked, ...readJobs().filter((j) => j.task_id !== job.task_id)]);
+  ensureJobPolling();
+};
+
+// Poll now regardless of the backoff, e.g. from a refresh button
+export const refreshJob = async (taskId: string) => {
+  updateJob(taskId, { next_poll_at: 0 });
+  await pollDueJobs();
+  ensureJobPolling();
+};
+
+const pollJob = async (job: TrackedJob) => {
+  const now = Date.now();
+  let status: JobStatus;
+  try {
+    const res = await getJobStatus(job.task_id);
+    if (!res.ok) throw new Error(res.error);
+    status = res.data;
+  } catch (err: unknown) {
+    const errors = job.errors + 1;
+    const message = err instanceof Error ? err.message : String(err);
+    if (errors >= MAX_POLL_ERRORS) {
+      updateJob(job.task_id, { state: "failed", errors, updated_at: now, message: `Không đọc được trạng thái: ${message}` });
+      notify(`Không theo dõi được công việc "${job.label}"`, "warning");
+    } else {
+      updateJob(job.task_id, { errors, next_poll_at: now + backoff(errors) });
+    }
+    return;
+  }
+
+  const state = normalizeJobState(status);
+  const progress = typeof status.progress === "number" ? status.progress : job.progress;
+  const frames = totalFrames(status) ?? job.total_frames;
+  const message = typeof status.message === "string" ? status.message : typeof status.detail === "string" ? status.detail : job.message;
+  const changed = state !== job.state || progress !== job.progress;
+  const idlePolls = changed ? 0 : job.idle_polls + 1;
+
+  updateJob(job.task_id, {
+    state,
+    progress,
+    total_frames: frames,
+    message,
+    errors: 0,
+    idle_polls: idlePolls,
+    updated_at: changed ? now : job.updated_at,
+    next_poll_at: now + backoff(idlePolls),
+  });
+
+  if (state === "extracted" && job.state !== "extracted") {
+    notify(`Đã trích xuất "${job.label}"${frames ? ` (${frames} khung)` : ""}`, "success");
+  } else if (state === "failed" && job.state !== "failed") {
+    notify(`Xử lý "${job.label}" thất bại${message ? `: ${message}` : ""}`, "error", 8000);
+  }
+};
+
+const pollDueJobs = async () => {
+  if (polling) return;
+  polling = true;
+  try {
+    const now = Date.now();
+    const due = readJobs().filter((j) => !isTerminal(j.state) && j.next_poll_at <= now);
+    for (const job of due) {
+      if (typeof navigator !== "undefined" && navigator.onLine === false) break;
+      await pollJob(job);
+    }
+  } finally {
+    polling = false;
+  }
+};
+
+// Schedule the next poll for the earliest due job. Safe to call repeatedly;
+// only one timer is active per tab.
+export const ensureJobPolling = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const active = readJobs().filter((j) => !isTerminal(j.state));
+  if (active.length === 0) return;
+  const next = Math.min(...active.map((j) => j.next_poll_at));
+  timer = setTimeout(async () => {
+    timer = null;
+    try {
+      await pollDueJobs();
+    } catch (err) {
+      console.warn("[jobs] Poll failed", err);
+    }
+    ensureJobPolling();
+  }, Math.max(MIN_TICK_MS, next - Date.now()));
+};
@@ -0,0 +1,174 @@
+import { isPermanentStatus, uploadCamera } from "./upload";
+import type { Result } from "./validators";
+import type { CameraUploadPayload, OutboxItem, UploadResult } from "../types";
+
+// Persistent outbox for camera uploads. Every payload is written to IndexedDB
+// before it is sent, so a capture survives network drops and page reloads.
+// Components subscribe to `voya:outboxchange` to re-read the queue.
+
+const DB_NAME = "voya-outbox";
+const DB_VERSION = 1;
+const STORE = "items";
+const CHANGE_EVENT = "voya:outboxchange";
+// Automatic drains wait this long after a failed attempt, doubling per attempt up to the cap
+const RETRY_BASE_MS = 30000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let drainPromise: Promise<number> | null = null;
+// Ids currently being uploaded by this tab, to avoid double-sending an item
+// picked up by both a direct send and a drain run.
+const inFlight = new Set<string>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error("Failed to open outbox database"));
+    };
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: "readonly" | "readwrite", fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? new Error("Outbox transaction failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("Outbox transaction aborted"));
+  });
+};
+
+const notifyChange = () => {
+  try {
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  } catch {
+    // ignore
+  }
+};
+
+const generateId = () => `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+export const OUTBOX_CHANGE_EVENT = CHANGE_EVENT;
+
+export const listOutbox = async (): Promise<OutboxItem[]> => {
+  const items = await withStore<OutboxItem[]>("readonly", (s) => s.getAll() as IDBRequest<OutboxItem[]>);
+  return items.sort((a, b) => a.created_at - b.created_at);
+};
+
+export const getOutboxItem = async (id: string): Promise<OutboxItem | undefined> => {
+  return withStore<OutboxItem | undefined>("readonly", (s) => s.get(id) as IDBRequest<OutboxItem | undefined>);
+};
+
+export const putOutboxItem = async (item: OutboxItem): Promise<void> => {
+  await withStore("readwrite", (s) => s.put(item));
+  notifyChange();
+};
+
+export const removeOutboxItem = async (id: string): Promise<void> => {
+  await withStore("readwrite", (s) => s.delete(id));
+  notifyChange();
+};
+
+export const enqueueUpload = async (payload: CameraUploadPayload): Promise<OutboxItem> => {
+  const item: OutboxItem = {
+    id: generateId(),
+    payload,
+    created_at: Date.now(),
+    attempts: 0,
+    status: "pending",
+  };
+  await putOutboxItem(item);
+  return item;
+};
+
+// Send a single queued item. On success the item is removed from the outbox;
+// on failure it stays queued with the error recorded for the queue panel.
+export const sendOutboxItem = async (queued: OutboxItem): Promise<Result<UploadResult> & { status?: number }> => {
+  if (inFlight.has(queued.id)) return { ok: false, error: "Upload already in progress" };
+  inFlight.add(queued.id);
+  try {
+    // Re-read so a stale snapshot never resurrects an item that was already sent
+    const item = await getOutboxItem(queued.id);
+    if (!item) return { ok: false, error: "Item no longer queued" };
+    return await sendItem(item);
+  } finally {
+    inFlight.delete(queued.id);
+  }
+};
+
+const sendItem = async (item: OutboxItem): Promise<Result<UploadResult> & { status?: number }> => {
+  const sending: OutboxItem = { ...item, status: "sending", attempts: item.attempts + 1, last_attempt_at: Date.now() };
+  await putOutboxItem(sending);
+
+  let result: Result<UploadResult> & { status?: number };
+  try {
+    result = await uploadCamera(item.payload);
+  } catch (err: unknown) {
+    result = { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  if (result.ok) {
+    await removeOutboxItem(item.id);
+  } else {
+    await putOutboxItem({
+      ...sending,
+      status: isPermanentStatus(result.status) ? "rejected" : "failed",
+      last_error: result.error,
+      last_status: result.status,
+    });
+  }
+  return result;
+};
+
+// When an automatic drain may try the item again
+const nextAttemptAt = (item: OutboxItem) =>
+  item.attempts === 0 || !item.last_attempt_at
+    ? 0
+    : item.last_attempt_at + Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (item.attempts - 1));
+
+// Send every queued item in order. Concurrent callers share the same drain run.
+// Rejected items are left for a manual retry; failed ones back off unless
+// `force` is set (the user asked, or the connection just came back).
+// Returns the number of items uploaded successfully.
+export const drainOutbox = (force = false): Promise<number> => {
+  if (drainPromise) return drainPromise;
+  drainPromise = (async () => {
+    let sent = 0;
+    try {
+      const items = await listOutbox();
+      for (const item of items) {
+        if (typeof navigator !== "undefined" && navigator.onLine === false) break;
+        if (inFlight.has(item.id) || item.status === "rejected") continue;
+        if (!force && Date.now() < nextAttemptAt(item)) continue;
+        const res = await sendOutboxItem(item);
+        if (res.ok) sent++;
+      }
+    } finally {
+      drainPromise = null;
+    }
+    return sent;
+  })();
+  return drainPromise;
+};
+
+// Items left in "sending" by a reload mid-request are reset so they get retried.
+export const recoverInterruptedItems = async (): Promise<void> => {
+  const items = await listOutbox();
+  for (const item of items) {
+    if (item.status === "sending") {
+      await putOutboxItem({ ...item, status: "pending" });
+    }
+  }
+};
@@ -0,0 +1,47 @@
+import axiosClient from "./axiosClient";
+import { describeError, httpStatus } from "./errors";
+import { validateReferenceMedia } from "./validators";
+import type { Result } from "./validators";
+import type { ClassRow, ReferenceMedia } from "../types";
+
+const referencePath = (classUid: string) => `/classes/${encodeURIComponent(classUid)}/reference`;
+
+// Reference carried on the class row itself (new or legacy field), if any
+export const classReference = (row: Pick<ClassRow, "reference_media" | "reference_url">): ReferenceMedia | null => {
+  if (row.reference_media) return row.reference_media;
+  return row.reference_url ? { type: "video", url: row.reference_url } : null;
+};
+
+// GIFs and still images are shown with <img>, everything else with <video>
+export const isImageUrl = (url: string) => /\.(gif|png|jpe?g|webp)(\?|#|$)/i.test(url);
+
+// 404 means the class has no reference yet
+export const getClassReference = async (classUid: string, signal?: AbortSignal): Promise<Result<ReferenceMedia | null>> => {
+  try {
+    const res = await axiosClient.get(referencePath(classUid), { signal });
+    return validateReferenceMedia(res.data);
+  } catch (err: unknown) {
+    if (httpStatus(err) === 404) return { ok: true, data: null };
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+export const saveClassReference = async (classUid: string, media: ReferenceMedia): Promise<Result<ReferenceMedia | null>> => {
+  try {
+    const res = await axiosClient.put(referencePath(classUid), media);
+    // Some backends answer 204; the saved value is then what we sent
+    return res.data ? validateReferenceMedia(res.data) : { ok: true, data: media };
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+export const deleteClassReference = async (classUid: string): Promise<Result<null>> => {
+  try {
+    await axiosClient.delete(referencePath(classUid));
+    return { ok: true, data: null };
+  } catch (err: unknown) {
+    if (httpStatus(err) === 404) return { ok: true, data: null };
+    return { ok: false, error: describeError(err) };
+  }
+};
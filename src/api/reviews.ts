@@ -0,0 +1,54 @@
+import axiosClient from "./axiosClient";
+import { describeError } from "./errors";
+import { getSession } from "./session";
+import { validateReviewStats, validateSample } from "./validators";
+import type { Result } from "./validators";
+import type { ReviewDecision, ReviewStats, ReviewStatus, Sample } from "../types";
+
+export const REVIEW_STATUSES: ReviewStatus[] = ["pending", "approved", "rejected", "disputed"];
+
+// Decisions are recorded under the signed-in account; the backend takes the
+// reviewer from the token, this is only for display and the assigned-to-me filter
+export const getReviewerName = () => getSession()?.user.username ?? "";
+
+// Approve or reject a sample, optionally moving it to another class; returns the updated sample.
+// On a sample with assigned reviewers this only records the reviewer's vote.
+export const reviewSample = async (sampleId: string, decision: ReviewDecision): Promise<Result<Sample>> => {
+  try {
+    const res = await axiosClient.post(`/dataset/samples/${encodeURIComponent(sampleId)}/review`, decision);
+    return validateSample(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Give each sample its own set of reviewers (see utils/agreement.distributeAssignments).
+// Assigned samples collect one independent vote per reviewer.
+export const assignReviewers = async (assignments: Record<string, string[]>): Promise<Result<{ assigned: number }>> => {
+  try {
+    const res = await axiosClient.post("/dataset/reviews/assign", { assignments });
+    const assigned = Number((res.data as { assigned?: unknown } | undefined)?.assigned);
+    return { ok: true, data: { assigned: Number.isFinite(assigned) ? assigned : Object.keys(assignments).length } };
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Final decision on a disputed sample by a senior reviewer; overrides the votes
+export const adjudicateSample = async (sampleId: string, decision: ReviewDecision): Promise<Result<Sample>> => {
+  try {
+    const res = await axiosClient.post(`/dataset/samples/${encodeURIComponent(sampleId)}/adjudicate`, decision);
+    return validateSample(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+export const getReviewStats = async (): Promise<Result<ReviewStats>> => {
+  try {
+    const res = await axiosClient.get("/dataset/reviews/stats");
+    return validateReviewStats(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
@@ -0,0 +1,92 @@
+import axiosClient from "./axiosClient";
+import { describeError } from "./errors";
+import { validateSamplePage } from "./validators";
+import type { Result } from "./validators";
+import { REVIEW_STATUSES } from "./reviews";
+import type { ReviewStatus, SamplePage } from "../types";
+
+export type SampleSortKey = "created_at" | "label" | "user" | "dialect" | "frames" | "quality_score";
+
+export type SampleQuery = {
+  page: number; // 1-based
+  page_size: number;
+  sort: SampleSortKey;
+  order: "asc" | "desc";
+  user?: string;
+  label?: string;
+  dialect?: string;
+  session_id?: string;
+  // Inclusive ISO dates (YYYY-MM-DD)
+  date_from?: string;
+  date_to?: string;
+  // Only samples whose quality score is below the flag threshold
+  flagged?: boolean;
+  review_status?: ReviewStatus;
+  // Pending samples assigned to this reviewer that they have not voted on yet
+  assigned_to?: string;
+  // Only samples with at least this many reviewer votes (agreement report)
+  min_votes?: number;
+};
+
+export const DEFAULT_SAMPLE_QUERY: SampleQuery = { page: 1, page_size: 25, sort: "created_at", order: "desc" };
+
+export const SAMPLE_SORT_KEYS: SampleSortKey[] = ["created_at", "label", "user", "dialect", "frames", "quality_score"];
+
+// Filtering, sorting and paging all happen on the server
+export const listSamples = async (query: SampleQuery, signal?: AbortSignal): Promise<Result<SamplePage>> => {
+  const params: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") params[key] = value;
+  }
+  try {
+    const res = await axiosClient.get("/dataset/samples", { params, signal });
+    return validateSamplePage(res.data, query);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+const FILTER_KEYS = ["user", "label", "dialect", "session_id", "date_from", "date_to", "assigned_to"] as const;
+
+export type SampleFilterKey = (typeof FILTER_KEYS)[number];
+
+// URL search params <-> query, so filtered views can be shared as links.
+// Defaults are left out of the URL; invalid values fall back to them.
+export const parseSampleQuery = (params: URLSearchParams): SampleQuery => {
+  const d = DEFAULT_SAMPLE_QUERY;
+  const int = (key: string, fallback: number) => {
+    const n = Number(params.get(key));
+    return Number.isInteger(n) && n > 0 ? n : fallback;
+  };
+  const sort = params.get("sort") as SampleSortKey | null;
+  const query: SampleQuery = {
+    page: int("page", d.page),
+    page_size: Math.min(200, int("page_size", d.page_size)),
+    sort: sort && SAMPLE_SORT_KEYS.includes(sort) ? sort : d.sort,
+    order: params.get("order") === "asc" ? "asc" : params.get("order") === "desc" ? "desc" : d.order,
+  };
+  for (const key of FILTER_KEYS) {
+    const value = params.get(key);
+    if (value?.trim()) query[key] = value;
+  }
+  if (params.get("flagged") === "1") query.flagged = true;
+  const status = params.get("review_status") as ReviewStatus | null;
+  if (status && REVIEW_STATUSES.includes(status)) query.review_status = status;
+  return query;
+};
+
+export const sampleQueryParams = (query: SampleQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  const d = DEFAULT_SAMPLE_QUERY;
+  if (query.page !== d.page) params.set("page", String(query.page));
+  if (query.page_size !== d.page_size) params.set("page_size", String(query.page_size));
+  if (query.sort !== d.sort) params.set("sort", query.sort);
+  if (query.order !== d.order) params.set("order", query.order);
+  for (const key of FILTER_KEYS) {
+    const value = query[key];
+    if (value) params.set(key, value);
+  }
+  if (query.flagged) params.set("flagged", "1");
+  if (query.review_status) params.set("review_status", query.review_status);
+  return params;
+};
@@ -0,0 +1,55 @@
+import type { AuthSession } from "../types";
+
+// Persisted login. Kept free of axios so both axiosClient (which attaches the
+// token) and the auth API (which obtains it) can depend on it.
+const KEY = "voya_auth";
+const CHANGE_EVENT = "voya:authchange";
+// Fired when a request got 401 and the refresh token could not fix it
+const EXPIRED_EVENT = "voya:authexpired";
+
+export const AUTH_CHANGE_EVENT = CHANGE_EVENT;
+export const AUTH_EXPIRED_EVENT = EXPIRED_EVENT;
+
+let cached: AuthSession | null | undefined;
+
+export const getSession = (): AuthSession | null => {
+  if (cached !== undefined) return cached;
+  try {
+    const raw = localStorage.getItem(KEY);
+    cached = raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch {
+    cached = null;
+  }
+  return cached;
+};
+
+export const getAccessToken = () => getSession()?.access_token ?? null;
+
+export const setSession = (session: AuthSession | null) => {
+  const roleChanged = getSession()?.user.role !== session?.user.role;
+  cached = session;
+  try {
+    if (session) localStorage.setItem(KEY, JSON.stringify(session));
+    else localStorage.removeItem(KEY);
+  } catch {
+    // ignore, the in-memory copy still works for this tab
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+  if (roleChanged) window.dispatchEvent(new Event("voya:rolechange"));
+};
+
+export const clearSession = () => setSession(null);
+
+export const expireSession = () => {
+  if (getSession()) clearSession();
+  window.dispatchEvent(new Event(EXPIRED_EVENT));
+};
+
+// Logging in or out in another tab
+window.addEventListener("storage", (e) => {
+  if (e.key !== KEY) return;
+  const before = cached?.user.role;
+  cached = undefined;
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+  if (getSession()?.user.role !== before) window.dispatchEvent(new Event("voya:rolechange"));
+});
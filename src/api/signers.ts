@@ -0,0 +1,72 @@
+import axiosClient from "./axiosClient";
+import { describeError } from "./errors";
+import { validateSigner, validateSigners } from "./validators";
+import type { Result } from "./validators";
+import { CONSENT_VERSION } from "../config/consent";
+import type { ConsentRecord, SignerInput, SignerProfile } from "../types";
+
+// Signer profiles live on the backend so the same person keeps one stable id
+// across devices; this browser only remembers which ones it used recently.
+const RECENT_KEY = "recentSignerIds";
+const RECENT_LIMIT = 5;
+
+const signerPath = (signerId: string) => `/signers/${encodeURIComponent(signerId)}`;
+
+export const listSigners = async (): Promise<Result<SignerProfile[]>> => {
+  try {
+    const res = await axiosClient.get("/signers");
+    return validateSigners(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+export const createSigner = async (input: SignerInput): Promise<Result<SignerProfile>> => {
+  try {
+    const res = await axiosClient.post("/signers", input);
+    return validateSigner(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+export const updateSigner = async (signerId: string, input: SignerInput): Promise<Result<SignerProfile>> => {
+  try {
+    const res = await axiosClient.put(signerPath(signerId), input);
+    return validateSigner(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Record that the signer accepted the current consent form; returns the updated profile
+export const recordConsent = async (signerId: string, version = CONSENT_VERSION): Promise<Result<SignerProfile>> => {
+  try {
+    const res = await axiosClient.post(`${signerPath(signerId)}/consent`, { version, accepted_at: new Date().toISOString() });
+    return validateSigner(res.data);
+  } catch (err: unknown) {
+    return { ok: false, error: describeError(err) };
+  }
+};
+
+// Consent that covers new recordings, or null if the signer must (re)accept the form
+export const currentConsent = (signer: SignerProfile | null | undefined): ConsentRecord | null =>
+  signer?.consent?.version === CONSENT_VERSION ? signer.consent : null;
+
+export const getRecentSignerIds = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RECENT_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed.filter((x) => typeof x === "string").slice(0, RECENT_LIMIT) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const rememberSigner = (signerId: string) => {
+  try {
+    const next = [signerId, ...getRecentSignerIds().filter((id) => id !== signerId)].slice(0, RECENT_LIMIT);
+    localStorage.setItem(RECENT_KEY, JSON.stringify(next));
+  } catch {
+    // ignore
+  }
+};
@@ -1,14 +1,39 @@
 import axiosClient from "./axiosClient";
+import { httpStatus } from "./errors";
 import { validateUploadResult } from "./validators";
 import type { Result } from "./validators";
-import type { UploadResult, CameraUploadPayload } from "../types";
+import type { UploadResult, CameraUploadPayload, ConsentRecord } from "../types";
 
-export const uploadVideo = async (file: File, user: string, label: string, dialect?: string): Promise<Result<UploadResult>> => {
+export type UploadProgressOptions = {
+  signal?: AbortSignal;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+};
+
+// Registered class the label resolved to; the backend falls back to the label when absent
+export type ClassUploadOptions = { classUid?: string };
+
+// Signer profile and the consent acceptance that covers this recording (see api/signers)
+export type SignerUploadOptions = { signerId?: string; consent?: ConsentRecord };
+
+export const uploadVideo = async (
+  file: File,
+  user: string,
+  label: string,
+  dialect?: string,
+  options: UploadProgressOptions & ClassUploadOptions & SignerUploadOptions = {}
+): Promise<Result<UploadResult>> => {
+  const { signal, onProgress, classUid, signerId, consent } = options;
   const formData = new FormData();
   formData.append("file", file);
   formData.append("user", user);
   formData.append("label", label);
   if (dialect) formData.append('dialect', dialect);
+  if (classUid) formData.append('class_uid', classUid);
+  if (signerId) formData.append('signer_id', signerId);
+  if (consent) {
+    formData.append('consent_version', consent.version);
+    formData.append('consent_accepted_at', consent.accepted_at);
+  }
 
   // Debug: log FormData keys and file info before sending (helps diagnose missing fields in browser)
   try {
@@ -34,9 +59,13 @@ export const uploadVideo = async (file: File, user: string, label: string, diale
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
       // Let the browser set Content-Type (with boundary). Setting it manually can break the request.
-      const res = await axiosClient.post("/upload/video", formData);
+      const res = await axiosClient.post("/upload/video", formData, {
+        signal,
+        onUploadProgress: (e) => onProgress?.(Math.min(e.loaded, file.size), file.size),
+      });
       return validateUploadResult(res.data);
     } catch (err: unknown) {
+      if (signal?.aborted) return { ok: false, error: "Upload aborted" };
       // If this is the last attempt, return a helpful error message
       if (attempt === maxAttempts) {
         // Try to extract axios-like error details for easier debugging
@@ -66,7 +95,15 @@ export const uploadVideo = async (file: File, user: string, label: string, diale
   return { ok: false, error: "Upload failed" };
 };
 
-export const uploadCamera = async (payload: CameraUploadPayload): Promise<Result<UploadResult>> => {
+// Client errors that resending the same payload cannot fix. Timeouts and rate
+// limits can, and so can 401: the same item goes through once the user signs in again.
+const RETRYABLE_CLIENT_STATUSES = [401, 408, 429];
+
+export const isPermanentStatus = (status?: number) =>
+  status !== undefined && status >= 400 && status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(status);
+
+// `status` is the HTTP status of the last failed attempt, when the server answered
+export const uploadCamera = async (payload: CameraUploadPayload): Promise<Result<UploadResult> & { status?: number }> => {
   const maxAttempts = 3;
   const baseDelay = 500;
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
@@ -74,9 +111,10 @@ export const uploadCamera = async (payload: CameraUploadPayload): Promise<Result
       const res = await axiosClient.post("/upload/camera", payload);
       return validateUploadResult(res.data);
     } catch (err: unknown) {
-      if (attempt === maxAttempts) {
+      const status = httpStatus(err);
+      if (attempt === maxAttempts || isPermanentStatus(status)) {
         const msg = err instanceof Error ? err.message : String(err);
-        return { ok: false, error: msg || "Upload failed" };
+        return { ok: false, error: msg || "Upload failed", status };
       }
       const jitter = Math.random() * 100;
       const delay = baseDelay * 2 ** (attempt - 1) + jitter;
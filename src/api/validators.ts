@@ -1,4 +1,6 @@
-import type { Session, Label, UploadResult, JobStatus } from "../types";
+import type { Session, Sample, SamplePage, Label, UploadResult, JobStatus, CaptureProfile, ChunkedUploadSession, ReferenceMedia, CapturedFrame, MediaPipeLandmark, ClassRow, QualityIssueCode, ReviewStatus, ReviewStats, ReviewerStats, ReviewVote, AuthSession, AuthUser, SignerProfile } from "../types";
+import { DEFAULT_CAPTURE_PROFILE } from "../config/capture";
+import { QUALITY_ISSUE_CODES } from "../utils/quality";
 
 export type Result<T> = { ok: true; data: T } | { ok: false; error: string };
 
@@ -20,16 +22,6 @@ export function validateLabels(data: unknown): Result<Label[]> {
   }
 }
 
-export function validateLabel(data: unknown): Result<Label> {
-  try {
-    if (!isObject(data)) throw new Error("Invalid label response");
-    return { ok: true, data: data as unknown as Label };
-  } catch (e: unknown) {
-    const msg = e instanceof Error ? e.message : String(e);
-    return { ok: false, error: msg };
-  }
-}
-
 export function validateSessions(data: unknown): Result<Session[]> {
   try {
     if (!Array.isArray(data)) throw new Error("Invalid sessions response");
@@ -71,3 +63,335 @@ export function validateUploadResult(data: unknown): Result<UploadResult> {
     return { ok: false, error: msg };
   }
 }
+
+// `chunk_size` is optional in status responses; callers keep their own value.
+export function validateChunkedSession(data: unknown, fallbackChunkSize: number): Result<ChunkedUploadSession> {
+  try {
+    if (!isObject(data) || typeof data.upload_id !== "string" || !data.upload_id) {
+      throw new Error("Invalid chunked upload response");
+    }
+    const chunk = Number(data.chunk_size);
+    const received = Number(data.received ?? 0);
+    return {
+      ok: true,
+      data: {
+        upload_id: data.upload_id,
+        chunk_size: Number.isFinite(chunk) && chunk > 0 ? Math.floor(chunk) : fallbackChunkSize,
+        received: Number.isFinite(received) && received > 0 ? Math.floor(received) : 0,
+      },
+    };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg };
+  }
+}
+
+export type CaptureProfileList = { profiles: CaptureProfile[]; default_profile: string };
+
+// Accepts `{ profiles: [...], default_profile? }` or a bare array. Missing or
+// out-of-range fields fall back to the built-in standard profile.
+export function validateCaptureProfiles(data: unknown): Result<CaptureProfileList> {
+  try {
+    const rawList = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.profiles) ? data.profiles : null;
+    if (!rawList) throw new Error("Invalid capture profiles response");
+
+    const num = (v: unknown, fallback: number, min: number, max: number) => {
+      const n = Number(v);
+      return Number.isFinite(n) && n >= min && n <= max ? n : fallback;
+    };
+    const d = DEFAULT_CAPTURE_PROFILE;
+    const profiles = rawList.filter(isObject).filter((p) => typeof p.id === "string" && p.id).map((p) => ({
+      id: String(p.id),
+      name: typeof p.name === "string" && p.name ? p.name : String(p.id),
+      description: typeof p.description === "string" ? p.description : undefined,
+      target_frames: Math.round(num(p.target_frames, d.target_frames, 5, 1000)),
+      capture_count: Math.round(num(p.capture_count, d.capture_count, 1, 100)),
+      sample_fps: num(p.sample_fps, d.sample_fps, 1, 60),
+      countdown_seconds: Math.round(num(p.countdown_seconds, d.countdown_seconds, 0, 10)),
+      record_headroom: num(p.record_headroom, d.record_headroom ?? 1, 1, 5),
+      min_detection_confidence: num(p.min_detection_confidence, d.min_detection_confidence, 0, 1),
+      min_tracking_confidence: num(p.min_tracking_confidence, d.min_tracking_confidence, 0, 1),
+      filter_min_cutoff: num(p.filter_min_cutoff, d.filter_min_cutoff, 0.01, 10),
+      filter_beta: num(p.filter_beta, d.filter_beta, 0, 10),
+      render_alpha: num(p.render_alpha, d.render_alpha, 0, 1),
+    } as CaptureProfile));
+    if (profiles.length === 0) throw new Error("No valid capture profiles");
+
+    const requested = isObject(data) && typeof data.default_profile === "string" ? data.default_profile : "";
+    const default_profile = profiles.some((p) => p.id === requested) ? requested : profiles[0].id;
+    return { ok: true, data: { profiles, default_profile } };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg };
+  }
+}
+
+const toLandmarks = (v: unknown): MediaPipeLandmark[] =>
+  Array.isArray(v)
+    ? v.filter(isObject).map((p) => ({ x: Number(p.x) || 0, y: Number(p.y) || 0, z: Number(p.z) || 0, ...(p.visibility !== undefined ? { visibility: Number(p.visibility) } : {}) }))
+    : [];
+
+// Frames are accepted in capture shape (`left_hand` at the top level) or in
+// upload payload shape (`landmarks.left_hand`), so exported samples can be reused.
+export function validateReferenceFrames(data: unknown): Result<CapturedFrame[]> {
+  try {
+    const list = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.frames) ? data.frames : null;
+    if (!list) throw new Error("Expected a list of frames");
+    const frames = list.filter(isObject).map((f, i) => {
+      const lm = isObject(f.landmarks) ? f.landmarks : f;
+      const frame: CapturedFrame = {
+        timestamp: Number.isFinite(Number(f.timestamp)) ? Number(f.timestamp) : i * 33,
+        left_hand: toLandmarks(lm.left_hand),
+        right_hand: toLandmarks(lm.right_hand),
+      };
+      if (Array.isArray(lm.pose)) frame.pose = toLandmarks(lm.pose);
+      if (Array.isArray(lm.face)) frame.face = toLandmarks(lm.face);
+      return frame;
+    });
+    if (!frames.some((f) => f.left_hand.length > 0 || f.right_hand.length > 0 || (f.pose?.length ?? 0) > 0)) {
+      throw new Error("No landmarks found in frames");
+    }
+    return { ok: true, data: frames };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg };
+  }
+}
+
+// Accepts the media object itself or `{ reference_media: ... }`; null means no reference.
+export function validateReferenceMedia(data: unknown): Result<ReferenceMedia | null> {
+  try {
+    const raw = isObject(data) && "reference_media" in data ? data.reference_media : data;
+    if (raw === null || raw === undefined || raw === "") return { ok: true, data: null };
+    if (!isObject(raw)) throw new Error("Invalid reference media");
+    if (raw.type === "video") {
+      if (typeof raw.url !== "string" || !raw.url.trim()) throw new Error("Reference video needs a url");
+      return { ok: true, data: { type: "video", url: raw.url.trim() } };
+    }
+    if (raw.type === "landmarks") {
+      const frames = validateReferenceFrames(raw.frames);
+      if (!frames.ok) return frames;
+      return { ok: true, data: { type: "landmarks", frames: frames.data } };
+    }
+    throw new Error(`Unknown reference media type: ${String(raw.type)}`);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg };
+  }
+}
+
+// Register / update responses return the row itself or wrap it in `{ class: ... }`
+export function validateClassRow(data: unknown): Result<ClassRow> {
+  try {
+    const raw = isObject(data) && isObject(data.class) ? data.class : data;
+    if (!isObject(raw) || typeof raw.class_uid !== "string" || !raw.class_uid) {
+      throw new Error("Invalid class response");
+    }
+    const idx = raw.class_idx;
+    return {
+      ok: true,
+      data: {
+        ...(raw as unknown as ClassRow),
+        class_idx: idx === "" || idx === null || idx === undefined ? -1 : Number(idx),
+        slug: String(raw.slug ?? ""),
+        label_original: String(raw.label_original ?? ""),
+      },
+    };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg };
+  }
+}
+
+const optionalString = (v: unknown) => (v === null || v === undefined || v === "" ? undefined : String(v));
+
+const isReviewStatus = (v: unknown): v is ReviewStatus => v === "pending" || v === "approved" || v === "rejected" || v === "disputed";
+
+const validateVote = (v: unknown): ReviewVote | null => {
+  if (!isObject(v) || !optionalString(v.reviewer) || (v.status !== "approved" && v.status !== "rejected")) return null;
+  return {
+    reviewer: String(v.reviewer),
+    status: v.status,
+    label: optionalString(v.label),
+    class_uid: optionalString(v.class_uid),
+    reason: optionalString(v.reason),
+    at: optionalString(v.at),
+  };
+};
+
+// Server samples use `sample_id` or `id`, and `frames` / `num_frames` for the frame count
+export function validateSample(data: unknown): Result<Sample> {
+  try {
+    if (!isObject(data)) throw new Error("Invalid sample item");
+    const id = optionalString(data.sample_id ?? data.id);
+    if (!id) throw new Error("Sample missing sample_id");
+    const frames = Number(data.frames ?? data.num_frames ?? data.total_frames);
+    // Quality may be flattened or nested as the uploaded `quality_info`
+    const quality = isObject(data.quality_info) ? data.quality_info : {};
+    const score = data.quality_score ?? quality.score;
+    const rawIssues = data.quality_issues ?? quality.issues;
+    const issues = Array.isArray(rawIssues)
+      ? rawIssues
+        .map((i) => (isObject(i) ? i.code : i))
+        .filter((c): c is QualityIssueCode => typeof c === "string" && QUALITY_ISSUE_CODES.includes(c as QualityIssueCode))
+      : undefined;
+    const flagged = data.flagged ?? quality.flagged;
+    return {
+      ok: true,
+      data: {
+        sample_id: id,
+        label: optionalString(data.label ?? data.label_original),
+        class_uid: optionalString(data.class_uid),
+        dialect: optionalString(data.dialect),
+        user: optionalString(data.user),
+        signer_id: optionalString(data.signer_id),
+        consent_version: optionalString(data.consent_version),
+        session_id: optionalString(data.session_id),
+        file_path: optionalString(data.file_path),
+        created_at: optionalString(data.created_at),
+        frames: Number.isFinite(frames) ? frames : undefined,
+        quality_score: score != null && Number.isFinite(Number(score)) ? Number(score) : undefined,
+        quality_issues: issues,
+        flagged: typeof flagged === "boolean" ? flagged : undefined,
+        // Backends without a review workflow omit the status; treat those as pending
+        review_status: isReviewStatus(data.review_status) ? data.review_status : "pending",
+        review_reason: optionalString(data.review_reason),
+        reviewed_by: optionalString(data.reviewed_by),
+        reviewed_at: optionalString(data.reviewed_at),
+        assigned_reviewers: Array.isArray(data.assigned_reviewers) ? data.assigned_reviewers.map(String) : undefined,
+        votes: Array.isArray(data.votes) ? data.votes.map(validateVote).filter((v): v is ReviewVote => v !== null) : undefined,
+        adjudicated_by: optionalString(data.adjudicated_by),
+        uploaded: true,
+      },
+    };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg };
+  }
+}
+
+// Accepts `{ items, total, page, page_size }` (also `count` / `data`) or a bare
+// array from backends that don't paginate; missing paging fields come from the request.
+export function validateSamplePage(data: unknown, requested: { page: number; page_size: number }): Result<SamplePage> {
+  try {
+    const list = Array.isArray(data)
+      ? data
+      : isObject(data) && Array.isArray(data.items) ? data.items
+      : isObject(data) && Array.isArray(data.data) ? data.data
+      : null;
+    if (!list) throw new Error("Invalid samples response");
+    const items: Sample[] = [];
+    for (const item of list) {
+      const res = validateSample(item);
+      if (!res.ok) return res;
+      items.push(res.data);
+    }
+    const meta = isObject(data) && !Array.isArray(data) ? data : {};
+    const num = (v: unknown, fallback: number) => (Number.isFinite(Number(v)) && v !== null && v !== "" ? Number(v) : fallback);
+    return {
+      ok: true,
+      data: {
+        items,
+        total: num(meta.total ?? meta.count, items.length),
+        page: num(meta.page, requested.page),
+        page_size: num(meta.page_size ?? meta.limit, requested.page_size),
+      },
+    };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg };
+  }
+}
+
+export function validateReviewStats(data: unknown): Result<ReviewStats> {
+  try {
+    if (!isObject(data)) throw new Error("Invalid review stats");
+    const count = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+    const reviewers: ReviewerStats[] = (Array.isArray(data.reviewers) ? data.reviewers : [])
+      .filter(isObject)
+      .filter((r) => optionalString(r.reviewer))
+      .map((r) => ({
+        reviewer: String(r.reviewer),
+        approved: count(r.approved),
+        rejected: count(r.rejected),
+        relabeled: count(r.relabeled),
+        today: count(r.today),
+        last_reviewed_at: optionalString(r.last_reviewed_at),
+      }));
+    return { ok: true, data: { pending: count(data.pending), reviewers } };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg };
+  }
+}
+
+export function validateAuthUser(data: unknown): Result<AuthUser> {
+  if (!isObject(data) || !optionalString(data.username)) return { ok: false, error: "Invalid user response" };
+  return {
+    ok: true,
+    data: {
+      username: String(data.username),
+      display_name: optionalString(data.display_name),
+      role: data.role === "admin" ? "admin" : "public",
+    },
+  };
+}
+
+// `expires_in` (seconds) is turned into an absolute `expires_at`
+export function validateAuthSession(data: unknown): Result<AuthSession> {
+  if (!isObject(data) || !optionalString(data.access_token) || !optionalString(data.refresh_token)) {
+    return { ok: false, error: "Invalid login response" };
+  }
+  const user = validateAuthUser(data.user);
+  if (!user.ok) return user;
+  const expiresIn = Number(data.expires_in);
+  return {
+    ok: true,
+    data: {
+      access_token: String(data.access_token),
+      refresh_token: String(data.refresh_token),
+      expires_at: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+      user: user.data,
+    },
+  };
+}
+
+const HEARING_STATUSES = ["deaf", "hard_of_hearing", "hearing", "undisclosed"] as const;
+const HANDEDNESS = ["right", "left", "ambidextrous"] as const;
+const AGE_BRACKETS = ["under_18", "18_29", "30_44", "45_59", "60_plus", "undisclosed"] as const;
+
+const oneOf = <T extends string>(values: readonly T[], v: unknown, fallback: T): T =>
+  values.includes(v as T) ? (v as T) : fallback;
+
+export function validateSigner(data: unknown): Result<SignerProfile> {
+  if (!isObject(data) || !optionalString(data.signer_id) || !optionalString(data.display_name)) {
+    return { ok: false, error: "Invalid signer profile" };
+  }
+  const consent = isObject(data.consent) && optionalString(data.consent.version) && optionalString(data.consent.accepted_at)
+    ? { version: String(data.consent.version), accepted_at: String(data.consent.accepted_at) }
+    : undefined;
+  return {
+    ok: true,
+    data: {
+      signer_id: String(data.signer_id),
+      display_name: String(data.display_name),
+      dialect_region: optionalString(data.dialect_region),
+      hearing_status: oneOf(HEARING_STATUSES, data.hearing_status, "undisclosed"),
+      handedness: oneOf(HANDEDNESS, data.handedness, "right"),
+      age_bracket: oneOf(AGE_BRACKETS, data.age_bracket, "undisclosed"),
+      consent,
+      created_at: optionalString(data.created_at),
+    },
+  };
+}
+
+export function validateSigners(data: unknown): Result<SignerProfile[]> {
+  const items = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.items) ? data.items : null;
+  if (!items) return { ok: false, error: "Invalid signers response" };
+  const out: SignerProfile[] = [];
+  for (const item of items) {
+    const signer = validateSigner(item);
+    if (signer.ok) out.push(signer.data);
+  }
+  return { ok: true, data: out };
+}
@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from "react";
+import Modal from "./ui/Modal";
+import Button from "./ui/Button";
+import Badge from "./ui/Badge";
+import LoadingSpinner from "./ui/LoadingSpinner";
+import SampleViewer from "./SampleViewer";
+import { getSampleData } from "../api/dataset";
+import { adjudicateSample, getReviewerName } from "../api/reviews";
+import { useClassOptions } from "../hooks/useClassOptions";
+import { decodeSampleData } from "../utils/sampleData";
+import type { DecodedSample } from "../utils/sampleData";
+import { notify } from "../utils/notify";
+import { DIALECT_NAMES, normalizeDialect } from "../utils/dialects";
+import type { ReviewDecision, Sample } from "../types";
+
+interface AdjudicateModalProps {
+  sample: Sample | null;
+  onClose: () => void;
+  onResolved: (sample: Sample) => void;
+}
+
+// Senior reviewer's final call on a disputed sample: replay it, compare the
+// votes, then approve under a chosen class or reject
+export default function AdjudicateModal({ sample, onClose, onResolved }: AdjudicateModalProps) {
+  const { classes } = useClassOptions("vn");
+  const [decoded, setDecoded] = useState<DecodedSample | null>(null);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [status, setStatus] = useState<ReviewDecision["status"]>("approved");
+  const [classUid, setClassUid] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const sampleId = sample?.sample_id;
+  useEffect(() => {
+    setDecoded(null);
+    setDataError(null);
+    setStatus("approved");
+    setReason("");
+    if (!sampleId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const buf: ArrayBuffer = await getSampleData(sampleId);
+        const result = await decodeSampleData(buf);
+        if (!cancelled) setDecoded(result);
+      } catch (err: unknown) {
+        if (!cancelled) setDataError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [sampleId]);
+
+  // Default to the class most approving votes chose, else the uploaded one
+  const votedClass = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const v of sample?.votes ?? []) {
+      const uid = v.status === "approved" ? v.class_uid ?? sample?.class_uid : undefined;
+      if (uid) counts.set(uid, (counts.get(uid) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? sample?.class_uid ?? "";
+  }, [sample]);
+  useEffect(() => setClassUid(votedClass), [votedClass]);
+
+  // Same narrowing as LabelCombobox: the sample's dialect plus "common"
+  const options = useMemo(() => {
+    const dialect = normalizeDialect(sample?.dialect);
+    if (!dialect || !(dialect in DIALECT_NAMES)) return classes;
+    return classes.filter((c) => {
+      const d = normalizeDialect(c.dialect) || "common";
+      return d === dialect || d === "common";
+    });
+  }, [classes, sample]);
+
+  const submit = async () => {
+    if (!sample?.sample_id) return;
+    const reviewer = getReviewerName();
+    if (!reviewer) {
+      notify("Phiên đăng nhập đã hết, đăng nhập lại để phân xử", "warning");
+      return;
+    }
+    if (status === "rejected" && !reason.trim()) {
+      notify("Cần lý do khi loại mẫu", "warning");
+      return;
+    }
+    const decision: ReviewDecision = { status, reviewer };
+    if (reason.trim()) decision.reason = reason.trim();
+    const row = classes.find((c) => c.class_uid === classUid);
+    if (status === "approved" && row && row.class_uid !== sample.class_uid) {
+      decision.label = row.label_original;
+      decision.class_uid = row.class_uid;
+    }
+    setSaving(true);
+    const res = await adjudicateSample(sample.sample_id, decision);
+    setSaving(false);
+    if (!res.ok) {
+      notify(`Không lưu được phân xử: ${res.error}`, "error");
+      return;
+    }
+    notify(`Đã phân xử mẫu ${sample.sample_id}`, "success");
+    onResolved(res.data);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={!!sample} onClose={onClose} title={`Phân xử mẫu #${sample?.sample_id ?? ""}`} size="xl">
+      {sample && (
+        <div className="space-y-4">
+          {decoded ? (
+            <SampleViewer frames={decoded.frames} height={340} />
+          ) : dataError ? (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">Không đọc được dữ liệu mẫu: {dataError}</div>
+          ) : (
+            <div className="flex items-center justify-center h-[340px] bg-gray-900 rounded-lg"><LoadingSpinner /></div>
+          )}
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">
+              Nhãn gốc: <Badge variant="default" size="sm">{sample.label || "—"}</Badge>
+            </div>
+            <ul className="space-y-1 text-sm">
+              {(sample.votes ?? []).map((v) => (
+                <li key={v.reviewer} className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-800">{v.reviewer}</span>
+                  <Badge variant={v.status === "approved" ? "success" : "danger"} size="sm">
+                    {v.status === "approved" ? "Duyệt" : "Loại"}
+                  </Badge>
+                  {v.status === "approved" && v.label && v.label !== sample.label && <span className="text-indigo-600">→ {v.label}</span>}
+                  {v.reason && <span className="text-gray-500">“{v.reason}”</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div>
+              <label className="text-sm text-gray-700 mb-2 block">Quyết định</label>
+              <select className="input w-full" value={status} onChange={(e) => setStatus(e.target.value as ReviewDecision["status"])}>
+                <option value="approved">Duyệt</option>
+                <option value="rejected">Loại</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-gray-700 mb-2 block">Nhãn cuối cùng</label>
+              <select
+                className="input w-full"
+                value={classUid}
+                onChange={(e) => setClassUid(e.target.value)}
+                disabled={status === "rejected"}
+              >
+                {!options.some((c) => c.class_uid === classUid) && <option value={classUid}>{sample.label || "—"}</option>}
+                {options.map((c) => (
+                  <option key={c.class_uid} value={c.class_uid}>
+                    {c.label_original}{c.dialect && normalizeDialect(c.dialect) !== "common" ? ` (${DIALECT_NAMES[normalizeDialect(c.dialect)] ?? c.dialect})` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-gray-700 mb-2 block">Lý do</label>
+              <input className="input w-full" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Bắt buộc khi loại" />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={onClose}>Huỷ</Button>
+            <Button onClick={submit} loading={saving}>⚖️ Lưu phân xử</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,103 @@
+import { useMemo, useState } from "react";
+import Modal from "./ui/Modal";
+import Button from "./ui/Button";
+import { assignReviewers } from "../api/reviews";
+import { distributeAssignments } from "../utils/agreement";
+import { notify } from "../utils/notify";
+
+interface AssignReviewersModalProps {
+  isOpen: boolean;
+  sampleIds: string[];
+  onClose: () => void;
+  onAssigned: () => void;
+}
+
+const POOL_KEY = "reviewerPool";
+
+const loadPool = () => {
+  try {
+    return localStorage.getItem(POOL_KEY) || "";
+  } catch {
+    return "";
+  }
+};
+
+const parsePool = (text: string) => [...new Set(text.split(/[,\n]/).map((r) => r.trim()).filter(Boolean))];
+
+// Bulk action on SamplesPage: each selected sample gets N independent reviewers,
+// balanced over the reviewer pool
+export default function AssignReviewersModal({ isOpen, sampleIds, onClose, onAssigned }: AssignReviewersModalProps) {
+  const [poolText, setPoolText] = useState(loadPool);
+  const [perSample, setPerSample] = useState(2);
+  const [saving, setSaving] = useState(false);
+
+  const pool = useMemo(() => parsePool(poolText), [poolText]);
+  const assignments = useMemo(() => distributeAssignments(sampleIds, pool, perSample), [sampleIds, pool, perSample]);
+  const load = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const reviewers of Object.values(assignments)) {
+      for (const r of reviewers) counts.set(r, (counts.get(r) ?? 0) + 1);
+    }
+    return counts;
+  }, [assignments]);
+
+  const submit = async () => {
+    setSaving(true);
+    const res = await assignReviewers(assignments);
+    setSaving(false);
+    if (!res.ok) {
+      notify(`Could not assign reviewers: ${res.error}`, "error");
+      return;
+    }
+    try {
+      localStorage.setItem(POOL_KEY, pool.join(", "));
+    } catch {
+      // ignore
+    }
+    notify(`Assigned ${res.data.assigned} samples to ${Math.min(perSample, pool.length)} reviewers each`, "success");
+    onAssigned();
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Assign Reviewers (${sampleIds.length} samples)`}>
+      <div className="space-y-4">
+        <div>
+          <label className="text-sm text-gray-700 mb-2 block">Reviewers (comma or newline separated)</label>
+          <textarea
+            className="input w-full h-24"
+            value={poolText}
+            onChange={(e) => setPoolText(e.target.value)}
+            placeholder="an, binh, chi"
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-sm text-gray-700">Reviewers per sample</label>
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, pool.length)}
+            className="input w-20"
+            value={perSample}
+            onChange={(e) => setPerSample(Math.max(1, Number(e.target.value) || 1))}
+          />
+          {perSample > pool.length && pool.length > 0 && (
+            <span className="text-xs text-yellow-700">Only {pool.length} reviewers available</span>
+          )}
+        </div>
+        {pool.length > 0 && (
+          <div className="text-sm text-gray-600">
+            {pool.map((r) => `${r}: ${load.get(r) ?? 0}`).join(" • ")}
+          </div>
+        )}
+        {perSample < 2 && (
+          <div className="text-xs text-gray-500">Agreement needs at least two reviewers per sample.</div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={submit} loading={saving} disabled={pool.length === 0 || sampleIds.length === 0}>Assign</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { AuthContext } from "../hooks/useAuth";
+import type { AuthContextValue } from "../hooks/useAuth";
+import { fetchMe, login as apiLogin, logout as apiLogout } from "../api/auth";
+import { AUTH_CHANGE_EVENT, AUTH_EXPIRED_EVENT, getSession } from "../api/session";
+import { notify } from "../utils/notify";
+
+// Mounted inside the router so an expired login can redirect to /login and
+// come back to the page afterwards
+export default function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState(() => getSession()?.user ?? null);
+  const [checking, setChecking] = useState(() => !!getSession());
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  useEffect(() => {
+    const onChange = () => setUser(getSession()?.user ?? null);
+    window.addEventListener(AUTH_CHANGE_EVENT, onChange);
+    return () => window.removeEventListener(AUTH_CHANGE_EVENT, onChange);
+  }, []);
+
+  // A stored token may have been revoked or the role changed since last visit
+  useEffect(() => {
+    if (!getSession()) return;
+    let cancelled = false;
+    fetchMe().finally(() => {
+      if (!cancelled) setChecking(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const onExpired = () => {
+      if (location.pathname === "/login") return;
+      notify("Phiên đăng nhập đã hết hạn, vui lòng đăng nhập lại", "warning");
+      navigate("/login", { state: { from: location.pathname + location.search } });
+    };
+    window.addEventListener(AUTH_EXPIRED_EVENT, onExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, onExpired);
+  }, [location, navigate]);
+
+  const login = useCallback((username: string, password: string) => apiLogin(username, password), []);
+  const logout = useCallback(() => apiLogout(), []);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ user, isAdmin: user?.role === "admin", checking, login, logout }),
+    [user, checking, login, logout],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
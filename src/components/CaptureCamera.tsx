@@ -1,12 +1,17 @@
-import { useState } from "react";
-import type { Sample as SampleT, SessionStats, MediaPipeLandmark, QualityInfo, CameraInfo } from "../types";
+import { useEffect, useState } from "react";
+import type { Sample as SampleT, SessionStats, CapturedFrame, LandmarkMode, SegmentInfo, QualityInfo, CameraInfo, CameraUploadPayload, ClassRow, GuidedSession, ConsentRecord, OutboxItem } from "../types";
+import { enqueueUpload, sendOutboxItem } from "../api/outbox";
 import { uploadCamera } from "../api/upload";
 import CaptureGuide from "./CaptureGuide";
 import SessionPanel from "./SessionPanel";
 import SessionSummary from "./SessionSumary";
+import OutboxPanel from "./OutboxPanel";
 import FullscreenCaptureModal from "./FullscreenCaptureModal";
+import GuidedSessionSetup from "./GuidedSessionSetup";
 import Button from "./ui/Button";
-import { TARGET_FRAMES, CAPTURE_COUNT } from "../config/capture";
+import { WORKLIST_CHANGE_EVENT, completeWorklistItem, loadWorklist, saveWorklist } from "../utils/coverage";
+import type { WorklistItem } from "../utils/coverage";
+import { useCaptureProfile } from "../hooks/useCaptureProfile";
 
 type Props = {
   onError?: (msg: string) => void;
@@ -15,14 +20,30 @@ type Props = {
 export default function CaptureCamera({ onError }: Props) {
   // Removed frames state - now using only fullscreen capture
   const [label, setLabel] = useState("");
-  const [user] = useState("user1");
   const [showGuide, setShowGuide] = useState(false);
   // Removed preview state - using fullscreen capture only
   const [showFullscreen, setShowFullscreen] = useState(false);
+  // Recording worklist built by the coverage planner on the labels page
+  const [worklist, setWorklist] = useState<WorklistItem[]>(() => loadWorklist());
+  // Guided session in progress; the modal only follows it when opened for it
+  const [guided, setGuided] = useState<GuidedSession | null>(null);
+  const [guidedOpen, setGuidedOpen] = useState(false);
+
+  useEffect(() => {
+    const onChange = () => setWorklist(loadWorklist());
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === 'recordingWorklist') onChange();
+    };
+    window.addEventListener(WORKLIST_CHANGE_EVENT, onChange);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(WORKLIST_CHANGE_EVENT, onChange);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
   
-  // Capture settings are fixed for public uploader — sourced from config
-  const targetFrames = TARGET_FRAMES;
-  const captureCount = CAPTURE_COUNT;
+  // Capture settings come from a named profile chosen for this session
+  const { profiles, profile, selectProfile } = useCaptureProfile();
 
   const [sessionId] = useState(() => Date.now().toString());
   const [sessionStats, setSessionStats] = useState<SessionStats | null>(null);
@@ -61,62 +82,95 @@ export default function CaptureCamera({ onError }: Props) {
     setSamples(prev => prev.filter(s => s.id !== sampleId));
   };
 
-  const handleFullscreenCapture = async (capturedFrames: Array<{
-    left_hand: MediaPipeLandmark[];
-    right_hand: MediaPipeLandmark[];
-  }>, capturedLabel: string, capturedUser: string, meta?: { camera_info?: CameraInfo; quality_info?: QualityInfo; dialect?: string }) => {
+  const startGuided = (classes: ClassRow[], takesPerClass: number) => {
+    setGuided({ classes, index: 0, takes_per_class: takesPerClass, takes: {} });
+    setGuidedOpen(true);
+    setShowFullscreen(true);
+  };
+
+  const resumeGuided = () => {
+    setGuidedOpen(true);
+    setShowFullscreen(true);
+  };
+
+  const handleFullscreenCapture = async (capturedFrames: CapturedFrame[], capturedLabel: string, capturedUser: string, meta?: { camera_info?: CameraInfo; quality_info?: QualityInfo; dialect?: string; landmark_mode?: LandmarkMode; segment?: SegmentInfo; capture_profile?: string; class_uid?: string; signer_id?: string; consent?: ConsentRecord }) => {
     console.log(`Parent received capture: ${capturedLabel} with ${capturedFrames.length} frames`);
+
+    const classUid = meta?.class_uid;
+    if (classUid && guided) {
+      setGuided((g) => g && { ...g, takes: { ...g.takes, [classUid]: (g.takes[classUid] ?? 0) + 1 } });
+      // A class recorded in full no longer needs to stay on the planner's worklist
+      if ((guided.takes[classUid] ?? 0) + 1 >= guided.takes_per_class) completeWorklistItem(classUid);
+    }
     
     // Don't set uploading state to avoid blocking the modal
     try {
       // Prepare data for backend API
-      const payload: {
-        user: string;
-        label: string;
-        session_id: string;
-        dialect?: string;
-        frames: Array<{ timestamp: number; landmarks: {
-          left_hand?: MediaPipeLandmark[];
-          right_hand?: MediaPipeLandmark[];
-        } }>;
-      } = {
+      const payload: CameraUploadPayload = {
         user: capturedUser,
         label: capturedLabel,
         session_id: sessionId,
-        frames: capturedFrames.map((frame, idx) => ({
-          timestamp: idx,
-          landmarks: frame
+        frames: capturedFrames.map(({ timestamp, handedness, source, ...landmarks }) => ({
+          timestamp,
+          landmarks,
+          handedness,
+          source,
         }))
       };
       if (meta?.dialect) payload.dialect = meta.dialect;
+      if (meta?.landmark_mode) payload.landmark_mode = meta.landmark_mode;
+      if (meta?.segment) payload.segment = meta.segment;
+      if (meta?.capture_profile) payload.capture_profile = meta.capture_profile;
+      if (meta?.quality_info) payload.quality_info = meta.quality_info;
+      if (meta?.signer_id) payload.signer_id = meta.signer_id;
+      if (meta?.consent) payload.consent = meta.consent;
+      if (classUid) payload.class_uid = classUid;
+
+      const sampleNumber = sampleCounter;
+      setSampleCounter(prev => prev + 1);
+      const sample: SampleT = {
+        id: sampleNumber,
+        session_id: sessionId,
+        label: capturedLabel,
+        user: capturedUser,
+        frames: capturedFrames.length,
+        uploaded: false,
+      };
+      if (meta?.dialect) sample.dialect = meta.dialect;
+      setSamples(prev => [...prev, sample]);
+      const markSample = (updates: Partial<SampleT>) =>
+        setSamples(prev => prev.map(s => s.id === sampleNumber ? { ...s, ...updates } : s));
+
+      // Persist to the outbox first so the sample survives a network drop or reload.
+      // Without IndexedDB (private mode, quota, blocked storage) send it directly instead.
+      let queued: OutboxItem | undefined;
+      try {
+        queued = await enqueueUpload(payload);
+      } catch (err) {
+        console.warn('Outbox unavailable, uploading directly:', err);
+      }
 
       console.log('Uploading payload to backend...');
       // Call real API in background
-      uploadCamera(payload).then((result) => {
+      (queued ? sendOutboxItem(queued) : uploadCamera(payload)).then((result) => {
         if (result.ok) {
-          const sample: SampleT = {
-            id: sampleCounter,
-            session_id: sessionId,
-            label: capturedLabel,
-            user: capturedUser,
-            frames: capturedFrames.length,
-            uploaded: true,
-            sample_id: result.data.id?.toString(),
-          };
-          if (meta?.dialect) sample.dialect = meta.dialect;
-
-          setSamples(prev => [...prev, sample]);
-          setSampleCounter(prev => prev + 1);
-          
-          console.log(`Sample "${capturedLabel}" (${capturedFrames.length} frames) uploaded successfully! Total samples: ${samples.length + 1}`);
+          markSample({ uploaded: true, upload_error: undefined, sample_id: result.data.id?.toString() });
+          console.log(`Sample "${capturedLabel}" (${capturedFrames.length} frames) uploaded successfully!`);
+        } else if (queued) {
+          console.error('Upload failed, kept in outbox:', result.error);
+          if (onError) {
+            onError(`Chưa gửi được mẫu "${capturedLabel}" (${result.error}). Mẫu đã được lưu vào hàng đợi và sẽ tự gửi lại khi có mạng.`);
+          }
         } else {
-          console.error('Upload failed:', result.error);
+          console.error('Upload failed, outbox unavailable:', result.error);
+          markSample({ upload_error: result.error });
           if (onError) {
-            onError(result.error || 'Upload failed. Please try again.');
+            onError(`Không gửi được mẫu "${capturedLabel}" (${result.error}) và không lưu được vào hàng đợi trên máy này. Hãy thu lại mẫu.`);
           }
         }
       }).catch((error) => {
         console.error('Upload failed:', error);
+        markSample({ upload_error: String(error) });
         if (onError) {
           onError('Upload failed. Please try again.');
         }
@@ -150,11 +204,30 @@ export default function CaptureCamera({ onError }: Props) {
             Mở giao diện chụp toàn màn hình để thu dữ liệu tư thế không bị phân tâm. Tối ưu cho tốc độ và độ chính xác.
           </p>
 
-          {/* Capture settings are fixed for public uploader. Edit src/config/capture.ts to change them. */}
+          {/* Capture profile for this session (loaded from backend / public/capture-profiles.json) */}
+          <div className="max-w-md mx-auto mb-6 text-left">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Hồ sơ chụp</label>
+            <select
+              value={profile.id}
+              onChange={(e) => selectProfile(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {profile.description ? `${profile.description} • ` : ''}
+              {profile.target_frames} khung @ {profile.sample_fps} FPS • {profile.capture_count} lần chụp • đếm ngược {profile.countdown_seconds}s
+            </p>
+          </div>
 
           <div className="flex flex-col sm:flex-row gap-4 justify-center items-center mb-6">
             <Button
-              onClick={() => setShowFullscreen(true)}
+              onClick={() => {
+                setGuidedOpen(false);
+                setShowFullscreen(true);
+              }}
               className="px-8 py-4 text-lg font-semibold min-w-48"
               variant="primary"
             >
@@ -176,13 +249,20 @@ export default function CaptureCamera({ onError }: Props) {
             </Button>
           </div>
 
+          <GuidedSessionSetup
+            worklist={worklist}
+            defaultTakes={profile.capture_count}
+            onStart={startGuided}
+            onClearWorklist={() => saveWorklist([])}
+          />
+
           {/* Quick Features */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-4xl mx-auto text-sm">
             <div className="flex items-center justify-center p-4 bg-green-50 rounded-xl">
               <svg className="w-5 h-5 text-green-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
               </svg>
-              <span className="text-green-800 font-medium">Đếm ngược 3 giây</span>
+              <span className="text-green-800 font-medium">Đếm ngược {profile.countdown_seconds} giây</span>
             </div>
             <div className="flex items-center justify-center p-4 bg-blue-50 rounded-xl">
               <svg className="w-5 h-5 text-blue-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -280,12 +360,15 @@ export default function CaptureCamera({ onError }: Props) {
         </div>
       )}
 
-      {SHOW_ADVANCED && (
+      {(SHOW_ADVANCED || guided) && (
         <SessionPanel
           sessionId={sessionId}
           samples={samples}
           onFinish={handleFinish}
           onDelete={handleDelete}
+          guided={guided}
+          onResumeGuided={resumeGuided}
+          onEndGuided={() => setGuided(null)}
         />
       )}
 
@@ -296,9 +379,11 @@ export default function CaptureCamera({ onError }: Props) {
           onClose={() => setShowFullscreen(false)}
           onSampleCapture={handleFullscreenCapture}
           initialLabel={label}
-          initialUser={user}
-          targetFrames={targetFrames}
-          captureCount={captureCount}
+          profile={profile}
+          sessionClasses={guidedOpen ? guided?.classes : undefined}
+          sessionStartIndex={guided?.index}
+          takesPerClass={guided?.takes_per_class}
+          onSessionIndexChange={(index) => setGuided((g) => g && { ...g, index })}
         />
       )}
 
@@ -312,6 +397,9 @@ export default function CaptureCamera({ onError }: Props) {
         />
       )}
 
+      {/* Offline outbox: queued captures waiting for connectivity */}
+      <OutboxPanel />
+
       {/* Simple collection statistics (always shown for public UI) */}
       <div className="card">
         <div className="flex items-center justify-between mb-3">
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import type { ClassRow } from "../types";
+import { findNearDuplicates, SLUG_PATTERN, slugify } from "../utils/text";
+import { DIALECT_NAMES, normalizeDialect } from "../utils/dialects";
+import Modal from "./ui/Modal";
+import Button from "./ui/Button";
+
+export type ClassFormValues = {
+  label: string;
+  slug: string;
+  dialect: string;
+  is_common_global: boolean;
+  is_common_language: boolean;
+};
+
+interface ClassFormModalProps {
+  // Row being edited; omitted when creating a class
+  initial?: ClassRow;
+  // Existing classes of the current language, used for the duplicate checks
+  classes: ClassRow[];
+  onClose: () => void;
+  onSubmit: (values: ClassFormValues) => void;
+}
+
+const flag = (v: unknown) => v === true || String(v) === "1";
+
+export default function ClassFormModal({ initial, classes, onClose, onSubmit }: ClassFormModalProps) {
+  const editing = !!initial;
+  const [label, setLabel] = useState(initial?.label_original ?? "");
+  const [slug, setSlug] = useState(initial?.slug ?? "");
+  // Until the slug is edited by hand it follows the label
+  const [slugTouched, setSlugTouched] = useState(editing);
+  const [dialect, setDialect] = useState(normalizeDialect(initial?.dialect) || "common");
+  const [isGlobal, setIsGlobal] = useState(flag(initial?.is_common_global));
+  const [isLanguage, setIsLanguage] = useState(flag(initial?.is_common_language));
+  const [submitted, setSubmitted] = useState(false);
+
+  const duplicate = classes.find((c) =>
+    c.class_uid !== initial?.class_uid &&
+    !flag(c.archived) &&
+    c.slug === slug &&
+    normalizeDialect(c.dialect) === dialect);
+
+  // Same sign spelled differently ("Cam on" / "Cảm ơn", one typo): a warning only,
+  // since distinct signs can legitimately have close labels
+  const similar = findNearDuplicates(
+    label,
+    classes.filter((c) =>
+      c.class_uid !== initial?.class_uid &&
+      c.class_uid !== duplicate?.class_uid &&
+      !flag(c.archived) &&
+      normalizeDialect(c.dialect) === dialect),
+    (c) => c.label_original,
+  ).slice(0, 3);
+
+  const errors: string[] = [];
+  if (!label.trim()) errors.push("Nhãn không được để trống.");
+  if (!SLUG_PATTERN.test(slug)) errors.push("Slug chỉ gồm chữ thường không dấu, số và dấu gạch ngang.");
+  if (duplicate) errors.push(`Slug "${slug}" đã được dùng bởi "${duplicate.label_original}".`);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+    if (errors.length > 0) return;
+    onSubmit({ label: label.trim(), slug, dialect, is_common_global: isGlobal, is_common_language: isLanguage });
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={initial ? `Sửa nhãn: ${initial.label_original}` : "Thêm nhãn mới"} size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Nhãn *</label>
+          <input
+            className="input w-full"
+            value={label}
+            autoFocus
+            onChange={(e) => {
+              setLabel(e.target.value);
+              if (!slugTouched) setSlug(slugify(e.target.value));
+            }}
+            placeholder="ví dụ: Cảm ơn"
+          />
+          {similar.length > 0 && (
+            <p className="text-xs text-yellow-700 mt-1">
+              ⚠️ Gần giống nhãn đã có: {similar.map((c) => `"${c.label_original}" (${c.slug})`).join(", ")}. Cân nhắc dùng lại hoặc gộp thay vì tạo mới.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Slug *</label>
+          <input
+            className="input w-full font-mono"
+            value={slug}
+            onChange={(e) => {
+              setSlugTouched(true);
+              setSlug(e.target.value.trim().toLowerCase());
+            }}
+            placeholder="cam-on"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Phương ngữ</label>
+          <select
+            className="input w-full"
+            value={dialect}
+            onChange={(e) => setDialect(e.target.value)}
+            disabled={editing}
+          >
+            {Object.entries(DIALECT_NAMES).map(([value, name]) => (
+              <option key={value} value={value}>{name}</option>
+            ))}
+          </select>
+          {editing && <p className="text-xs text-gray-500 mt-1">Phương ngữ không đổi được sau khi tạo; hãy gộp sang nhãn khác nếu cần.</p>}
+        </div>
+
+        <div className="flex flex-col gap-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={isGlobal} onChange={(e) => setIsGlobal(e.target.checked)} />
+            ⭐ Phổ biến toàn cầu (<code>is_common_global</code>)
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={isLanguage} onChange={(e) => setIsLanguage(e.target.checked)} />
+            Phổ biến trong ngôn ngữ (<code>is_common_language</code>)
+          </label>
+        </div>
+
+        {(submitted || duplicate) && errors.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc pl-5">
+            {errors.map((err) => <li key={err}>{err}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="secondary" size="sm" onClick={onClose}>Hủy</Button>
+          <Button type="submit" size="sm" disabled={submitted && errors.length > 0}>
+            {editing ? "Lưu thay đổi" : "Thêm nhãn"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,241 @@
+import { useMemo, useState } from "react";
+import type { ClassRow } from "../types";
+import { getClassesList, registerClass, updateClass } from "../api/dataset";
+import { diffClassImport, parseClassImport } from "../utils/classImport";
+import type { ImportDiffRow, ImportParseError, ImportStatus } from "../utils/classImport";
+import { DIALECT_NAMES } from "../utils/dialects";
+import Modal from "./ui/Modal";
+import Button from "./ui/Button";
+import Badge from "./ui/Badge";
+
+interface ClassImportWizardProps {
+  language: string;
+  onClose: () => void;
+  // Called after changes were applied so the page can reload the list
+  onApplied: () => void;
+}
+
+type ApplyResult = { line: number; label: string; action: "create" | "update"; ok: boolean; message: string };
+
+const STATUS_META: Record<ImportStatus, { text: string; variant: "success" | "info" | "default" | "danger" | "warning" }> = {
+  new: { text: "Mới", variant: "success" },
+  changed: { text: "Thay đổi", variant: "info" },
+  unchanged: { text: "Không đổi", variant: "default" },
+  conflict: { text: "Xung đột slug", variant: "danger" },
+  duplicate: { text: "Trùng lặp", variant: "warning" },
+  invalid: { text: "Không hợp lệ", variant: "danger" },
+};
+
+export default function ClassImportWizard({ language, onClose, onApplied }: ClassImportWizardProps) {
+  const [step, setStep] = useState<"select" | "review" | "report">("select");
+  const [filename, setFilename] = useState("");
+  const [parseErrors, setParseErrors] = useState<ImportParseError[]>([]);
+  const [diff, setDiff] = useState<ImportDiffRow[]>([]);
+  const [filter, setFilter] = useState<ImportStatus | "all">("all");
+  const [includeChanged, setIncludeChanged] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<ApplyResult[]>([]);
+
+  const counts = useMemo(() => {
+    const out: Partial<Record<ImportStatus, number>> = {};
+    for (const d of diff) out[d.status] = (out[d.status] ?? 0) + 1;
+    return out;
+  }, [diff]);
+
+  const toApply = diff.filter((d) => d.status === "new" || (includeChanged && d.status === "changed"));
+  const visible = filter === "all" ? diff : diff.filter((d) => d.status === filter);
+
+  const loadFile = async (file: File) => {
+    setBusy(true);
+    setError(null);
+    setFilename(file.name);
+    try {
+      const { rows, errors } = parseClassImport(file.name, await file.text(), { language });
+      setParseErrors(errors);
+      if (rows.length === 0) {
+        setError(errors[0]?.message ?? "Tệp không có dòng nào");
+        return;
+      }
+      // Dry run against the current classes of every language in the file
+      const languages = Array.from(new Set(rows.map((r) => r.language)));
+      const existing: ClassRow[] = [];
+      for (const lang of languages) {
+        const res = await getClassesList(lang);
+        if (!res.ok) {
+          setError(`Không tải được danh sách nhãn (${lang}): ${res.error}`);
+          return;
+        }
+        existing.push(...res.data.items.map((c) => ({ ...c, language: c.language || lang })));
+      }
+      setDiff(diffClassImport(rows, existing));
+      setStep("review");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const apply = async () => {
+    setBusy(true);
+    setProgress(0);
+    const out: ApplyResult[] = [];
+    // Sequential so the backend assigns class_idx in file order
+    for (const d of toApply) {
+      const { row } = d;
+      const res = d.status === "changed" && d.existing
+        ? await updateClass(d.existing.class_uid, {
+          label_original: row.label,
+          is_common_global: row.is_common_global,
+          is_common_language: row.is_common_language,
+        })
+        : await registerClass({
+          label: row.label,
+          slug: row.slug,
+          language: row.language,
+          dialect: row.dialect,
+          is_common_global: row.is_common_global,
+          is_common_language: row.is_common_language,
+        });
+      out.push({
+        line: row.line,
+        label: row.label,
+        action: d.status === "changed" ? "update" : "create",
+        ok: res.ok,
+        message: res.ok ? res.data.class_uid : res.error,
+      });
+      setProgress(out.length);
+    }
+    setResults(out);
+    setBusy(false);
+    setStep("report");
+    if (out.some((r) => r.ok)) onApplied();
+  };
+
+  return (
+    <Modal isOpen onClose={busy ? () => {} : onClose} title="Nhập nhãn từ CSV / JSON" size="xl">
+      {step === "select" && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            CSV cần dòng tiêu đề có cột <code>label_original</code> (hoặc <code>label</code>); các cột <code>slug</code>, <code>language</code>,{" "}
+            <code>dialect</code>, <code>is_common_global</code>, <code>is_common_language</code> là tùy chọn. JSON là mảng nhãn như tệp xuất từ trang này.
+            Slug trống sẽ được tạo từ nhãn.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void loadFile(file);
+            }}
+          />
+          {busy && <p className="text-sm text-gray-500">Đang đọc và so sánh...</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      {step === "review" && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-600">{filename}:</span>
+            <button type="button" onClick={() => setFilter("all")} className={filter === "all" ? "font-semibold underline" : ""}>
+              Tất cả ({diff.length})
+            </button>
+            {(Object.keys(STATUS_META) as ImportStatus[]).filter((s) => counts[s]).map((s) => (
+              <button key={s} type="button" onClick={() => setFilter(s)}>
+                <Badge variant={STATUS_META[s].variant} size="sm" className={filter === s ? "ring-2 ring-indigo-400" : ""}>
+                  {STATUS_META[s].text}: {counts[s]}
+                </Badge>
+              </button>
+            ))}
+          </div>
+          {parseErrors.length > 0 && (
+            <ul className="text-xs text-red-600 list-disc pl-5">
+              {parseErrors.map((e) => <li key={e.line}>Dòng {e.line}: {e.message}</li>)}
+            </ul>
+          )}
+
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-2 px-3">Dòng</th>
+                  <th className="py-2 px-3">Nhãn</th>
+                  <th className="py-2 px-3">Slug</th>
+                  <th className="py-2 px-3">Phương ngữ</th>
+                  <th className="py-2 px-3">Kết quả</th>
+                  <th className="py-2 px-3">Chi tiết</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((d) => (
+                  <tr key={d.row.line} className="border-t border-gray-100">
+                    <td className="py-2 px-3 text-gray-500">{d.row.line}</td>
+                    <td className="py-2 px-3 text-gray-900">{d.row.label || "—"}</td>
+                    <td className="py-2 px-3 font-mono text-xs">{d.row.slug}</td>
+                    <td className="py-2 px-3 text-gray-600">{DIALECT_NAMES[d.row.dialect] ?? d.row.dialect}</td>
+                    <td className="py-2 px-3"><Badge variant={STATUS_META[d.status].variant} size="sm">{STATUS_META[d.status].text}</Badge></td>
+                    <td className="py-2 px-3 text-xs text-gray-600">{d.changes?.join("; ") ?? d.message ?? ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={includeChanged} onChange={(e) => setIncludeChanged(e.target.checked)} disabled={!counts.changed} />
+              Cập nhật cả {counts.changed ?? 0} nhãn đã thay đổi
+            </label>
+            <div className="flex items-center gap-2">
+              {busy && <span className="text-sm text-gray-500">{progress}/{toApply.length}</span>}
+              <Button variant="secondary" size="sm" onClick={() => setStep("select")} disabled={busy}>Chọn tệp khác</Button>
+              <Button size="sm" onClick={apply} loading={busy} disabled={busy || toApply.length === 0}>
+                Áp dụng {toApply.length} thay đổi
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === "report" && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Thành công {results.filter((r) => r.ok).length} / {results.length}.
+            {results.some((r) => !r.ok) && " Các dòng lỗi có thể sửa trong tệp và nhập lại; các dòng đã tạo sẽ hiện là “Không đổi”."}
+          </p>
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-2 px-3">Dòng</th>
+                  <th className="py-2 px-3">Nhãn</th>
+                  <th className="py-2 px-3">Thao tác</th>
+                  <th className="py-2 px-3">Kết quả</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((r) => (
+                  <tr key={r.line} className="border-t border-gray-100">
+                    <td className="py-2 px-3 text-gray-500">{r.line}</td>
+                    <td className="py-2 px-3 text-gray-900">{r.label}</td>
+                    <td className="py-2 px-3 text-gray-600">{r.action === "create" ? "Tạo mới" : "Cập nhật"}</td>
+                    <td className={`py-2 px-3 text-xs ${r.ok ? "text-green-700" : "text-red-600"}`}>
+                      {r.ok ? `✓ ${r.message}` : `✕ ${r.message}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end">
+            <Button size="sm" onClick={onClose}>Đóng</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,167 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Button from "./ui/Button";
+import Badge from "./ui/Badge";
+import {
+  buildWorklist,
+  loadCoverageTargets,
+  rankByDeficit,
+  saveCoverageTargets,
+  saveWorklist,
+} from "../utils/coverage";
+import type { CoverageInput, CoverageTargets } from "../utils/coverage";
+
+type Props = {
+  rows: CoverageInput[];
+  // Display names for normalized dialect slugs
+  dialectNames?: Record<string, string>;
+};
+
+const VISIBLE_ROWS = 15;
+
+export default function CoveragePlanner({ rows, dialectNames = {} }: Props) {
+  const navigate = useNavigate();
+  const [targets, setTargets] = useState<CoverageTargets>(() => loadCoverageTargets());
+  const [worklistSize, setWorklistSize] = useState(10);
+  const [showAll, setShowAll] = useState(false);
+
+  const dialects = useMemo(
+    () => Array.from(new Set(rows.map((r) => r.dialect).filter((d): d is string => !!d))).sort(),
+    [rows],
+  );
+  const ranked = useMemo(() => rankByDeficit(rows, targets), [rows, targets]);
+  const reached = ranked.filter((r) => r.deficit === 0).length;
+  const totalDeficit = ranked.reduce((sum, r) => sum + r.deficit, 0);
+  const visible = showAll ? ranked : ranked.slice(0, VISIBLE_ROWS);
+
+  const updateTargets = (next: CoverageTargets) => {
+    setTargets(next);
+    saveCoverageTargets(next);
+  };
+
+  const setDialectTarget = (dialect: string, value: string) => {
+    const byDialect = { ...targets.byDialect };
+    const n = Math.floor(Number(value));
+    // Empty or invalid input falls back to the global target
+    if (Number.isFinite(n) && n > 0) byDialect[dialect] = n;
+    else delete byDialect[dialect];
+    updateTargets({ ...targets, byDialect });
+  };
+
+  const startWorklist = () => {
+    const items = buildWorklist(ranked, worklistSize);
+    if (items.length === 0) return;
+    saveWorklist(items);
+    navigate("/upload");
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center">
+          🎯 Kế hoạch thu thập
+          <Badge variant={totalDeficit === 0 ? "success" : "warning"} className="ml-3">
+            {reached}/{ranked.length} đạt mục tiêu
+          </Badge>
+        </h2>
+        <div className="text-sm text-gray-600">
+          Còn thiếu <span className="font-semibold text-gray-900">{totalDeficit}</span> mẫu
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Mục tiêu chung (mẫu/nhãn)</label>
+          <input
+            type="number"
+            min={1}
+            className="input w-32 text-sm"
+            value={targets.global}
+            onChange={(e) => {
+              const n = Math.floor(Number(e.target.value));
+              if (Number.isFinite(n) && n > 0) updateTargets({ ...targets, global: n });
+            }}
+          />
+        </div>
+        {dialects.map((d) => (
+          <div key={d}>
+            <label className="block text-xs font-medium text-gray-600 mb-1">{dialectNames[d] ?? d}</label>
+            <input
+              type="number"
+              min={1}
+              className="input w-28 text-sm"
+              placeholder={String(targets.global)}
+              value={targets.byDialect[d] ?? ""}
+              onChange={(e) => setDialectTarget(d, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {ranked.length === 0 ? (
+        <p className="text-sm text-gray-500">Chưa có nhãn nào để lập kế hoạch.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4">Nhãn</th>
+                <th className="py-2 pr-4">Phương ngữ</th>
+                <th className="py-2 pr-4 w-1/3">Tiến độ</th>
+                <th className="py-2 pr-4 text-right">Mẫu</th>
+                <th className="py-2 text-right">Còn thiếu</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((r) => (
+                <tr key={r.class_uid} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{r.label}</td>
+                  <td className="py-2 pr-4 text-gray-600">{r.dialect ? dialectNames[r.dialect] ?? r.dialect : "—"}</td>
+                  <td className="py-2 pr-4">
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${r.deficit === 0 ? "bg-green-500" : r.percent < 50 ? "bg-red-500" : "bg-yellow-500"}`}
+                        style={{ width: `${r.percent}%` }}
+                      />
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-700">{r.count}/{r.target}</td>
+                  <td className="py-2 text-right">
+                    {r.deficit === 0 ? (
+                      <Badge variant="success" size="sm">Đủ</Badge>
+                    ) : (
+                      <span className="font-semibold text-red-600">{r.deficit}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {ranked.length > VISIBLE_ROWS && (
+            <button
+              type="button"
+              onClick={() => setShowAll((v) => !v)}
+              className="mt-2 text-xs text-indigo-600 hover:underline"
+            >
+              {showAll ? "Thu gọn" : `Xem tất cả ${ranked.length} nhãn`}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3 mt-4 pt-4 border-t border-gray-200">
+        <label className="text-sm text-gray-600">Số nhãn trong danh sách</label>
+        <input
+          type="number"
+          min={1}
+          className="input w-20 text-sm"
+          value={worklistSize}
+          onChange={(e) => setWorklistSize(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+        />
+        <Button size="sm" onClick={startWorklist} disabled={totalDeficit === 0}>
+          📋 Tạo danh sách ghi
+        </Button>
+      </div>
+    </div>
+  );
+}
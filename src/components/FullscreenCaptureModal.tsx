@@ -1,18 +1,34 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import { Hands, HAND_CONNECTIONS } from "@mediapipe/hands";
+import { Holistic, POSE_CONNECTIONS, FACEMESH_CONTOURS } from "@mediapipe/holistic";
 import { Camera } from "@mediapipe/camera_utils";
 import * as drawing from "@mediapipe/drawing_utils";
 import Button from "./ui/Button";
 import Badge from "./ui/Badge";
-import type { MediaPipeLandmark, CameraInfo, QualityInfo } from "../types";
+import type { MediaPipeLandmark, CameraInfo, QualityInfo, CapturedFrame, LandmarkMode, LandmarkSource, SegmentInfo, CaptureProfile, ClassRow, ReferenceMedia, ConsentRecord, SignerProfile } from "../types";
 import { OneEuroFilter } from "../utils/oneEuro";
-import { TARGET_FRAMES, CAPTURE_COUNT, FRAME_INTERVAL_MS } from "../config/capture";
+import { segmentTake, motionEnergy } from "../utils/segment";
+import { computeQuality, qualityVariant } from "../utils/quality";
+import {
+  DEFAULT_CAPTURE_PROFILE,
+  getFrameIntervalMs,
+  getRecordFrames,
+  DEFAULT_LANDMARK_MODE,
+  LANDMARK_MODES,
+  HANDS_FREE_START_FRAMES,
+  HANDS_FREE_LEAVE_FRAMES,
+  HANDS_FREE_REST_FRAMES,
+  HANDS_FREE_REST_ENERGY,
+  HANDS_FREE_MIN_FRAMES,
+} from "../config/capture";
 import SpeechInputButton from "./SpeechInputButton";
-
-// Use module-scope fixed constants so they are stable across renders and
-// won't need to be added to hook dependency arrays.
-const FIXED_TARGET_FRAMES = TARGET_FRAMES;
-const FIXED_CAPTURE_COUNT = CAPTURE_COUNT;
+import PreviewModal from "./PreviewModal";
+import ReferencePip from "./ReferencePip";
+import LabelCombobox from "./LabelCombobox";
+import { DIALECT_NAMES, normalizeDialect } from "../utils/dialects";
+import SignerPicker from "./SignerPicker";
+import { currentConsent } from "../api/signers";
+import { classReference, getClassReference } from "../api/references";
 
 const parseBoolEnv = (value: unknown, fallback: boolean) => {
   if (typeof value !== 'string') return fallback;
@@ -31,14 +47,15 @@ const SWAP_HANDEDNESS = parseBoolEnv(import.meta.env.VITE_SWAP_HANDEDNESS, false
 interface FullscreenCaptureModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSampleCapture: (frames: Array<{
-    left_hand: MediaPipeLandmark[];
-    right_hand: MediaPipeLandmark[];
-  }>, label: string, user: string, meta?: { camera_info?: CameraInfo; quality_info?: QualityInfo; dialect?: string }) => void;
+  onSampleCapture: (frames: CapturedFrame[], label: string, user: string, meta?: { camera_info?: CameraInfo; quality_info?: QualityInfo; dialect?: string; landmark_mode?: LandmarkMode; segment?: SegmentInfo; capture_profile?: string; class_uid?: string; signer_id?: string; consent?: ConsentRecord }) => void;
   initialLabel?: string;
-  initialUser?: string;
-  targetFrames?: number;
-  captureCount?: number;
+  // Capture settings for this session; defaults to the built-in standard profile
+  profile?: CaptureProfile;
+  // Guided session: classes recorded in order, advancing after `takesPerClass` takes
+  sessionClasses?: ClassRow[];
+  sessionStartIndex?: number;
+  takesPerClass?: number;
+  onSessionIndexChange?: (index: number) => void;
 }
 
 export default function FullscreenCaptureModal({ 
@@ -46,27 +63,60 @@ export default function FullscreenCaptureModal({
   onClose, 
   onSampleCapture,
   initialLabel = "",
-  initialUser = "",
-  targetFrames = 60,
-  captureCount = 1
+  profile = DEFAULT_CAPTURE_PROFILE,
+  sessionClasses,
+  sessionStartIndex = 0,
+  takesPerClass,
+  onSessionIndexChange
 }: FullscreenCaptureModalProps) {
+  // The session list is fixed for the lifetime of the modal so parent updates
+  // do not shift the current position
+  const [queue] = useState<ClassRow[]>(() => sessionClasses ?? []);
+  const [queueIndex, setQueueIndex] = useState(() => Math.min(Math.max(0, sessionStartIndex), queue.length));
+  const currentClass = queue[queueIndex];
+  const targetFrames = profile.target_frames;
+  const captureCount = queue.length > 0 && takesPerClass ? takesPerClass : profile.capture_count;
+  const recordFrames = getRecordFrames(profile);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const cameraRef = useRef<Camera | null>(null);
   const rootRef = useRef<HTMLDivElement | null>(null);
   
   const [recording, setRecording] = useState(false);
-  const [frames, setFrames] = useState<Array<{
-    left_hand: MediaPipeLandmark[];
-    right_hand: MediaPipeLandmark[];
-  }>>([]);
-  const [label, setLabel] = useState(initialLabel);
-  const [user, setUser] = useState(initialUser);
+  const [frames, setFrames] = useState<CapturedFrame[]>([]);
+  const [label, setLabel] = useState(() => currentClass?.label_original ?? initialLabel);
+  // Registered class the typed label resolves to (session classes carry their own)
+  const [labelClass, setLabelClass] = useState<ClassRow | null>(null);
+  const labelClassUid = labelClass?.class_uid;
+  // Demonstration for the session class in guided mode, otherwise for the
+  // class the typed label resolved to (row field, else fetched)
+  const [reference, setReference] = useState<{ class_uid: string; media: ReferenceMedia } | null>(null);
+  const referenceClass = currentClass ?? labelClass;
+  // Chosen at session start; nothing is recorded until they accept the current consent form
+  const [signer, setSigner] = useState<SignerProfile | null>(null);
+  const consent = currentConsent(signer);
+  const user = signer && consent ? signer.display_name : "";
   const [dialect, setDialect] = useState<string>("Bắc");
   const [dialectList, setDialectList] = useState<string[]>(["Bắc", "Trung", "Nam", "Cần Thơ"]);
+  // Guided sessions record into the class's own dialect; the picker is locked to it
+  const classDialect = currentClass?.dialect
+    ? dialectList.find((d) => normalizeDialect(d) === normalizeDialect(currentClass.dialect)) ??
+      DIALECT_NAMES[normalizeDialect(currentClass.dialect)] ??
+      currentClass.dialect
+    : undefined;
+  const activeDialect = classDialect ?? dialect;
   const [countdown, setCountdown] = useState(0);
   const [isReady, setIsReady] = useState(false);
   const [paused, setPaused] = useState(false);
+  const [landmarkMode, setLandmarkMode] = useState<LandmarkMode>(() => {
+    try {
+      const stored = localStorage.getItem('landmarkMode');
+      if (LANDMARK_MODES.some((m) => m.value === stored)) return stored as LandmarkMode;
+    } catch {
+      // ignore
+    }
+    return DEFAULT_LANDMARK_MODE;
+  });
   
   // New state for capture management
   const [currentCaptureIndex, setCurrentCaptureIndex] = useState(0);
@@ -77,109 +127,84 @@ export default function FullscreenCaptureModal({
   const [mode, setMode] = useState<'IDLE' | 'COUNTDOWN' | 'RECORD'>('IDLE');
   // Track whether hands are currently visible to gate frame capture
   const [handsVisible, setHandsVisible] = useState(false);
-  // Quick suggestions for signer name (shared across pages via localStorage)
-  const [recentUsers, setRecentUsers] = useState<string[]>(() => {
+  // Optional review step after each take (persisted per browser)
+  const [reviewEnabled, setReviewEnabled] = useState(() => {
     try {
-      const raw = localStorage.getItem('recentSigners');
-      const parsed = raw ? JSON.parse(raw) : [];
-      if (Array.isArray(parsed)) {
-        return parsed.filter((x) => typeof x === 'string').slice(0, 5);
-      }
+      return localStorage.getItem('reviewBeforeUpload') === '1';
     } catch {
-      // ignore
+      return false;
     }
-    return [];
   });
-  
+  // Hands-free mode: gestures drive IDLE -> COUNTDOWN -> RECORD instead of keys
+  const [handsFree, setHandsFree] = useState(() => {
+    try {
+      return localStorage.getItem('handsFreeCapture') === '1';
+    } catch {
+      return false;
+    }
+  });
+  // Armed once hands have left the frame; a new take can then be triggered
+  const [handsFreeArmed, setHandsFreeArmed] = useState(false);
+  const [pendingReview, setPendingReview] = useState<{ frames: CapturedFrame[]; quality: QualityInfo; segment: SegmentInfo } | null>(null);
+  // Quality of the last committed take, shown briefly so the signer can redo a poor one
+  const [takeQuality, setTakeQuality] = useState<QualityInfo | null>(null);
+
   // Refs to prevent stale closures
   const recordingRef = useRef(false);
   const pausedRef = useRef(false);
-  const framesRef = useRef<Array<{
-    left_hand: MediaPipeLandmark[];
-    right_hand: MediaPipeLandmark[];
-  }>>([]);
+  const framesRef = useRef<CapturedFrame[]>([]);
   const modeRef = useRef<typeof mode>(mode);
-  const rememberUser = useCallback((name: string) => {
-    const trimmed = name.trim();
-    if (!trimmed) return;
-    setRecentUsers((prev) => {
-      const next = [trimmed, ...prev.filter((x) => x !== trimmed)].slice(0, 5);
-      try {
-        localStorage.setItem('recentSigners', JSON.stringify(next));
-      } catch {
-        // ignore
-      }
-      return next;
-    });
-  }, []);
+  const landmarkModeRef = useRef<LandmarkMode>(landmarkMode);
+  const reviewEnabledRef = useRef(reviewEnabled);
+  const handsFreeRef = useRef(handsFree);
+  const handsFreeArmedRef = useRef(false);
+  // Streak counters for the hands-free trigger (see HANDS_FREE_* in config)
+  const bothHandsStreakRef = useRef(0);
+  const handsAbsentStreakRef = useRef(0);
+  const stillStreakRef = useRef(0);
+  const takeMovedRef = useRef(false);
+  const pendingReviewRef = useRef<typeof pendingReview>(null);
   
   // Add frame interval control for better training data. Use centralized config.
   const lastFrameTimeRef = useRef(0);
-  // Default sampling rate is defined in `src/config/capture.ts` as SAMPLE_FPS
-  // FRAME_INTERVAL_MS is computed there (Math.round(1000 / SAMPLE_FPS)).
-  const frameIntervalMs = useRef(FRAME_INTERVAL_MS);
-
-  // Helper to compute lightweight quality metrics for a captured frameset
-  const computeQuality = useCallback((capturedFrames: Array<{
-    left_hand: MediaPipeLandmark[];
-    right_hand: MediaPipeLandmark[];
-  }>) => {
-    let totalHandLandmarks = 0;
-    let framesWithHands = 0;
-    let framesAccepted = 0;
-    let confidenceSum = 0;
-    let confidenceCount = 0;
-
-    for (const f of capturedFrames) {
-      const leftCount = (f.left_hand || []).length;
-      const rightCount = (f.right_hand || []).length;
-      const handCount = leftCount + rightCount;
-      totalHandLandmarks += handCount;
-      const hasHands = handCount > 0;
-      if (hasHands) framesWithHands++;
-
-      // approximate confidence if landmark has visibility field
-      const landmarks = [...(f.left_hand || []), ...(f.right_hand || [])];
-      let frameConfSum = 0;
-      let frameConfCnt = 0;
-      for (const lm of landmarks) {
-        if (typeof lm.visibility === 'number') {
-          frameConfSum += lm.visibility;
-          frameConfCnt++;
-        }
-      }
-      if (frameConfCnt > 0) {
-        confidenceSum += frameConfSum;
-        confidenceCount += frameConfCnt;
-      }
+  // performance.now() of the first stored frame of the current take; frame
+  // timestamps are relative to it so pauses and dropped frames stay visible.
+  const takeStartRef = useRef(0);
+  // Sampling interval comes from the active capture profile (sample_fps)
+  const frameIntervalMs = useRef(getFrameIntervalMs(profile));
+  const profileRef = useRef(profile);
 
-      // Acceptance: require at least one hand landmark
-      if (handCount > 0) framesAccepted++;
-    }
-
-    const quality: QualityInfo = {
-      framesCollected: capturedFrames.length,
-      framesAccepted,
-  avgPoseLandmarksPerFrame: capturedFrames.length ? totalHandLandmarks / capturedFrames.length : 0,
-      percentFramesWithHands: capturedFrames.length ? (framesWithHands / capturedFrames.length) * 100 : 0,
-      confidenceSummary: confidenceCount ? { avg: confidenceSum / confidenceCount } : undefined,
-    };
-
-    return quality;
-  // FIXED_CAPTURE_COUNT and FIXED_TARGET_FRAMES are stable module constants; disable exhaustive-deps warning
-  // FIXED_CAPTURE_COUNT and FIXED_TARGET_FRAMES are module-level constants and do not change at runtime.
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  useEffect(() => {
+    if (!takeQuality) return;
+    const timer = setTimeout(() => setTakeQuality(null), 5000);
+    return () => clearTimeout(timer);
+  }, [takeQuality]);
 
   // keep modeRef in sync for render loop access
   useEffect(() => {
     modeRef.current = mode;
   }, [mode]);
+
+  useEffect(() => {
+    landmarkModeRef.current = landmarkMode;
+  }, [landmarkMode]);
+
+  useEffect(() => {
+    reviewEnabledRef.current = reviewEnabled;
+  }, [reviewEnabled]);
+
+  useEffect(() => {
+    handsFreeRef.current = handsFree;
+    // Require hands to leave the frame before the first hands-free take
+    handsFreeArmedRef.current = false;
+    setHandsFreeArmed(false);
+  }, [handsFree]);
   
   // Add canvas rendering optimization
   const pendingRenderRef = useRef(false);
   const renderDataRef = useRef<{
     poseLandmarks?: MediaPipeLandmark[];
+    faceLandmarks?: MediaPipeLandmark[];
     leftHandLandmarks?: MediaPipeLandmark[];
     rightHandLandmarks?: MediaPipeLandmark[];
     image?: HTMLImageElement | HTMLVideoElement;
@@ -188,16 +213,13 @@ export default function FullscreenCaptureModal({
   // Filters for smoothing landmarks (keyed by group.index.coord)
   const filtersRef = useRef<Record<string, OneEuroFilter>>({});
 
-  // Fixed filter parameters for simplified public uploader
-  const filterMinCutoff = 1.0; // higher = more responsive, less smoothing
-  const filterBeta = 0.01; // higher = more adaptive to speed
-  // Render smoothing (lerp) - higher = more immediate (0.0 very smooth, 1.0 raw)
-  const renderAlpha = 0.85;
-
+  // Filter and render smoothing parameters come from the capture profile
+  // (filter_min_cutoff, filter_beta, render_alpha); filters are rebuilt when it changes.
   const getFilter = useCallback((key: string) => {
     if (!filtersRef.current[key]) {
       // create using live params
-      filtersRef.current[key] = new OneEuroFilter(30, filterMinCutoff, filterBeta, 1.0);
+      const { filter_min_cutoff, filter_beta } = profileRef.current;
+      filtersRef.current[key] = new OneEuroFilter(30, filter_min_cutoff, filter_beta, 1.0);
     }
     return filtersRef.current[key];
   }, []);
@@ -236,7 +258,7 @@ export default function FullscreenCaptureModal({
   const getRenderLandmarks = useCallback((raw: MediaPipeLandmark[] | undefined, group = 'pose') => {
     if (!raw) return [] as MediaPipeLandmark[];
     const prev = renderPrevRef.current;
-    const alpha = Math.max(0, Math.min(1, renderAlpha));
+    const alpha = Math.max(0, Math.min(1, profileRef.current.render_alpha));
     return raw.map((lm, idx) => {
       const key = `${group}.${idx}`;
       const prevLm = prev[key];
@@ -257,7 +279,7 @@ export default function FullscreenCaptureModal({
       prev[key] = out;
       return out;
     });
-  }, [renderAlpha]);
+  }, []);
 
   // Optimized rendering function
   const renderLandmarks = useCallback(() => {
@@ -286,6 +308,25 @@ export default function FullscreenCaptureModal({
     }
 
     // Draw landmarks with simplified styling for better performance
+    if (data.faceLandmarks && data.faceLandmarks.length > 0) {
+      // Contours only - the full tesselation is too busy to be useful as feedback
+      drawing.drawConnectors(ctx, data.faceLandmarks, FACEMESH_CONTOURS, {
+        color: "#E0E0E0",
+        lineWidth: 1
+      });
+    }
+
+    if (data.poseLandmarks && data.poseLandmarks.length > 0) {
+      drawing.drawConnectors(ctx, data.poseLandmarks, POSE_CONNECTIONS, {
+        color: "#00FF88",
+        lineWidth: 2
+      });
+      drawing.drawLandmarks(ctx, data.poseLandmarks, {
+        color: "#00FF88",
+        radius: 3
+      });
+    }
+
     if (data.leftHandLandmarks) {
       // @ts-expect-error - HAND_CONNECTIONS types from mediapipe are not available in this project
       drawing.drawConnectors(ctx, data.leftHandLandmarks, HAND_CONNECTIONS, {
@@ -318,9 +359,11 @@ export default function FullscreenCaptureModal({
       const vis = visibilityStateRef.current;
       const lines = [
         `MODE: ${modeRef.current}`,
+        `LANDMARKS: ${landmarkModeRef.current}`,
         `HANDS: ${((data.leftHandLandmarks?.length ?? 0) > 0 ? 1 : 0) + ((data.rightHandLandmarks?.length ?? 0) > 0 ? 1 : 0)}`,
         `FRAMES: ${framesRef.current.length}/${targetFramesRef.current}`,
         `VIS: L=${vis.left ? 'ON' : 'OFF'} R=${vis.right ? 'ON' : 'OFF'}`,
+        `AUTO: ${handsFreeRef.current ? (handsFreeArmedRef.current ? 'ARMED' : 'WAIT') : 'OFF'}`,
         `FLAGS: MIRROR=${MIRROR_PREVIEW ? 'ON' : 'OFF'} SWAP=${SWAP_HANDEDNESS ? 'ON' : 'OFF'}`
       ];
       ctx.save();
@@ -363,13 +406,18 @@ export default function FullscreenCaptureModal({
     pendingRenderRef.current = false;
   }, []);
   const labelRef = useRef(label);
+  const labelClassUidRef = useRef(labelClassUid);
   const userRef = useRef(user);
-  const dialectRef = useRef(dialect);
-  const targetFramesRef = useRef(targetFrames);
+  const signerRef = useRef<{ signer_id: string; consent: ConsentRecord } | null>(null);
+  const dialectRef = useRef(activeDialect);
+  // Recorded frames per take (before segmentation) and takes per sequence
+  const targetFramesRef = useRef(recordFrames);
   const captureCountRef = useRef(captureCount);
   const onSampleCaptureRef = useRef(onSampleCapture);
   const handleCloseRef = useRef<() => void>(() => {});
   const completedCapturesRef = useRef(0);
+  const queueIndexRef = useRef(queueIndex);
+  const onSessionIndexChangeRef = useRef(onSessionIndexChange);
 
   const handleClose = useCallback(() => {
     // If recording or there are partial frames, confirm before closing
@@ -378,6 +426,12 @@ export default function FullscreenCaptureModal({
       const ok = window.confirm(`Capture chưa hoàn tất (${partialFrames}/${targetFramesRef.current}) — bạn có muốn thoát và bỏ dữ liệu này không?`);
       if (!ok) return;
     }
+    if (pendingReviewRef.current) {
+      const ok = window.confirm('Mẫu vừa quay chưa được lưu — bạn có muốn thoát và bỏ mẫu này không?');
+      if (!ok) return;
+      pendingReviewRef.current = null;
+      setPendingReview(null);
+    }
 
   setRecording(false);
   setMode('IDLE');
@@ -467,34 +521,60 @@ export default function FullscreenCaptureModal({
   }, [label]);
 
   useEffect(() => {
-    dialectRef.current = dialect;
-  }, [dialect]);
+    labelClassUidRef.current = labelClassUid;
+  }, [labelClassUid]);
 
   useEffect(() => {
-    userRef.current = user;
-  }, [user]);
+    dialectRef.current = activeDialect;
+  }, [activeDialect]);
 
   useEffect(() => {
-    console.log('Component mounted with props:', { targetFrames, captureCount, initialLabel, initialUser });
-    console.log('Initial targetFramesRef.current:', targetFramesRef.current);
-  }, [targetFrames, captureCount, initialLabel, initialUser]);
+    userRef.current = user;
+    signerRef.current = signer && consent ? { signer_id: signer.signer_id, consent } : null;
+  }, [user, signer, consent]);
 
   useEffect(() => {
-    // Enforce fixed target frames for simplified UI
-    targetFramesRef.current = FIXED_TARGET_FRAMES;
-    console.log('targetFramesRef enforced to fixed value:', targetFramesRef.current);
-  }, [targetFrames]);
+    console.log('Component mounted with props:', { profile: profile.id, initialLabel });
+  }, [profile.id, initialLabel]);
 
   useEffect(() => {
-    // Enforce fixed capture count for simplified UI
-    captureCountRef.current = FIXED_CAPTURE_COUNT;
-    console.log('captureCountRef enforced to fixed value:', captureCountRef.current);
-  }, [captureCount]);
+    profileRef.current = profile;
+    targetFramesRef.current = getRecordFrames(profile);
+    captureCountRef.current = captureCount;
+    frameIntervalMs.current = getFrameIntervalMs(profile);
+    // Rebuild smoothing filters with the new parameters
+    filtersRef.current = {};
+    console.log('Capture profile applied:', profile.id, {
+      recordFrames: targetFramesRef.current,
+      captureCount: captureCountRef.current,
+      frameIntervalMs: frameIntervalMs.current,
+    });
+  }, [profile, captureCount]);
 
   useEffect(() => {
     onSampleCaptureRef.current = onSampleCapture;
   }, [onSampleCapture]);
 
+  useEffect(() => {
+    onSessionIndexChangeRef.current = onSessionIndexChange;
+  }, [onSessionIndexChange]);
+
+  useEffect(() => {
+    if (!referenceClass) return;
+    const inline = classReference(referenceClass);
+    if (inline) {
+      setReference({ class_uid: referenceClass.class_uid, media: inline });
+      return;
+    }
+    const controller = new AbortController();
+    getClassReference(referenceClass.class_uid, controller.signal).then((res) => {
+      if (controller.signal.aborted) return;
+      if (res.ok && res.data) setReference({ class_uid: referenceClass.class_uid, media: res.data });
+      else if (!res.ok) console.warn('[capture] Reference media unavailable:', res.error);
+    });
+    return () => controller.abort();
+  }, [referenceClass]);
+
   // Load persisted dialects & selection
   useEffect(() => {
     try {
@@ -542,19 +622,18 @@ export default function FullscreenCaptureModal({
     // Reset frame timing
     lastFrameTimeRef.current = 0;
     
-  setCountdown(3);
+  const countdownSeconds = profileRef.current.countdown_seconds;
+  setCountdown(countdownSeconds);
   setMode('COUNTDOWN');
     
-  console.log(`Starting capture sequence: ${FIXED_CAPTURE_COUNT} captures of ${FIXED_TARGET_FRAMES} frames each`);
+  console.log(`Starting capture sequence: ${captureCountRef.current} captures of ${profileRef.current.target_frames} frames each`);
     
     setTimeout(() => {
       setRecording(true);
       recordingRef.current = true;
       setMode('RECORD');
       lastFrameTimeRef.current = Date.now(); // Start timing from recording start
-    }, 3000);
-  // FIXED_CAPTURE_COUNT and FIXED_TARGET_FRAMES are stable module constants and
-  // intentionally omitted from dependencies to avoid unnecessary re-creations.
+    }, countdownSeconds * 1000);
   }, []);
 
   const handlePause = useCallback(() => {
@@ -580,76 +659,194 @@ export default function FullscreenCaptureModal({
     console.log('Recording restarted from beginning');
   }, []);
 
-  const handleStop = useCallback(() => {
-    const collected = framesRef.current.length || 0;
-    const required = targetFramesRef.current || 0;
+  // Guided session navigation (skip / back / auto-advance). Takes already
+  // recorded for a partial sequence stay uploaded; the counter restarts.
+  const goToQueueIndex = useCallback((index: number) => {
+    const next = Math.min(Math.max(0, index), queue.length);
+    queueIndexRef.current = next;
+    setQueueIndex(next);
+    setLabel(queue[next]?.label_original ?? '');
+    completedCapturesRef.current = 0;
+    setCompletedCaptures(0);
+    setCurrentCaptureIndex(0);
+    onSessionIndexChangeRef.current?.(next);
+  }, [queue]);
+
+  // Only between sequences: a pending scheduleTake would otherwise record the new class
+  const canNavigateQueue = useCallback(
+    () => !recordingRef.current && modeRef.current === 'IDLE' && !pendingReviewRef.current
+      && (completedCapturesRef.current === 0 || handsFreeRef.current),
+    []
+  );
 
-    if (collected < required) {
-      // Block stopping early — inform the user to continue until enough frames
-      window.alert(`Bạn chưa thu đủ khung hình: ${collected}/${required}. Vui lòng tiếp tục quay cho đến khi đủ.`);
-      return;
+  // Start the countdown for the next take after `delayMs`, then record.
+  const scheduleTake = useCallback((delayMs: number) => {
+    setTimeout(() => {
+      const countdownSeconds = profileRef.current.countdown_seconds;
+      setCountdown(countdownSeconds);
+      setMode('COUNTDOWN');
+      setTimeout(() => {
+        setRecording(true);
+        recordingRef.current = true;
+        setMode('RECORD');
+        lastFrameTimeRef.current = Date.now();
+      }, countdownSeconds * 1000);
+    }, delayMs);
+  }, []);
+
+  // Hand an accepted take to the parent, then either schedule the next take or
+  // reset to the ready state once the capture count is reached.
+  const commitTake = useCallback((capturedFrames: CapturedFrame[], quality: QualityInfo, segment?: SegmentInfo) => {
+    const newCompleted = completedCapturesRef.current + 1;
+
+    console.log(`Capture ${newCompleted} completed with ${capturedFrames.length} frames`);
+    onSampleCaptureRef.current(capturedFrames, labelRef.current, userRef.current, { quality_info: quality, dialect: dialectRef.current, landmark_mode: landmarkModeRef.current, segment, capture_profile: profileRef.current.id, class_uid: queue[queueIndexRef.current]?.class_uid ?? labelClassUidRef.current, ...signerRef.current });
+
+    setTakeQuality(quality);
+    completedCapturesRef.current = newCompleted;
+    setCompletedCaptures(newCompleted);
+    setCurrentCaptureIndex(newCompleted);
+
+    if (newCompleted < captureCountRef.current) {
+      console.log(`Preparing capture ${newCompleted + 1} of ${captureCountRef.current}`);
+      setFrames([]);
+      framesRef.current = [];
+      lastFrameTimeRef.current = 0;
+      // In hands-free mode the next take starts when the signer raises their hands again
+      if (!handsFreeRef.current) scheduleTake(2000);
+    } else {
+      // Final capture completed. Keep the modal open, clear frames and
+      // reset only the action label so the user can start a new capture
+      // while preserving the same user ID. In a guided session the next
+      // class is loaded instead.
+      const queued = queueIndexRef.current < queue.length;
+      setTimeout(() => {
+        // clear captured frames and reset timing
+        setFrames([]);
+        framesRef.current = [];
+        lastFrameTimeRef.current = 0;
+
+        // reset capture counters so UI shows ready state
+        completedCapturesRef.current = 0;
+        setCompletedCaptures(0);
+        setCurrentCaptureIndex(0);
+
+        // stop recording and set idle mode
+        recordingRef.current = false;
+        setRecording(false);
+        setMode('IDLE');
+
+        // clear the action label but keep the user id
+        if (queued) {
+          goToQueueIndex(queueIndexRef.current + 1);
+        } else {
+          setLabel('');
+        }
+      }, 1000);
     }
+  }, [scheduleTake, queue, goToQueueIndex]);
 
-    setRecording(false);
+  // Called when a take stops recording: either open the review step or commit directly.
+  const finishTake = useCallback((capturedFrames: CapturedFrame[]) => {
     recordingRef.current = false;
+    setRecording(false);
     setPaused(false);
     pausedRef.current = false;
-
-      if (framesRef.current.length > 0) {
-      const quality = computeQuality(framesRef.current);
-      onSampleCaptureRef.current(framesRef.current, labelRef.current, userRef.current, { quality_info: quality, dialect: dialectRef.current });
+    setMode('IDLE');
+    if (capturedFrames.length === 0) return;
+
+    // Trim idle frames around the sign and fit the take to the target length
+    const { frames: segmented, info: segment } = segmentTake(capturedFrames, profileRef.current.target_frames);
+    console.log(`Segmented take: frames ${segment.start}-${segment.end} of ${segment.source_frames} (${segment.method})`);
+
+    const quality = computeQuality(segmented, landmarkModeRef.current, segment);
+    if (reviewEnabledRef.current) {
+      const review = { frames: segmented, quality, segment };
+      pendingReviewRef.current = review;
+      setPendingReview(review);
+      return;
+    }
+    commitTake(segmented, quality, segment);
+  }, [commitTake]);
+
+  const handleReviewConfirm = useCallback(() => {
+    const review = pendingReviewRef.current;
+    if (!review) return;
+    pendingReviewRef.current = null;
+    setPendingReview(null);
+    commitTake(review.frames, review.quality, review.segment);
+  }, [commitTake]);
+
+  // Drop the reviewed take and record the same take again
+  const handleReviewDiscard = useCallback(() => {
+    if (!pendingReviewRef.current) return;
+    pendingReviewRef.current = null;
+    setPendingReview(null);
+    setFrames([]);
+    framesRef.current = [];
+    lastFrameTimeRef.current = 0;
+    scheduleTake(0);
+  }, [scheduleTake]);
+
+  // Hands-free: both hands held up while armed starts the next take
+  const triggerHandsFreeTake = useCallback(() => {
+    handsFreeArmedRef.current = false;
+    setHandsFreeArmed(false);
+    handsAbsentStreakRef.current = 0;
+    stillStreakRef.current = 0;
+    takeMovedRef.current = false;
+
+    const completed = completedCapturesRef.current;
+    if (completed > 0 && completed < captureCountRef.current) {
       setFrames([]);
       framesRef.current = [];
+      lastFrameTimeRef.current = 0;
+      scheduleTake(0);
+    } else {
+      handleQuickCapture();
     }
-  }, [computeQuality]);
+  }, [scheduleTake, handleQuickCapture]);
 
-  useEffect(() => {
-    if (!isOpen) return;
+  // Hands-free: hands dropped before anything useful was recorded
+  const abortHandsFreeTake = useCallback(() => {
+    console.log('Hands-free take too short, discarding');
+    recordingRef.current = false;
+    setRecording(false);
+    setMode('IDLE');
+    setFrames([]);
+    framesRef.current = [];
+  }, []);
 
-    console.log('Setting up camera and MediaPipe Hands...');
+  const handleStop = useCallback(() => {
+    const collected = framesRef.current.length || 0;
+    const required = targetFramesRef.current || 0;
 
-    const hands = new Hands({
-      locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
-    });
+    if (collected < required) {
+      // Block stopping early — inform the user to continue until enough frames
+      window.alert(`Bạn chưa thu đủ khung hình: ${collected}/${required}. Vui lòng tiếp tục quay cho đến khi đủ.`);
+      return;
+    }
 
-    hands.setOptions({
-      maxNumHands: 2,
-      modelComplexity: 1,
-      refineLandmarks: true,
-      minDetectionConfidence: 0.6,
-      minTrackingConfidence: 0.7,
-    });
+    finishTake([...framesRef.current]);
+  }, [finishTake]);
 
-    console.log('MediaPipe Hands initialized');
-
-    hands.onResults((results: unknown) => {
-      const r = results as { multiHandLandmarks?: MediaPipeLandmark[][]; multiHandedness?: Array<{ label?: string; score?: number }>; image?: HTMLImageElement | HTMLVideoElement };
-
-      let leftHandLandmarks: MediaPipeLandmark[] | undefined;
-      let rightHandLandmarks: MediaPipeLandmark[] | undefined;
-      // Simple per-frame mapping: use MediaPipe handedness labels with
-      // optional global swap, without extra positional locking.
-      if (r.multiHandLandmarks && r.multiHandedness && r.multiHandLandmarks.length === r.multiHandedness.length) {
-        for (let i = 0; i < r.multiHandLandmarks.length; i++) {
-          const lm = r.multiHandLandmarks[i] as MediaPipeLandmark[];
-          const h = r.multiHandedness[i] as { label?: string };
-          const rawLabel = h.label;
-          const effectiveLabel = SWAP_HANDEDNESS
-            ? rawLabel === 'Left'
-              ? 'Right'
-              : rawLabel === 'Right'
-              ? 'Left'
-              : rawLabel
-            : rawLabel;
-
-          if (effectiveLabel === 'Left' && !leftHandLandmarks) {
-            leftHandLandmarks = lm;
-          } else if (effectiveLabel === 'Right' && !rightHandLandmarks) {
-            rightHandLandmarks = lm;
-          }
-        }
-      }
+  useEffect(() => {
+    if (!isOpen) return;
+
+    console.log(`Setting up camera and MediaPipe (${landmarkMode})...`);
+
+    // Hands and Holistic results are normalized into this shape so smoothing,
+    // rendering and capture below are shared between landmark modes.
+    type Detection = {
+      leftHandLandmarks?: MediaPipeLandmark[];
+      rightHandLandmarks?: MediaPipeLandmark[];
+      poseLandmarks?: MediaPipeLandmark[];
+      faceLandmarks?: MediaPipeLandmark[];
+      handedness?: { left?: number; right?: number };
+      image?: HTMLImageElement | HTMLVideoElement;
+    };
 
+    const handleDetection = ({ leftHandLandmarks, rightHandLandmarks, poseLandmarks, faceLandmarks, handedness, image }: Detection) => {
       // --- Temporal smoothing for presence & preview ---
       const leftDetectedNow = !!(leftHandLandmarks && leftHandLandmarks.length > 0);
       const rightDetectedNow = !!(rightHandLandmarks && rightHandLandmarks.length > 0);
@@ -674,6 +871,36 @@ export default function FullscreenCaptureModal({
         right: rightSmoothedVisible,
       };
 
+      // --- Hands-free trigger driven by the smoothed presence ---
+      if (handsFreeRef.current && !pendingReviewRef.current && !pausedRef.current) {
+        const bothVisible = leftSmoothedVisible && rightSmoothedVisible;
+        const noneVisible = !leftSmoothedVisible && !rightSmoothedVisible;
+        bothHandsStreakRef.current = bothVisible ? bothHandsStreakRef.current + 1 : 0;
+        handsAbsentStreakRef.current = noneVisible ? handsAbsentStreakRef.current + 1 : 0;
+
+        if (modeRef.current === 'IDLE' && !recordingRef.current) {
+          if (!handsFreeArmedRef.current && handsAbsentStreakRef.current >= HANDS_FREE_LEAVE_FRAMES) {
+            handsFreeArmedRef.current = true;
+            setHandsFreeArmed(true);
+          } else if (
+            handsFreeArmedRef.current &&
+            bothHandsStreakRef.current >= HANDS_FREE_START_FRAMES &&
+            labelRef.current &&
+            userRef.current
+          ) {
+            triggerHandsFreeTake();
+          }
+        } else if (recordingRef.current && handsAbsentStreakRef.current >= HANDS_FREE_LEAVE_FRAMES) {
+          if (framesRef.current.length >= HANDS_FREE_MIN_FRAMES) {
+            console.log('Hands-free: hands left, ending take');
+            finishTake([...framesRef.current]);
+          } else {
+            abortHandsFreeTake();
+          }
+          return;
+        }
+      }
+
       // Compute render landmarks with fallback to last non-empty frame
       let renderLeft: MediaPipeLandmark[] = [];
       let renderRight: MediaPipeLandmark[] = [];
@@ -697,9 +924,11 @@ export default function FullscreenCaptureModal({
       }
 
       renderDataRef.current = {
+        poseLandmarks: poseLandmarks && poseLandmarks.length > 0 ? getRenderLandmarks(poseLandmarks, "pose") : undefined,
+        faceLandmarks,
         leftHandLandmarks: renderLeft,
         rightHandLandmarks: renderRight,
-        image: r.image as HTMLImageElement | HTMLVideoElement
+        image
       };
 
       if (!pendingRenderRef.current) {
@@ -717,12 +946,16 @@ export default function FullscreenCaptureModal({
         // fall back to the last rendered landmarks to avoid empty frames.
         let captureLeft = leftHandLandmarks;
         let captureRight = rightHandLandmarks;
+        let leftSource: LandmarkSource = captureLeft ? 'live' : 'missing';
+        let rightSource: LandmarkSource = captureRight ? 'live' : 'missing';
 
         if (!captureLeft && leftSmoothedVisible && lastRenderedLeftRef.current) {
           captureLeft = lastRenderedLeftRef.current;
+          leftSource = 'fallback';
         }
         if (!captureRight && rightSmoothedVisible && lastRenderedRightRef.current) {
           captureRight = lastRenderedRightRef.current;
+          rightSource = 'fallback';
         }
 
         const leftHas = (captureLeft?.length ?? 0) > 0;
@@ -742,10 +975,29 @@ export default function FullscreenCaptureModal({
         if (!(anyVisible || anyHands)) {
           console.log('Skipping frame: no hands detected');
         } else {
-          const landmarks = {
+          const now = performance.now();
+          if (framesRef.current.length === 0) takeStartRef.current = now;
+
+          const landmarks: CapturedFrame = {
+            timestamp: Math.round(now - takeStartRef.current),
             left_hand: filterLandmarks(captureLeft, 'leftHand') || [],
             right_hand: filterLandmarks(captureRight, 'rightHand') || [],
+            source: { left: leftSource, right: rightSource },
           };
+          if (handedness && (leftSource === 'live' || rightSource === 'live')) {
+            landmarks.handedness = {
+              left: leftSource === 'live' ? handedness.left : undefined,
+              right: rightSource === 'live' ? handedness.right : undefined,
+            };
+          }
+          if (landmarkMode !== 'hands') {
+            landmarks.pose = filterLandmarks(poseLandmarks, 'pose');
+          }
+          if (landmarkMode === 'holistic') {
+            // The face mesh is dense (468 points); store it unfiltered to keep
+            // the per-frame cost of the One Euro filters bounded.
+            landmarks.face = (faceLandmarks ?? []).map((lm) => ({ ...lm }));
+          }
 
           framesRef.current.push(landmarks);
         }
@@ -753,65 +1005,111 @@ export default function FullscreenCaptureModal({
         setFrames([...framesRef.current]);
         console.log(`Recording progress: ${framesRef.current.length}/${targetFramesRef.current} frames`);
 
-        if (framesRef.current.length >= FIXED_TARGET_FRAMES) {
-          console.log('Target frames reached, stopping recording');
-          recordingRef.current = false;
-          setRecording(false);
-          setMode('IDLE');
-
-          const capturedFrames = [...framesRef.current];
-          const quality = computeQuality(capturedFrames);
-          const newCompleted = completedCapturesRef.current + 1;
-
-          console.log(`Capture ${newCompleted} completed with ${capturedFrames.length} frames`);
-          onSampleCaptureRef.current(capturedFrames, labelRef.current, userRef.current, { quality_info: quality, dialect: dialectRef.current });
-
-          completedCapturesRef.current = newCompleted;
-          setCompletedCaptures(newCompleted);
-          setCurrentCaptureIndex(newCompleted);
-
-          if (newCompleted < FIXED_CAPTURE_COUNT) {
-            console.log(`Preparing capture ${newCompleted + 1} of ${FIXED_CAPTURE_COUNT}`);
-            setFrames([]);
-            framesRef.current = [];
-            lastFrameTimeRef.current = 0;
-            setTimeout(() => {
-              setCountdown(3);
-              setMode('COUNTDOWN');
-              setTimeout(() => {
-                setRecording(true);
-                recordingRef.current = true;
-                setMode('RECORD');
-                lastFrameTimeRef.current = Date.now();
-              }, 3000);
-            }, 2000);
+        // Hands-free: end the take once the hands come to rest after signing
+        if (handsFreeRef.current && framesRef.current.length >= 2) {
+          const energy = motionEnergy(framesRef.current.slice(-2))[1];
+          if (energy >= HANDS_FREE_REST_ENERGY) {
+            takeMovedRef.current = true;
+            stillStreakRef.current = 0;
           } else {
-            // Final capture completed. Keep the modal open, clear frames and
-            // reset only the action label so the user can start a new capture
-            // while preserving the same user ID.
-            setTimeout(() => {
-              // clear captured frames and reset timing
-              setFrames([]);
-              framesRef.current = [];
-              lastFrameTimeRef.current = 0;
-
-              // reset capture counters so UI shows ready state
-              completedCapturesRef.current = 0;
-              setCompletedCaptures(0);
-              setCurrentCaptureIndex(0);
-
-              // stop recording and set idle mode
-              recordingRef.current = false;
-              setRecording(false);
-              setMode('IDLE');
-
-              // clear the action label but keep the user id
-              setLabel('');
-            }, 1000);
+            stillStreakRef.current += 1;
           }
+          if (
+            takeMovedRef.current &&
+            stillStreakRef.current >= HANDS_FREE_REST_FRAMES &&
+            framesRef.current.length >= HANDS_FREE_MIN_FRAMES
+          ) {
+            console.log('Hands-free: hands at rest, ending take');
+            finishTake([...framesRef.current]);
+            return;
+          }
+        }
+
+        if (framesRef.current.length >= targetFramesRef.current) {
+          console.log('Target frames reached, stopping recording');
+          finishTake([...framesRef.current]);
         }
       }
-    });
+    };
+
+    const swapLabel = (label?: string) =>
+      SWAP_HANDEDNESS ? (label === 'Left' ? 'Right' : label === 'Right' ? 'Left' : label) : label;
+
+    let solution: { send: (input: { image: HTMLVideoElement }) => Promise<void>; close: () => void | Promise<void> };
+
+    if (landmarkMode === 'hands') {
+      const hands = new Hands({
+        locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
+      });
+
+      hands.setOptions({
+        maxNumHands: 2,
+        modelComplexity: 1,
+        refineLandmarks: true,
+        minDetectionConfidence: profile.min_detection_confidence,
+        minTrackingConfidence: profile.min_tracking_confidence,
+      });
+
+      hands.onResults((results: unknown) => {
+        const r = results as { multiHandLandmarks?: MediaPipeLandmark[][]; multiHandedness?: Array<{ label?: string; score?: number }>; image?: HTMLImageElement | HTMLVideoElement };
+
+        let leftHandLandmarks: MediaPipeLandmark[] | undefined;
+        let rightHandLandmarks: MediaPipeLandmark[] | undefined;
+        const handedness: { left?: number; right?: number } = {};
+        // Simple per-frame mapping: use MediaPipe handedness labels with
+        // optional global swap, without extra positional locking.
+        if (r.multiHandLandmarks && r.multiHandedness && r.multiHandLandmarks.length === r.multiHandedness.length) {
+          for (let i = 0; i < r.multiHandLandmarks.length; i++) {
+            const lm = r.multiHandLandmarks[i] as MediaPipeLandmark[];
+            const effectiveLabel = swapLabel(r.multiHandedness[i]?.label);
+            const score = r.multiHandedness[i]?.score;
+
+            if (effectiveLabel === 'Left' && !leftHandLandmarks) {
+              leftHandLandmarks = lm;
+              handedness.left = score;
+            } else if (effectiveLabel === 'Right' && !rightHandLandmarks) {
+              rightHandLandmarks = lm;
+              handedness.right = score;
+            }
+          }
+        }
+
+        handleDetection({ leftHandLandmarks, rightHandLandmarks, handedness, image: r.image });
+      });
+
+      solution = hands;
+      console.log('MediaPipe Hands initialized');
+    } else {
+      const holistic = new Holistic({
+        locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/holistic/${file}`,
+      });
+
+      // Smoothing is done client-side (One Euro), same as the hands pipeline
+      holistic.setOptions({
+        modelComplexity: 1,
+        smoothLandmarks: false,
+        refineFaceLandmarks: false,
+        minDetectionConfidence: profile.min_detection_confidence,
+        minTrackingConfidence: profile.min_tracking_confidence,
+      });
+
+      holistic.onResults((results) => {
+        // Holistic assigns hands by body side rather than a handedness label;
+        // the global swap flag still applies so both modes agree.
+        const left = results.leftHandLandmarks?.length ? results.leftHandLandmarks : undefined;
+        const right = results.rightHandLandmarks?.length ? results.rightHandLandmarks : undefined;
+        handleDetection({
+          leftHandLandmarks: SWAP_HANDEDNESS ? right : left,
+          rightHandLandmarks: SWAP_HANDEDNESS ? left : right,
+          poseLandmarks: results.poseLandmarks,
+          faceLandmarks: landmarkMode === 'holistic' ? results.faceLandmarks : undefined,
+          image: results.image as HTMLImageElement | HTMLVideoElement,
+        });
+      });
+
+      solution = holistic;
+      console.log('MediaPipe Holistic initialized');
+    }
 
     if (videoRef.current) {
       console.log('Video element found, setting up camera...');
@@ -865,7 +1163,7 @@ export default function FullscreenCaptureModal({
       const camera = new Camera(videoRef.current!, {
             onFrame: async () => {
               if (videoRef.current) {
-                await hands.send({ image: videoRef.current });
+                await solution.send({ image: videoRef.current });
               }
             },
             width: 1280,
@@ -897,7 +1195,7 @@ export default function FullscreenCaptureModal({
       return () => {
         video.removeEventListener('loadedmetadata', onLoadedMetadata);
         video.removeEventListener('canplay', onCanPlay);
-        hands.close();
+        solution.close();
         if (cameraRef.current) {
           cameraRef.current.stop();
           cameraRef.current = null;
@@ -906,15 +1204,13 @@ export default function FullscreenCaptureModal({
     }
 
     return () => {
-      hands.close();
+      solution.close();
       if (cameraRef.current) {
         cameraRef.current.stop();
         cameraRef.current = null;
       }
     };
-  // FIXED_CAPTURE_COUNT and FIXED_TARGET_FRAMES are stable module constants and
-  // intentionally omitted from dependencies.
-  }, [isOpen, renderLandmarks, computeQuality, filterLandmarks, getRenderLandmarks]); // Include renderLandmarks, computeQuality, filterLandmarks and getRenderLandmarks
+  }, [isOpen, landmarkMode, profile, renderLandmarks, finishTake, triggerHandsFreeTake, abortHandsFreeTake, filterLandmarks, getRenderLandmarks]); // Re-create the solution when the landmark mode changes
 
   // Countdown effect
   useEffect(() => {
@@ -967,6 +1263,19 @@ export default function FullscreenCaptureModal({
 
       console.log('Key pressed:', e.code);
 
+      // While reviewing a take only the review shortcuts apply (the player handles arrows/Space)
+      if (pendingReviewRef.current) {
+        if (e.code === 'Enter') {
+          e.preventDefault();
+          handleReviewConfirm();
+        } else if (e.code === 'KeyR') {
+          handleReviewDiscard();
+        } else if (e.code === 'Escape') {
+          handleCloseRef.current?.();
+        }
+        return;
+      }
+
       if (e.code === 'Enter') {
         e.preventDefault();
         console.log('Enter pressed - recording:', recordingRef.current, 'label:', labelRef.current, 'user:', userRef.current);
@@ -977,7 +1286,8 @@ export default function FullscreenCaptureModal({
           setCurrentCaptureIndex(0);
           setCompletedCaptures(0);
           completedCapturesRef.current = 0;
-          setCountdown(3);
+          const countdownSeconds = profileRef.current.countdown_seconds;
+          setCountdown(countdownSeconds);
           setMode('COUNTDOWN');
           
           console.log(`Starting capture sequence: ${captureCountRef.current} captures of ${targetFramesRef.current} frames each`);
@@ -986,7 +1296,7 @@ export default function FullscreenCaptureModal({
             setRecording(true);
             recordingRef.current = true;
             setMode('RECORD');
-          }, 3000);
+          }, countdownSeconds * 1000);
         } else if (recordingRef.current) {
           // Inline stop logic — enforce target frames before allowing stop
           const collected = framesRef.current.length || 0;
@@ -994,15 +1304,7 @@ export default function FullscreenCaptureModal({
           if (collected < required) {
             window.alert(`Bạn chưa thu đủ khung hình: ${collected}/${required}. Vui lòng tiếp tục quay cho đến khi đủ.`);
           } else {
-            setRecording(false);
-            recordingRef.current = false;
-
-            if (framesRef.current.length > 0) {
-              const quality = computeQuality(framesRef.current);
-              onSampleCaptureRef.current(framesRef.current, labelRef.current, userRef.current, { quality_info: quality, dialect: dialectRef.current });
-              setFrames([]);
-              framesRef.current = [];
-            }
+            finishTake([...framesRef.current]);
           }
         }
       } else if (e.code === 'Escape') {
@@ -1018,6 +1320,11 @@ export default function FullscreenCaptureModal({
             handlePause();
           }
         }
+      } else if ((e.code === 'ArrowRight' || e.code === 'ArrowLeft') && queue.length > 0) {
+        // guided session: skip forward / go back one class
+        if (canNavigateQueue()) {
+          goToQueueIndex(queueIndexRef.current + (e.code === 'ArrowRight' ? 1 : -1));
+        }
       } else if (e.code === 'KeyS') {
         // toggle guide
         setShowGuide((s) => !s);
@@ -1040,7 +1347,7 @@ export default function FullscreenCaptureModal({
 
     document.addEventListener('keydown', handleKeyPress);
     return () => document.removeEventListener('keydown', handleKeyPress);
-  }, [isOpen, computeQuality, handlePause, handleResume]);
+  }, [isOpen, finishTake, handlePause, handleResume, handleReviewConfirm, handleReviewDiscard, queue.length, canNavigateQueue, goToQueueIndex]);
 
   if (!isOpen) return null;
 
@@ -1148,6 +1455,27 @@ export default function FullscreenCaptureModal({
             </div>
           )}
 
+          {/* Reference demonstration (hidden while recording) */}
+          {reference && referenceClass && reference.class_uid === referenceClass.class_uid && !recording && !pendingReview && (
+            <ReferencePip media={reference.media} label={referenceClass.label_original} />
+          )}
+
+          {/* Last take quality */}
+          {takeQuality && typeof takeQuality.score === 'number' && !recording && countdown === 0 && !pendingReview && (
+            <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-gray-900/90 backdrop-blur-sm border border-gray-700 rounded-lg px-4 py-3 text-white text-sm max-w-md z-20">
+              <div className="flex items-center gap-2">
+                <span>Chất lượng lần vừa ghi:</span>
+                <Badge variant={qualityVariant(takeQuality.score)} size="sm">{takeQuality.score}/100</Badge>
+                {takeQuality.flagged && <span className="text-red-300 text-xs">Nên ghi lại</span>}
+              </div>
+              {(takeQuality.issues?.length ?? 0) > 0 && (
+                <ul className="mt-2 space-y-0.5 text-xs text-yellow-200">
+                  {takeQuality.issues?.map((issue) => <li key={issue.code}>⚠️ {issue.message}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Countdown Overlay */}
           {countdown > 0 && (
             <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm">
@@ -1157,7 +1485,7 @@ export default function FullscreenCaptureModal({
                 <div className="text-3xl font-semibold text-green-400">{label}</div>
                 {captureCount > 1 && (
                   <div className="text-lg mt-4 text-gray-300">
-                    Lần chụp {currentCaptureIndex + 1} / {FIXED_CAPTURE_COUNT}
+                    Lần chụp {currentCaptureIndex + 1} / {captureCount}
                   </div>
                 )}
               </div>
@@ -1176,12 +1504,12 @@ export default function FullscreenCaptureModal({
                   <div className="bg-gray-800 rounded-lg p-4 mb-6">
                     <div className="flex justify-between text-sm mb-2">
                       <span className="text-gray-400">Tiến độ:</span>
-                      <span className="text-white font-medium">{frames.length} / {FIXED_TARGET_FRAMES} khung</span>
+                      <span className="text-white font-medium">{frames.length} / {recordFrames} khung</span>
                     </div>
                     <div className="w-full bg-gray-700 rounded-full h-2">
                       <div 
                         className="bg-yellow-500 h-2 rounded-full transition-all duration-300"
-                        style={{ width: `${Math.min((frames.length / FIXED_TARGET_FRAMES) * 100, 100)}%` }}
+                        style={{ width: `${Math.min((frames.length / recordFrames) * 100, 100)}%` }}
                       />
                     </div>
                   </div>
@@ -1208,7 +1536,7 @@ export default function FullscreenCaptureModal({
                       <span>Bắt đầu lại từ đầu (xóa dữ liệu)</span>
                     </button>
 
-                    {frames.length >= FIXED_TARGET_FRAMES && (
+                    {frames.length >= recordFrames && (
                       <button
                         onClick={() => {
                           setPaused(false);
@@ -1229,6 +1557,32 @@ export default function FullscreenCaptureModal({
             </div>
           )}
 
+          {/* Hands-free status */}
+          {handsFree && isReady && !recording && countdown === 0 && !pendingReview && (
+            <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 bg-black/60 backdrop-blur-sm rounded-full px-6 py-2 pointer-events-none">
+              <div className={`text-sm font-medium ${handsFreeArmed && label && user ? 'text-green-300' : 'text-yellow-300'}`}>
+                {!label || !user
+                  ? '🙌 Nhập nhãn và chọn người thực hiện đã đồng ý để dùng chế độ rảnh tay'
+                  : handsFreeArmed
+                  ? '🙌 Giơ cả hai tay lên để bắt đầu'
+                  : '👇 Hạ tay ra khỏi khung hình để chuẩn bị lần chụp tiếp'}
+              </div>
+            </div>
+          )}
+
+          {/* Review Overlay */}
+          {pendingReview && (
+            <PreviewModal
+              frames={pendingReview.frames}
+              quality={pendingReview.quality}
+              segment={pendingReview.segment}
+              label={label}
+              mirror={MIRROR_PREVIEW}
+              onConfirm={handleReviewConfirm}
+              onDiscard={handleReviewDiscard}
+            />
+          )}
+
           {/* Between Captures Overlay */}
           {!recording && !countdown && completedCaptures > 0 && completedCaptures < captureCount && (
             <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm">
@@ -1237,7 +1591,7 @@ export default function FullscreenCaptureModal({
                 <div className="text-2xl font-bold mb-2 text-green-400">Đã chụp {completedCaptures} mẫu!</div>
                 <div className="text-xl mb-4">Chuẩn bị chụp tiếp...</div>
                 <div className="text-lg text-gray-300">
-                  Tiến độ: {completedCaptures} / {FIXED_CAPTURE_COUNT}
+                  Tiến độ: {completedCaptures} / {captureCount}
                 </div>
                 <div className="w-64 bg-gray-700 rounded-full h-3 mt-4 mx-auto">
                   <div 
@@ -1256,7 +1610,11 @@ export default function FullscreenCaptureModal({
                 <div className="text-6xl mb-4">✅</div>
                 <div className="text-3xl font-bold mb-2 text-green-400">Hoàn tất tất cả lần chụp!</div>
                 <div className="text-xl mb-4">Đã chụp {completedCaptures} mẫu cho "{label}"</div>
-                <div className="text-lg text-gray-300">Sẵn sàng chụp tiếp — nhập nhãn mới và nhấn nút Bắt đầu chụp</div>
+                <div className="text-lg text-gray-300">
+                  {queueIndex + 1 < queue.length
+                    ? `Ký hiệu tiếp theo: "${queue[queueIndex + 1].label_original}"`
+                    : 'Sẵn sàng chụp tiếp — nhập nhãn mới và nhấn nút Bắt đầu chụp'}
+                </div>
               </div>
             </div>
           )}
@@ -1266,8 +1624,8 @@ export default function FullscreenCaptureModal({
             <div className="absolute top-24 left-6 flex items-center space-x-3 bg-red-500 text-white px-4 py-2 rounded-full shadow-lg">
               <div className="w-3 h-3 bg-white rounded-full animate-pulse"></div>
               <span className="font-medium">ĐANG GHI</span>
-              {FIXED_CAPTURE_COUNT > 1 && (
-                <span className="text-sm">({completedCaptures + 1}/{FIXED_CAPTURE_COUNT})</span>
+              {captureCount > 1 && (
+                <span className="text-sm">({completedCaptures + 1}/{captureCount})</span>
               )}
             </div>
           )}
@@ -1293,25 +1651,82 @@ export default function FullscreenCaptureModal({
               </h3>
               
               <div className="space-y-4">
+                {queue.length > 0 && (
+                  <div className="p-4 bg-gray-800/80 border border-green-500/30 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-green-300">
+                        📋 Ký hiệu {Math.min(queueIndex + 1, queue.length)} / {queue.length}
+                      </span>
+                      <span className="text-xs text-gray-400">Lần chụp {completedCaptures}/{captureCount}</span>
+                    </div>
+                    <div className="w-full bg-gray-700 rounded-full h-1.5 mb-3">
+                      <div
+                        className="bg-green-500 h-1.5 rounded-full transition-all duration-300"
+                        style={{ width: `${(queueIndex / queue.length) * 100}%` }}
+                      />
+                    </div>
+                    {currentClass ? (
+                      <>
+                        <div className="text-2xl font-bold text-white">{currentClass.label_original}</div>
+                        <div className="text-xs text-gray-400 mt-1">
+                          {currentClass.slug}
+                          {currentClass.dialect ? ` • ${currentClass.dialect}` : ''}
+                        </div>
+                      </>
+                    ) : (
+                      <div className="text-sm text-gray-300">🎉 Đã hết danh sách — nhập nhãn để chụp tiếp.</div>
+                    )}
+                    <div className="flex gap-2 mt-3">
+                      <button
+                        type="button"
+                        onClick={() => canNavigateQueue() && goToQueueIndex(queueIndex - 1)}
+                        disabled={recording || countdown > 0 || queueIndex === 0}
+                        className="flex-1 text-xs px-2 py-1.5 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+                      >
+                        ⏮ Quay lại (←)
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => canNavigateQueue() && goToQueueIndex(queueIndex + 1)}
+                        disabled={recording || countdown > 0 || queueIndex >= queue.length}
+                        className="flex-1 text-xs px-2 py-1.5 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+                      >
+                        Bỏ qua (→) ⏭
+                      </button>
+                    </div>
+                    {queueIndex + 1 < queue.length && (
+                      <p className="text-xs text-gray-400 mt-2">
+                        Tiếp theo: {queue.slice(queueIndex + 1, queueIndex + 4).map((c) => c.label_original).join(', ')}
+                        {queue.length - queueIndex > 4 ? '…' : ''}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-blue-300 mb-2">📝 Nhãn hành động *</label>
-                  <div className="relative">
-                    <input
-                      type="text"
-                      value={label}
-                      onChange={(e) => setLabel(e.target.value)}
-                      placeholder="ví dụ: đi bộ, nhảy, vẫy tay"
-                      className="w-full pr-12 px-4 py-3 bg-gray-800/80 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200"
-                      disabled={recording || countdown > 0}
-                    />
-                    <div className="absolute inset-y-0 right-2 flex items-center">
+                  <LabelCombobox
+                    value={label}
+                    classUid={labelClassUid}
+                    onChange={(value, row) => {
+                      setLabel(value);
+                      setLabelClass(row);
+                    }}
+                    dialect={activeDialect}
+                    tone="dark"
+                    placeholder="ví dụ: đi bộ, nhảy, vẫy tay"
+                    inputClassName="w-full pr-12 px-4 py-3 bg-gray-800/80 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200"
+                    disabled={recording || countdown > 0 || !!currentClass}
+                    adornment={
                       <SpeechInputButton
-                        onText={(text) => setLabel(text)}
+                        onText={(text) => {
+                          if (!currentClass) setLabel(text);
+                        }}
                         title="Dùng giọng nói để điền nhãn hành động"
                         className="h-8 w-8"
                       />
-                    </div>
-                  </div>
+                    }
+                  />
                   {!label && (
                     <p className="text-xs text-yellow-400 mt-1">⚠️ Nhãn hành động là bắt buộc</p>
                   )}
@@ -1319,48 +1734,22 @@ export default function FullscreenCaptureModal({
 
                 <div>
                   <label className="block text-sm font-medium text-blue-300 mb-2">👤 Người thực hiện *</label>
-                  <div className="relative">
-                    <input
-                      type="text"
-                      value={user}
-                      onChange={(e) => setUser(e.target.value)}
-                      placeholder="ví dụ: user001, john_doe"
-                      className="w-full pr-12 px-4 py-3 bg-gray-800/80 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200"
-                      disabled={recording || countdown > 0}
-                      onBlur={() => rememberUser(user)}
-                    />
-                    <div className="absolute inset-y-0 right-2 flex items-center">
-                      <SpeechInputButton
-                        onText={(text) => setUser(text)}
-                        title="Dùng giọng nói để điền tên người thực hiện"
-                        className="h-8 w-8"
-                      />
-                    </div>
-                  </div>
-                  {!user && (
-                    <p className="text-xs text-yellow-400 mt-1">⚠️ ID người dùng là bắt buộc</p>
-                  )}
-                  {recentUsers.length > 0 && (
-                    <div className="mt-2 flex flex-wrap gap-2 text-xs text-blue-200">
-                      <span className="text-[11px] text-blue-300">Gợi ý:</span>
-                      {recentUsers.map((name) => (
-                        <button
-                          type="button"
-                          key={name}
-                          onClick={() => setUser(name)}
-                          className="px-2 py-1 rounded-full bg-blue-900/60 hover:bg-blue-800 text-blue-100 border border-blue-500/40 text-[11px]"
-                        >
-                          {name}
-                        </button>
-                      ))}
-                    </div>
+                  <SignerPicker
+                    value={signer}
+                    onChange={setSigner}
+                    tone="dark"
+                    disabled={recording || countdown > 0}
+                    inputClassName="w-full px-4 py-3 bg-gray-800/80 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200"
+                  />
+                  {!signer && (
+                    <p className="text-xs text-yellow-400 mt-1">⚠️ Chọn hồ sơ người thực hiện</p>
                   )}
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-blue-300 mb-2">🗂️ Bộ ngôn ngữ</label>
                   <select
-                    value={dialect}
+                    value={activeDialect}
                     onChange={(e) => {
                       const v = e.target.value;
                       if (v === 'Khác') {
@@ -1378,14 +1767,87 @@ export default function FullscreenCaptureModal({
                       }
                     }}
                     className="w-full px-4 py-3 bg-gray-800/80 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200"
-                    disabled={recording || countdown > 0}
+                    disabled={recording || countdown > 0 || !!classDialect}
                   >
                     {dialectList.map((d) => (
                       <option key={d} value={d}>{d}</option>
                     ))}
+                    {classDialect && !dialectList.includes(classDialect) && (
+                      <option value={classDialect}>{classDialect}</option>
+                    )}
                     <option value="Khác">Khác (thêm mới)</option>
                   </select>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-blue-300 mb-2">🦴 Điểm mốc thu thập</label>
+                  <select
+                    value={landmarkMode}
+                    onChange={(e) => {
+                      const v = e.target.value as LandmarkMode;
+                      // Switching mode restarts the MediaPipe solution
+                      setIsReady(false);
+                      setLandmarkMode(v);
+                      try {
+                        localStorage.setItem('landmarkMode', v);
+                      } catch {
+                        // ignore
+                      }
+                    }}
+                    className="w-full px-4 py-3 bg-gray-800/80 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200"
+                    disabled={recording || countdown > 0}
+                  >
+                    {LANDMARK_MODES.map((m) => (
+                      <option key={m.value} value={m.value}>{m.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {LANDMARK_MODES.find((m) => m.value === landmarkMode)?.description}
+                  </p>
+                </div>
+
+                <label className="flex items-center gap-3 text-sm text-blue-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={reviewEnabled}
+                    onChange={(e) => {
+                      setReviewEnabled(e.target.checked);
+                      try {
+                        localStorage.setItem('reviewBeforeUpload', e.target.checked ? '1' : '0');
+                      } catch {
+                        // ignore
+                      }
+                    }}
+                    disabled={recording || countdown > 0}
+                    className="w-4 h-4 rounded border-gray-600 bg-gray-800"
+                  />
+                  <span>🔍 Xem lại từng mẫu trước khi lưu</span>
+                </label>
+
+                <div>
+                  <label className="flex items-center gap-3 text-sm text-blue-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={handsFree}
+                      onChange={(e) => {
+                        setHandsFree(e.target.checked);
+                        try {
+                          localStorage.setItem('handsFreeCapture', e.target.checked ? '1' : '0');
+                        } catch {
+                          // ignore
+                        }
+                      }}
+                      disabled={recording || countdown > 0}
+                      className="w-4 h-4 rounded border-gray-600 bg-gray-800"
+                    />
+                    <span>🙌 Chế độ rảnh tay</span>
+                  </label>
+                  {handsFree && (
+                    <p className="text-xs text-gray-400 mt-1 ml-7">
+                      Giơ cả hai tay để bắt đầu đếm ngược; hạ tay hoặc giữ yên tay để kết thúc lần chụp.
+                    </p>
+                  )}
+                </div>
               </div>
             </div>
 
@@ -1395,28 +1857,36 @@ export default function FullscreenCaptureModal({
             <div className="bg-gray-800 rounded-lg p-4">
               <h4 className="text-sm font-medium text-gray-300 mb-3">📊 Cài đặt & Tiến độ chụp</h4>
               <div className="space-y-2 text-sm">
-                {/* Capture settings removed for simplified public uploader; defaults are enforced. */}
+                {/* Capture settings come from the session's capture profile */}
+                <div className="flex justify-between text-gray-400">
+                  <span>Hồ sơ chụp:</span>
+                  <span className="text-white" title={profile.description}>{profile.name}</span>
+                </div>
+                <div className="flex justify-between text-gray-400">
+                  <span>Khung mỗi mẫu:</span>
+                  <span className="text-white">{targetFrames} @ {profile.sample_fps} FPS</span>
+                </div>
                 <div className="flex justify-between text-gray-400">
                   <span>Tổng số lần chụp:</span>
-                  <span className="text-white">{FIXED_CAPTURE_COUNT}</span>
+                  <span className="text-white">{captureCount}</span>
                 </div>
                 <div className="flex justify-between text-gray-400">
                   <span>Lần chụp hiện tại:</span>
-                  <span className="text-white">{currentCaptureIndex + 1}/{FIXED_CAPTURE_COUNT}</span>
+                  <span className="text-white">{currentCaptureIndex + 1}/{captureCount}</span>
                 </div>
                 <div className="flex justify-between text-gray-400">
                   <span>Đã hoàn thành:</span>
-                  <span className="text-white">{completedCaptures}/{FIXED_CAPTURE_COUNT}</span>
+                  <span className="text-white">{completedCaptures}/{captureCount}</span>
                 </div>
                 <div className="flex justify-between text-gray-400">
                   <span>Khung hiện tại:</span>
-                  <span className="text-white">{frames.length}/{FIXED_TARGET_FRAMES}</span>
+                  <span className="text-white">{frames.length}/{recordFrames}</span>
                 </div>
                 {frames.length > 0 && (
                   <div className="w-full bg-gray-700 rounded-full h-2 mt-2">
                     <div 
                       className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${Math.min((frames.length / FIXED_TARGET_FRAMES) * 100, 100)}%` }}
+                      style={{ width: `${Math.min((frames.length / recordFrames) * 100, 100)}%` }}
                     />
                   </div>
                 )}
@@ -1446,7 +1916,7 @@ export default function FullscreenCaptureModal({
                 <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                 </svg>
-                {FIXED_CAPTURE_COUNT > 1 ? `Bắt đầu chụp (${FIXED_CAPTURE_COUNT}x)` : 'Bắt đầu chụp'} (Enter)
+                {captureCount > 1 ? `Bắt đầu chụp (${captureCount}x)` : 'Bắt đầu chụp'} (Enter)
               </Button>
             ) : paused ? (
               <div className="text-center py-4 text-gray-400">
@@ -1469,8 +1939,8 @@ export default function FullscreenCaptureModal({
                   onClick={handleStop}
                   className="w-full py-3"
                   variant="danger"
-                  disabled={frames.length < FIXED_TARGET_FRAMES}
-                  title={frames.length < FIXED_TARGET_FRAMES ? `Cần ${FIXED_TARGET_FRAMES} khung trước khi dừng` : undefined}
+                  disabled={frames.length < recordFrames}
+                  title={frames.length < recordFrames ? `Cần ${recordFrames} khung trước khi dừng` : undefined}
                 >
                   <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
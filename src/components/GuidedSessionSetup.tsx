@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import { getClassesList } from "../api/dataset";
+import type { ClassRow } from "../types";
+import type { WorklistItem } from "../utils/coverage";
+import { fuzzyScore } from "../utils/text";
+import Button from "./ui/Button";
+
+type Props = {
+  worklist: WorklistItem[];
+  defaultTakes: number;
+  onStart: (classes: ClassRow[], takesPerClass: number) => void;
+  onClearWorklist: () => void;
+};
+
+// Worklist entries only carry uid/label/dialect; prefer the full class row when loaded
+const worklistToClasses = (worklist: WorklistItem[], classes: ClassRow[]): ClassRow[] => {
+  const byUid = new Map(classes.map((c) => [c.class_uid, c]));
+  return worklist.map((w) => byUid.get(w.class_uid) ?? {
+    class_uid: w.class_uid,
+    class_idx: '',
+    slug: '',
+    label_original: w.label,
+    dialect: w.dialect,
+  });
+};
+
+export default function GuidedSessionSetup({ worklist, defaultTakes, onStart, onClearWorklist }: Props) {
+  const [open, setOpen] = useState(false);
+  const [classes, setClasses] = useState<ClassRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [source, setSource] = useState<'worklist' | 'classes'>(worklist.length > 0 ? 'worklist' : 'classes');
+  const [dialect, setDialect] = useState('');
+  const [search, setSearch] = useState('');
+  const [startAt, setStartAt] = useState(1);
+  const [count, setCount] = useState(30);
+  const [takes, setTakes] = useState(defaultTakes);
+
+  const loadClasses = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await getClassesList('vn');
+      if (res.ok) setClasses(res.data.items || []);
+      else setError(res.error);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!open && classes.length === 0) void loadClasses();
+    setOpen((v) => !v);
+  };
+
+  const dialects = useMemo(
+    () => Array.from(new Set(classes.map((c) => c.dialect).filter((d): d is string => !!d))).sort(),
+    [classes],
+  );
+
+  const selection = useMemo<ClassRow[]>(() => {
+    if (source === 'worklist') return worklistToClasses(worklist, classes);
+    // Filter without re-ranking: the session follows class order
+    const filtered = classes.filter((c) =>
+      (!dialect || c.dialect === dialect) &&
+      (fuzzyScore(c.label_original, search) > 0 || fuzzyScore(c.slug, search) > 0));
+    const from = Math.max(0, startAt - 1);
+    return filtered.slice(from, from + Math.max(1, count));
+  }, [source, worklist, classes, dialect, search, startAt, count]);
+
+  return (
+    <div className="max-w-md mx-auto mb-6 p-4 text-left bg-green-50 border border-green-200 rounded-xl">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-green-800">
+          📋 Phiên ghi theo danh sách
+          {worklist.length > 0 && ` • ${worklist.length} nhãn cần ghi`}
+        </span>
+        <button type="button" onClick={toggle} className="text-xs text-green-700 hover:underline">
+          {open ? 'Thu gọn' : 'Thiết lập'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          {loading && <p className="text-xs text-gray-500">Đang tải danh sách nhãn...</p>}
+          {error && (
+            <p className="text-xs text-red-600">
+              Không tải được danh sách nhãn ({error}).{' '}
+              <button type="button" onClick={() => void loadClasses()} className="underline">Thử lại</button>
+            </p>
+          )}
+
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={source === 'worklist'}
+                onChange={() => setSource('worklist')}
+                disabled={worklist.length === 0}
+              />
+              Kế hoạch thu thập ({worklist.length})
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="radio" checked={source === 'classes'} onChange={() => setSource('classes')} />
+              Tất cả nhãn
+            </label>
+          </div>
+
+          {source === 'worklist' ? (
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-xs text-green-700">
+                {worklist.slice(0, 5).map((w) => `${w.label} (thiếu ${w.deficit})`).join(', ')}
+                {worklist.length > 5 ? '…' : ''}
+              </p>
+              {worklist.length > 0 && (
+                <button type="button" onClick={onClearWorklist} className="text-xs text-gray-500 hover:text-red-600 whitespace-nowrap">
+                  Xóa danh sách
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <select className="input text-sm col-span-2" value={dialect} onChange={(e) => setDialect(e.target.value)}>
+                <option value="">Tất cả phương ngữ</option>
+                {dialects.map((d) => (
+                  <option key={d} value={d}>{d}</option>
+                ))}
+              </select>
+              <input
+                type="search"
+                className="input text-sm col-span-2"
+                placeholder="Lọc theo nhãn hoặc slug"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+              <label className="text-xs text-gray-600">
+                Bắt đầu từ #
+                <input type="number" min={1} className="input text-sm w-full" value={startAt}
+                  onChange={(e) => setStartAt(Math.max(1, Math.floor(Number(e.target.value)) || 1))} />
+              </label>
+              <label className="text-xs text-gray-600">
+                Số nhãn
+                <input type="number" min={1} className="input text-sm w-full" value={count}
+                  onChange={(e) => setCount(Math.max(1, Math.floor(Number(e.target.value)) || 1))} />
+              </label>
+            </div>
+          )}
+
+          <label className="block text-xs text-gray-600">
+            Số lần chụp mỗi nhãn
+            <input type="number" min={1} className="input text-sm w-full" value={takes}
+              onChange={(e) => setTakes(Math.max(1, Math.floor(Number(e.target.value)) || 1))} />
+          </label>
+
+          <Button size="sm" variant="primary" disabled={selection.length === 0} onClick={() => onStart(selection, takes)}>
+            Bắt đầu phiên ({selection.length} nhãn)
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
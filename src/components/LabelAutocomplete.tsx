@@ -0,0 +1,128 @@
+import { useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import type { ClassRow } from "../types";
+import { normalizeText, rankMatches } from "../utils/text";
+
+interface LabelAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Registered classes to suggest from (see useClassOptions)
+  classes: ClassRow[];
+  // Called when a suggestion is picked, after onChange with its label
+  onSelect?: (row: ClassRow) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  // Dark variant for the fullscreen capture overlay
+  tone?: "light" | "dark";
+  inputClassName?: string;
+  // Rendered at the right edge of the input (e.g. a SpeechInputButton)
+  adornment?: ReactNode;
+  maxSuggestions?: number;
+}
+
+const TONES = {
+  light: {
+    list: "bg-white border-gray-200 shadow-lg",
+    item: "text-gray-900 hover:bg-indigo-50",
+    active: "bg-indigo-50",
+    meta: "text-gray-500",
+  },
+  dark: {
+    list: "bg-gray-900 border-gray-600 shadow-xl",
+    item: "text-white hover:bg-gray-700",
+    active: "bg-gray-700",
+    meta: "text-gray-400",
+  },
+};
+
+// Free-text label input that suggests registered classes, matched without
+// tones ("cam on" finds "Cảm ơn") and tolerating small typos.
+export default function LabelAutocomplete({
+  value,
+  onChange,
+  classes,
+  onSelect,
+  placeholder,
+  disabled,
+  tone = "light",
+  inputClassName = "input w-full",
+  adornment,
+  maxSuggestions = 8,
+}: LabelAutocompleteProps) {
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const styles = TONES[tone];
+
+  const suggestions = useMemo(() => {
+    if (!normalizeText(value)) return [];
+    const ranked = rankMatches(classes, value, (c) => [c.label_original, c.slug], maxSuggestions);
+    // Nothing to suggest once the value is exactly a registered label
+    return ranked.length === 1 && ranked[0].label_original === value ? [] : ranked;
+  }, [classes, value, maxSuggestions]);
+
+  const showList = open && !disabled && suggestions.length > 0;
+
+  const pick = (row: ClassRow) => {
+    onChange(row.label_original);
+    onSelect?.(row);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={inputClassName}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showList}
+        aria-autocomplete="list"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a suggestion lands before the list unmounts
+        onBlur={() => window.setTimeout(() => setOpen(false), 150)}
+        onKeyDown={(e) => {
+          if (!showList) return;
+          if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActive((i) => (i + 1) % suggestions.length);
+          } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActive((i) => (i - 1 + suggestions.length) % suggestions.length);
+          } else if (e.key === "Enter") {
+            e.preventDefault();
+            pick(suggestions[Math.min(active, suggestions.length - 1)]);
+          } else if (e.key === "Escape") {
+            e.stopPropagation();
+            setOpen(false);
+          }
+        }}
+      />
+      {adornment && <div className="absolute inset-y-0 right-2 flex items-center">{adornment}</div>}
+      {showList && (
+        <ul role="listbox" className={`absolute z-40 mt-1 w-full max-h-64 overflow-y-auto rounded-lg border text-sm ${styles.list}`}>
+          {suggestions.map((c, i) => (
+            <li
+              key={c.class_uid}
+              role="option"
+              aria-selected={i === active}
+              className={`flex items-center justify-between gap-2 px-3 py-2 cursor-pointer ${styles.item} ${i === active ? styles.active : ""}`}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(c)}
+            >
+              <span className="truncate">{c.label_original}</span>
+              <span className={`text-xs font-mono shrink-0 ${styles.meta}`}>{c.slug}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import type { ClassRow } from "../types";
+import { registerClass } from "../api/dataset";
+import { invalidateClassOptions, useClassOptions } from "../hooks/useClassOptions";
+import { DIALECT_NAMES, normalizeDialect } from "../utils/dialects";
+import { normalizeText, rankMatches, slugify } from "../utils/text";
+import { isAdmin } from "../utils/role";
+import LabelAutocomplete from "./LabelAutocomplete";
+
+interface LabelComboboxProps {
+  value: string;
+  // Class the value currently resolves to, as last reported through onChange
+  classUid?: string;
+  // Called with the label and the registered class it resolves to (null when
+  // the label is unknown), both on edits and when the class list changes
+  onChange: (label: string, row: ClassRow | null) => void;
+  language?: string;
+  // Active dialect (slug or display name); suggestions are limited to it and "common"
+  dialect?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  tone?: "light" | "dark";
+  inputClassName?: string;
+  adornment?: ReactNode;
+  // Table cells have no room for the unknown-label hint
+  compact?: boolean;
+}
+
+const matchesLabel = (row: ClassRow, key: string) => normalizeText(row.label_original) === key || row.slug === key;
+
+// Registered class for a typed label: tone-insensitive label or exact slug,
+// preferring the active dialect, then "common"
+const resolveClass = (value: string, classes: ClassRow[], dialect: string): ClassRow | null => {
+  const key = normalizeText(value);
+  if (!key) return null;
+  const hits = classes.filter((c) => matchesLabel(c, key));
+  const rank = (c: ClassRow) => {
+    const d = normalizeDialect(c.dialect) || "common";
+    return d === dialect ? 0 : d === "common" ? 1 : 2;
+  };
+  return hits.sort((a, b) => rank(a) - rank(b))[0] ?? null;
+};
+
+const TONES = {
+  light: { warn: "text-yellow-700", link: "text-indigo-600 hover:underline", error: "text-red-600" },
+  dark: { warn: "text-yellow-400", link: "text-blue-300 hover:underline", error: "text-red-400" },
+};
+
+// Label input bound to the registered classes: suggests them, reports the
+// resolved class_uid and flags labels that would create a new class on upload.
+// Admins can register an unknown label in place.
+export default function LabelCombobox({
+  value,
+  classUid,
+  onChange,
+  language = "vn",
+  dialect,
+  placeholder,
+  disabled,
+  tone = "light",
+  inputClassName,
+  adornment,
+  compact,
+}: LabelComboboxProps) {
+  const { classes, loading } = useClassOptions(language);
+  const [admin, setAdmin] = useState(isAdmin());
+  const [registering, setRegistering] = useState(false);
+  const [registerError, setRegisterError] = useState<string | null>(null);
+  const dialectSlug = normalizeDialect(dialect);
+  const styles = TONES[tone];
+
+  useEffect(() => {
+    const onRole = () => setAdmin(isAdmin());
+    window.addEventListener("voya:rolechange", onRole);
+    return () => window.removeEventListener("voya:rolechange", onRole);
+  }, []);
+
+  // Custom dialect names unknown to the backend don't narrow the list
+  const options = useMemo(() => {
+    if (!dialectSlug || !(dialectSlug in DIALECT_NAMES)) return classes;
+    return classes.filter((c) => {
+      const d = normalizeDialect(c.dialect) || "common";
+      return d === dialectSlug || d === "common";
+    });
+  }, [classes, dialectSlug]);
+
+  const resolved = useMemo(() => {
+    // Keep an explicit pick while its label still matches (e.g. the same label in two dialects)
+    const current = classUid ? classes.find((c) => c.class_uid === classUid) : undefined;
+    if (current && matchesLabel(current, normalizeText(value))) return current;
+    return resolveClass(value, classes, dialectSlug || "common");
+  }, [classes, classUid, value, dialectSlug]);
+
+  // Labels set from outside (speech input, bulk edit, selectClass) resolve here too.
+  // Skipped until the list is in, so a failed load never drops a known class_uid.
+  useEffect(() => {
+    if (loading || classes.length === 0) return;
+    if ((resolved?.class_uid ?? undefined) !== classUid) onChange(value, resolved);
+  }, [loading, classes.length, resolved, classUid, value, onChange]);
+
+  const unknown = !loading && classes.length > 0 && !!value.trim() && !resolved;
+  const closest = unknown ? rankMatches(options, value, (c) => [c.label_original], 1)[0] : undefined;
+
+  const register = async () => {
+    const label = value.trim();
+    setRegistering(true);
+    setRegisterError(null);
+    const res = await registerClass({ label, slug: slugify(label), language, dialect: dialectSlug in DIALECT_NAMES ? dialectSlug : "common" });
+    setRegistering(false);
+    if (!res.ok) {
+      setRegisterError(res.error);
+      return;
+    }
+    onChange(res.data.label_original || label, res.data);
+    invalidateClassOptions();
+  };
+
+  return (
+    <div>
+      <LabelAutocomplete
+        value={value}
+        onChange={(label) => {
+          setRegisterError(null);
+          onChange(label, resolveClass(label, classes, dialectSlug || "common"));
+        }}
+        onSelect={(row) => onChange(row.label_original, row)}
+        classes={options}
+        placeholder={placeholder}
+        disabled={disabled}
+        tone={tone}
+        inputClassName={inputClassName}
+        adornment={adornment}
+      />
+      {unknown && !disabled && (
+        compact ? (
+          <p className={`text-xs mt-1 ${styles.warn}`} title="Nhãn chưa đăng ký; tải lên sẽ tạo lớp mới">⚠️ Chưa đăng ký</p>
+        ) : (
+          <div className={`text-xs mt-1 space-x-2 ${styles.warn}`}>
+            <span>⚠️ Nhãn chưa đăng ký; tải lên sẽ tạo lớp mới.</span>
+            {closest && (
+              <button type="button" className={styles.link} onClick={() => onChange(closest.label_original, closest)}>
+                Ý bạn là “{closest.label_original}”?
+              </button>
+            )}
+            {admin && slugify(value) && (
+              <button type="button" className={styles.link} onClick={register} disabled={registering}>
+                {registering ? "Đang đăng ký..." : `➕ Đăng ký “${value.trim()}”`}
+              </button>
+            )}
+          </div>
+        )
+      )}
+      {registerError && <p className={`text-xs mt-1 ${styles.error}`}>Không đăng ký được: {registerError}</p>}
+    </div>
+  );
+}
@@ -1,18 +1,37 @@
 import { useState } from "react";
-import { NavLink } from "react-router-dom";
+import { NavLink, useNavigate } from "react-router-dom";
 import type { ReactNode } from "react";
 import Button from "./ui/Button";
+import ToastContainer from "./ToastContainer";
+import { useOutbox } from "../hooks/useOutbox";
+import { useJobs } from "../hooks/useJobs";
+import { useAuth } from "../hooks/useAuth";
 
 export default function Layout({ children }: { children: ReactNode }) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  // Mounted app-wide so queued captures drain even when the capture page is closed
+  const { items: outboxItems, online } = useOutbox();
+  // Also app-wide, so upload jobs keep being polled and toasts fire on any page
+  const { jobs } = useJobs();
+  const activeJobs = jobs.filter((j) => j.state === "queued" || j.state === "processing").length;
+  const { user, isAdmin, logout } = useAuth();
+  const navigate = useNavigate();
 
+  const handleLogout = async () => {
+    await logout();
+    navigate("/upload");
+  };
+
+  // Admin-only pages are hidden rather than shown and then refused by RequireAdmin
   const navigation = [
-    { name: "Bảng điều khiển", href: "/dashboard", icon: "📊" },
+    { name: "Bảng điều khiển", href: "/dashboard", icon: "📊", admin: true },
     { name: "Tải lên", href: "/upload", icon: "📤" },
     { name: "Thư viện nhãn", href: "/labels", icon: "🏷️" },
-    { name: "Mẫu dữ liệu", href: "/samples", icon: "🎬" },
+    { name: "Mẫu dữ liệu", href: "/samples", icon: "🎬", admin: true },
+    { name: "Duyệt mẫu", href: "/review", icon: "✅", admin: true },
+    { name: "Độ đồng thuận", href: "/agreement", icon: "⚖️", admin: true },
     { name: "Công việc", href: "/jobs", icon: "⚙️" }
-  ];
+  ].filter((item) => !item.admin || isAdmin);
 
   const NavItem = ({ item }: { item: typeof navigation[0] }) => (
     <NavLink
@@ -106,8 +125,21 @@ export default function Layout({ children }: { children: ReactNode }) {
 
           <div className="flex items-center space-x-4">
             <div className="hidden sm:flex items-center space-x-2">
-              <div className="w-2 h-2 bg-emerald-400 rounded-full animate-pulse"></div>
-              <span className="text-sm text-slate-600">Đã kết nối</span>
+              <div className={`w-2 h-2 rounded-full ${online ? "bg-emerald-400 animate-pulse" : "bg-amber-400"}`}></div>
+              <span className="text-sm text-slate-600">{online ? "Đã kết nối" : "Ngoại tuyến"}</span>
+              {outboxItems.length > 0 && (
+                <span className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-2 py-0.5">
+                  {outboxItems.length} chờ gửi
+                </span>
+              )}
+              {activeJobs > 0 && (
+                <NavLink
+                  to="/jobs"
+                  className="text-xs text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-full px-2 py-0.5"
+                >
+                  {activeJobs} đang xử lý
+                </NavLink>
+              )}
             </div>
             
             {/* Theme and Settings */}
@@ -132,6 +164,17 @@ export default function Layout({ children }: { children: ReactNode }) {
               </button>
             </div>
             
+            {user ? (
+              <div className="flex items-center gap-2">
+                <span className="hidden sm:inline text-sm text-slate-700" title={user.role === "admin" ? "Quản trị viên" : "Người dùng"}>
+                  {user.role === "admin" ? "🛡️" : "👤"} {user.display_name || user.username}
+                </span>
+                <Button size="sm" variant="ghost" onClick={handleLogout}>Đăng xuất</Button>
+              </div>
+            ) : (
+              <Button size="sm" variant="secondary" onClick={() => navigate("/login")}>Đăng nhập</Button>
+            )}
+
             <Button size="sm">Phiên mới</Button>
           </div>
         </header>
@@ -143,6 +186,8 @@ export default function Layout({ children }: { children: ReactNode }) {
           </div>
         </main>
       </div>
+
+      <ToastContainer />
     </div>
   );
 }
@@ -0,0 +1,81 @@
+import { useMemo, useState } from "react";
+import type { ClassRow } from "../types";
+import { rankMatches } from "../utils/text";
+import Modal from "./ui/Modal";
+import Button from "./ui/Button";
+
+interface MergeClassModalProps {
+  source: ClassRow;
+  // Candidate targets (archived classes already excluded by the caller)
+  classes: ClassRow[];
+  sampleCounts: Record<string, number>;
+  onClose: () => void;
+  onMerge: (target: ClassRow) => void;
+}
+
+export default function MergeClassModal({ source, classes, sampleCounts, onClose, onMerge }: MergeClassModalProps) {
+  const [search, setSearch] = useState("");
+  const [targetUid, setTargetUid] = useState("");
+
+  const candidates = useMemo(() => {
+    const others = classes.filter((c) => c.class_uid !== source.class_uid);
+    return rankMatches(others, search, (c) => [c.label_original, c.slug], 50);
+  }, [classes, source.class_uid, search]);
+
+  const target = classes.find((c) => c.class_uid === targetUid);
+  const moving = sampleCounts[source.class_uid] ?? 0;
+
+  const confirmMerge = () => {
+    if (!target) return;
+    const ok = confirm(
+      `Gộp "${source.label_original}" (${moving} mẫu) vào "${target.label_original}"? ` +
+      `Nhãn "${source.label_original}" sẽ bị xóa khỏi danh sách.`,
+    );
+    if (!ok) return;
+    onMerge(target);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Gộp nhãn: ${source.label_original}`} size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Toàn bộ {moving} mẫu của <span className="font-semibold">{source.label_original}</span> ({source.slug}) sẽ được chuyển sang nhãn đích.
+        </p>
+        <input
+          type="search"
+          className="input w-full"
+          placeholder="Tìm nhãn đích..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          autoFocus
+        />
+        <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {candidates.length === 0 ? (
+            <div className="p-3 text-sm text-gray-500">Không có nhãn phù hợp</div>
+          ) : (
+            candidates.map((c) => (
+              <label
+                key={c.class_uid}
+                className={`flex items-center justify-between p-3 text-sm cursor-pointer ${c.class_uid === targetUid ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+              >
+                <span className="flex items-center gap-2">
+                  <input type="radio" checked={c.class_uid === targetUid} onChange={() => setTargetUid(c.class_uid)} />
+                  <span className="text-gray-900">{c.label_original}</span>
+                  <span className="text-xs text-gray-500 font-mono">{c.slug}</span>
+                </span>
+                <span className="text-xs text-gray-500">{c.dialect || '—'} • {sampleCounts[c.class_uid] ?? 0} mẫu</span>
+              </label>
+            ))
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onClose}>Hủy</Button>
+          <Button variant="danger" size="sm" onClick={confirmMerge} disabled={!target}>
+            Gộp vào nhãn đích
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
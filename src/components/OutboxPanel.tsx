@@ -0,0 +1,93 @@
+import { useOutbox } from "../hooks/useOutbox";
+import type { OutboxItem } from "../types";
+import Badge from "./ui/Badge";
+import Button from "./ui/Button";
+
+const statusBadge = (status: OutboxItem['status']) => {
+  const variants = {
+    pending: { variant: 'default' as const, text: 'Chờ gửi' },
+    sending: { variant: 'warning' as const, text: 'Đang gửi' },
+    failed: { variant: 'danger' as const, text: 'Lỗi' },
+    rejected: { variant: 'danger' as const, text: 'Bị từ chối' },
+  };
+  return variants[status];
+};
+
+export default function OutboxPanel() {
+  const { items, online, retry, discard, drain } = useOutbox();
+
+  if (items.length === 0 && online) return null;
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3">
+          <h3 className="text-sm font-medium text-gray-700">📮 Hàng đợi tải lên</h3>
+          <Badge variant={online ? "success" : "warning"} size="sm">
+            {online ? "Trực tuyến" : "Mất kết nối"}
+          </Badge>
+          {items.length > 0 && <Badge variant="info" size="sm">{items.length} mẫu</Badge>}
+        </div>
+        {items.length > 0 && (
+          <Button variant="secondary" size="sm" onClick={() => drain(true)} disabled={!online}>
+            Gửi tất cả
+          </Button>
+        )}
+      </div>
+
+      {!online && (
+        <p className="text-xs text-yellow-700 mb-3">
+          Các mẫu vừa thu được lưu trên máy này và sẽ tự động gửi khi có mạng trở lại.
+        </p>
+      )}
+
+      {items.length === 0 ? (
+        <div className="text-xs text-gray-500">Không có mẫu nào đang chờ</div>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {items.map((item) => {
+            const badge = statusBadge(item.status);
+            return (
+              <div key={item.id} className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-800 truncate">{item.payload.label}</span>
+                    <Badge variant={badge.variant} size="sm">{badge.text}</Badge>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {item.payload.user} • {item.payload.frames.length} khung • {new Date(item.created_at).toLocaleTimeString()}
+                    {item.attempts > 0 && ` • ${item.attempts} lần thử`}
+                  </div>
+                  {item.last_error && (
+                    <div className="text-xs text-red-600 truncate" title={item.last_error}>{item.last_error}</div>
+                  )}
+                  {item.status === 'rejected' && (
+                    <div className="text-xs text-gray-500">Máy chủ từ chối mẫu này nên không tự gửi lại. Sửa lỗi rồi bấm “Thử lại” hoặc bỏ mẫu.</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0 ml-3">
+                  <button
+                    onClick={() => retry(item.id)}
+                    disabled={item.status === 'sending' || !online}
+                    className="text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-40"
+                  >
+                    Thử lại
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Bỏ mẫu "${item.payload.label}"? Dữ liệu này sẽ bị mất.`)) discard(item.id);
+                    }}
+                    disabled={item.status === 'sending'}
+                    className="text-xs text-red-600 hover:text-red-700 font-medium disabled:opacity-40"
+                  >
+                    Bỏ
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,39 +1,86 @@
-import { useEffect, useRef } from "react";
-
-export default function PreviewModal({ frames, onConfirm, onDiscard }: { frames: number[][]; onConfirm: () => void; onDiscard: () => void }) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  useEffect(() => {
-    let frame = 0;
-    const ctx = canvasRef.current?.getContext("2d");
-    const timer = setInterval(() => {
-      if (!ctx) return;
-      ctx.clearRect(0, 0, 400, 400);
-
-      const kp = frames[frame];
-      ctx.fillStyle = "blue";
-      for (let i = 0; i < kp.length; i += 2) {
-        ctx.beginPath();
-        ctx.arc(kp[i] * 400, kp[i + 1] * 400, 4, 0, Math.PI * 2);
-        ctx.fill();
-      }
-      frame = (frame + 1) % frames.length;
-    }, 100);
-
-    return () => clearInterval(timer);
-  }, [frames]);
+import SkeletonPlayer from "./SkeletonPlayer";
+import Badge from "./ui/Badge";
+import type { CapturedFrame, QualityInfo, SegmentInfo } from "../types";
+import { qualityVariant } from "../utils/quality";
+
+interface PreviewModalProps {
+  frames: CapturedFrame[];
+  quality?: QualityInfo;
+  segment?: SegmentInfo;
+  label?: string;
+  mirror?: boolean;
+  onConfirm: () => void;
+  onDiscard: () => void;
+}
+
+const formatPercent = (value?: number) => (typeof value === "number" ? `${value.toFixed(0)}%` : "—");
+
+// Review step shown after a take: replay the skeleton, check the quality
+// summary, then keep the sample or discard it and record again.
+export default function PreviewModal({ frames, quality, segment, label, mirror, onConfirm, onDiscard }: PreviewModalProps) {
+  const durationMs = frames.length > 0 ? frames[frames.length - 1].timestamp - frames[0].timestamp : 0;
+  const fallbackFrames = frames.filter((f) => f.source?.left === "fallback" || f.source?.right === "fallback").length;
+
+  const rows: Array<[string, string]> = [
+    ["Số khung", `${quality?.framesCollected ?? frames.length}`],
+    ["Thời lượng", `${(durationMs / 1000).toFixed(2)}s`],
+    ["Khung có tay", formatPercent(quality?.percentFramesWithHands)],
+    ["Khung giữ tạm (mất tay)", `${fallbackFrames}`],
+  ];
+  if (segment) {
+    rows.push([
+      "Đoạn giữ lại",
+      segment.detected ? `${segment.start + 1}–${segment.end + 1} / ${segment.source_frames}` : "Không phát hiện chuyển động",
+    ]);
+  }
+  if (quality?.percentFramesWithPose !== undefined) rows.push(["Khung có cơ thể", formatPercent(quality.percentFramesWithPose)]);
+  if (quality?.percentFramesWithFace !== undefined) rows.push(["Khung có khuôn mặt", formatPercent(quality.percentFramesWithFace)]);
 
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center">
-      <div className="bg-white p-6 rounded shadow-lg w-[500px]">
-        <h2 className="text-xl font-bold mb-3">Preview Recording</h2>
-        <canvas ref={canvasRef} width={400} height={400} className="border mb-3" />
-        <div className="flex justify-end space-x-2">
-          <button className="bg-red-500 text-white px-4 py-2 rounded" onClick={onDiscard}>
-            Discard
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-30">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl p-6 w-[760px] max-w-[95vw]">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-white">🔍 Xem lại mẫu</h3>
+          <div className="flex items-center gap-3">
+            {typeof quality?.score === "number" && (
+              <Badge variant={qualityVariant(quality.score)}>Chất lượng {quality.score}/100</Badge>
+            )}
+            {label && <span className="text-lg font-semibold text-green-400">{label}</span>}
+          </div>
+        </div>
+
+        <SkeletonPlayer frames={frames} mirror={mirror} />
+
+        <div className="grid grid-cols-3 gap-2 mt-4">
+          {rows.map(([name, value]) => (
+            <div key={name} className="bg-gray-800 rounded-lg px-3 py-2">
+              <div className="text-xs text-gray-400">{name}</div>
+              <div className="text-white font-medium">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {(quality?.issues?.length ?? 0) > 0 && (
+          <div className={`mt-4 rounded-lg border px-4 py-3 text-sm ${quality?.flagged ? "border-red-700 bg-red-900/30 text-red-200" : "border-yellow-700 bg-yellow-900/30 text-yellow-200"}`}>
+            <div className="font-medium mb-1">{quality?.flagged ? "Mẫu này sẽ bị đánh dấu, nên ghi lại:" : "Lưu ý:"}</div>
+            <ul className="space-y-0.5">
+              {quality?.issues?.map((issue) => <li key={issue.code}>⚠️ {issue.message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3 mt-6">
+          <button
+            onClick={onDiscard}
+            className="px-4 py-3 bg-red-600 hover:bg-red-500 text-white rounded-lg font-medium transition-colors"
+          >
+            Bỏ và ghi lại (R)
           </button>
-          <button className="bg-green-600 text-white px-4 py-2 rounded" onClick={onConfirm}>
-            Confirm & Upload
+          <button
+            onClick={onConfirm}
+            className="px-4 py-3 bg-green-600 hover:bg-green-500 text-white rounded-lg font-medium transition-colors"
+          >
+            Lưu mẫu (Enter)
           </button>
         </div>
       </div>
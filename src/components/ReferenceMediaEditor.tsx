@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import type { ReferenceMedia } from "../types";
+import { deleteClassReference, getClassReference, isImageUrl, saveClassReference } from "../api/references";
+import { validateReferenceFrames } from "../api/validators";
+import Modal from "./ui/Modal";
+import Button from "./ui/Button";
+import SkeletonPlayer from "./SkeletonPlayer";
+
+interface ReferenceMediaEditorProps {
+  classUid: string;
+  label: string;
+  initial?: ReferenceMedia | null;
+  onClose: () => void;
+  onSaved: (media: ReferenceMedia | null) => void;
+  // Preview only, for non-admins: no source controls, save or delete
+  readOnly?: boolean;
+}
+
+// Manage the demonstration shown to signers for one class: a video / GIF URL
+// or a landmark sequence imported from a JSON export of a sample.
+export default function ReferenceMediaEditor({ classUid, label, initial, onClose, onSaved, readOnly = false }: ReferenceMediaEditorProps) {
+  const [current, setCurrent] = useState<ReferenceMedia | null>(initial ?? null);
+  const [draft, setDraft] = useState<ReferenceMedia | null>(initial ?? null);
+  const [kind, setKind] = useState<ReferenceMedia["type"]>(initial?.type ?? "video");
+  const [url, setUrl] = useState(initial?.type === "video" ? initial.url : "");
+  const [loading, setLoading] = useState(!initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initial) return;
+    let mounted = true;
+    getClassReference(classUid).then((res) => {
+      if (!mounted) return;
+      setLoading(false);
+      if (!res.ok) {
+        setError(res.error);
+        return;
+      }
+      setCurrent(res.data);
+      setDraft(res.data);
+      if (res.data) {
+        setKind(res.data.type);
+        if (res.data.type === "video") setUrl(res.data.url);
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [classUid, initial]);
+
+  const applyUrl = (value: string) => {
+    setUrl(value);
+    setDraft(value.trim() ? { type: "video", url: value.trim() } : null);
+  };
+
+  const importFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = validateReferenceFrames(JSON.parse(await file.text()));
+      if (!parsed.ok) {
+        setError(`Tệp không hợp lệ: ${parsed.error}`);
+        return;
+      }
+      setDraft({ type: "landmarks", frames: parsed.data });
+    } catch {
+      setError("Tệp không phải JSON hợp lệ");
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    const res = await saveClassReference(classUid, draft);
+    setSaving(false);
+    if (!res.ok) {
+      setError(res.error);
+      return;
+    }
+    onSaved(res.data);
+    onClose();
+  };
+
+  const remove = async () => {
+    if (!confirm(`Xóa mẫu tham chiếu của "${label}"?`)) return;
+    setSaving(true);
+    setError(null);
+    const res = await deleteClassReference(classUid);
+    setSaving(false);
+    if (!res.ok) {
+      setError(res.error);
+      return;
+    }
+    onSaved(null);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Mẫu tham chiếu: ${label}`} size="lg">
+      <div className="space-y-4">
+        {loading && <p className="text-sm text-gray-500">Đang tải mẫu hiện tại...</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {readOnly && !loading && !draft && <p className="text-sm text-gray-500">Lớp này chưa có mẫu tham chiếu.</p>}
+
+        {!readOnly && (
+          <div className="space-y-4">
+            <div className="flex gap-4 text-sm">
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={kind === "video"} onChange={() => {
+                  setKind("video");
+                  setDraft(url.trim() ? { type: "video", url: url.trim() } : null);
+                }} />
+                Video / GIF (URL)
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={kind === "landmarks"} onChange={() => {
+                  setKind("landmarks");
+                  setDraft(current?.type === "landmarks" ? current : null);
+                }} />
+                Chuỗi landmark (JSON)
+              </label>
+            </div>
+
+            {kind === "video" ? (
+              <input
+                type="url"
+                className="input w-full"
+                placeholder="https://.../mau-ky-hieu.mp4"
+                value={url}
+                onChange={(e) => applyUrl(e.target.value)}
+              />
+            ) : (
+              <div>
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void importFile(file);
+                  }}
+                  className="text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Danh sách khung hình hoặc payload /upload/camera đã xuất (có trường <code>frames</code>).
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {draft && (
+          <div className="bg-gray-900 rounded-lg p-3">
+            {draft.type === "landmarks" ? (
+              <SkeletonPlayer frames={draft.frames} width={480} height={320} />
+            ) : isImageUrl(draft.url) ? (
+              <img src={draft.url} alt={`Mẫu ký hiệu ${label}`} className="w-full max-h-80 object-contain rounded" />
+            ) : (
+              <video src={draft.url} className="w-full max-h-80 rounded" controls loop muted playsInline />
+            )}
+          </div>
+        )}
+
+        {readOnly ? (
+          <div className="flex justify-end pt-2">
+            <Button variant="secondary" size="sm" onClick={onClose}>Đóng</Button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between pt-2">
+            <div>
+              {current && (
+                <Button variant="danger" size="sm" onClick={remove} disabled={saving}>
+                  Xóa mẫu
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" onClick={onClose}>Hủy</Button>
+              <Button size="sm" onClick={save} loading={saving} disabled={!draft || saving}>
+                Lưu
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,102 @@
+import { useRef, useState } from "react";
+import type { ReferenceMedia } from "../types";
+import { isImageUrl } from "../api/references";
+import SkeletonPlayer from "./SkeletonPlayer";
+
+interface ReferencePipProps {
+  media: ReferenceMedia;
+  label: string;
+}
+
+// Picture-in-picture demonstration of the sign about to be recorded. Shown by
+// FullscreenCaptureModal before and during the countdown.
+export default function ReferencePip({ media, label }: ReferencePipProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [collapsed, setCollapsed] = useState(false);
+  const [playing, setPlaying] = useState(true);
+  // Bumped to remount the image / skeleton player from the first frame
+  const [replayKey, setReplayKey] = useState(0);
+
+  const replay = () => {
+    const video = videoRef.current;
+    if (video) {
+      video.currentTime = 0;
+      void video.play();
+      setPlaying(true);
+    } else {
+      setReplayKey((k) => k + 1);
+    }
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) void video.play();
+    else video.pause();
+  };
+
+  if (collapsed) {
+    return (
+      <button
+        type="button"
+        onClick={() => setCollapsed(false)}
+        className="absolute bottom-6 right-6 z-30 bg-gray-900/90 border border-gray-600 text-white text-sm px-3 py-2 rounded-lg"
+      >
+        🎬 Xem mẫu
+      </button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-6 right-6 z-30 w-80 bg-gray-900/95 border border-gray-600 rounded-xl p-3 shadow-2xl">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-white truncate">🎬 Mẫu: {label}</span>
+        <button
+          type="button"
+          onClick={() => setCollapsed(true)}
+          className="text-gray-400 hover:text-white text-sm px-1"
+          title="Thu nhỏ"
+        >
+          ✕
+        </button>
+      </div>
+
+      {media.type === "landmarks" ? (
+        <SkeletonPlayer key={replayKey} frames={media.frames} width={320} height={240} keyboard={false} />
+      ) : isImageUrl(media.url) ? (
+        <img key={replayKey} src={media.url} alt={`Mẫu ký hiệu ${label}`} className="w-full rounded-lg bg-black" />
+      ) : (
+        <video
+          ref={videoRef}
+          src={media.url}
+          className="w-full rounded-lg bg-black"
+          autoPlay
+          loop
+          muted
+          playsInline
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+        />
+      )}
+
+      <div className="flex gap-2 mt-2">
+        {media.type === "video" && !isImageUrl(media.url) && (
+          <button
+            type="button"
+            onClick={togglePlay}
+            className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs"
+          >
+            {playing ? "⏸ Dừng" : "▶ Phát"}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={replay}
+          className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs"
+        >
+          ↺ Xem lại
+        </button>
+      </div>
+    </div>
+  );
+}
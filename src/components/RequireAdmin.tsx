@@ -0,0 +1,27 @@
+import type { ReactNode } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import LoadingSpinner from "./ui/LoadingSpinner";
+
+// Route guard: anonymous visitors go to /login (and come back after), signed-in
+// non-admins get a notice instead of the page
+export default function RequireAdmin({ children }: { children: ReactNode }) {
+  const { user, isAdmin, checking } = useAuth();
+  const location = useLocation();
+
+  if (checking) {
+    return <div className="flex items-center justify-center py-16"><LoadingSpinner size="lg" /></div>;
+  }
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
+  }
+  if (!isAdmin) {
+    return (
+      <div className="card text-center py-12 text-gray-600 space-y-2">
+        <div>Tài khoản <span className="font-medium">{user.display_name || user.username}</span> không có quyền quản trị.</div>
+        <Link to="/upload" className="text-indigo-600 hover:underline text-sm">Về trang tải lên</Link>
+      </div>
+    );
+  }
+  return <>{children}</>;
+}
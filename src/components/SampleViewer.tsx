@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { HAND_CONNECTIONS, POSE_CONNECTIONS } from "@mediapipe/holistic";
+import type { CapturedFrame, MediaPipeLandmark } from "../types";
+
+interface SampleViewerProps {
+  frames: CapturedFrame[];
+  width?: number;
+  height?: number;
+  autoPlay?: boolean;
+}
+
+type View = { yaw: number; pitch: number };
+
+const DEFAULT_FRAME_MS = 33;
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+const FRONT: View = { yaw: 0, pitch: 0 };
+const PRESETS: Array<{ name: string; view: View }> = [
+  { name: "Front", view: FRONT },
+  { name: "Side", view: { yaw: Math.PI / 2, pitch: 0 } },
+  { name: "Top", view: { yaw: 0, pitch: -Math.PI / 2 + 0.01 } },
+];
+// Radians per dragged pixel
+const DRAG_SPEED = 0.01;
+
+const COLORS = { left: "#FF6B35", right: "#4ECDC4", pose: "#00FF88", face: "#9CA3AF" };
+
+// Centre and size of everything the sample ever shows, so the skeleton
+// doesn't jump around as hands enter and leave the frame
+const sampleBounds = (frames: CapturedFrame[]) => {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity, sumZ = 0, n = 0;
+  for (const f of frames) {
+    for (const p of [...f.left_hand, ...f.right_hand, ...(f.pose ?? [])]) {
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y);
+      maxY = Math.max(maxY, p.y);
+      sumZ += p.z ?? 0;
+      n++;
+    }
+  }
+  if (n === 0) return { cx: 0.5, cy: 0.5, cz: 0, size: 1 };
+  return { cx: (minX + maxX) / 2, cy: (minY + maxY) / 2, cz: sumZ / n, size: Math.max(maxX - minX, maxY - minY, 0.05) };
+};
+
+// Replays decoded sample frames as a rotatable 3D skeleton (drag to orbit).
+// Hands use their z coordinate; a strip under the scrubber shows in which
+// frames each hand was detected.
+export default function SampleViewer({ frames, width = 640, height = 420, autoPlay = true }: SampleViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stripRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: View } | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(autoPlay);
+  const [speed, setSpeed] = useState(1);
+  const [view, setView] = useState<View>(FRONT);
+
+  const total = frames.length;
+  const current = frames[Math.min(index, total - 1)];
+  const bounds = useMemo(() => sampleBounds(frames), [frames]);
+  const presence = useMemo(() => ({
+    left: frames.filter((f) => f.left_hand.length > 0).length,
+    right: frames.filter((f) => f.right_hand.length > 0).length,
+  }), [frames]);
+
+  const draw = useCallback((frame: CapturedFrame | undefined) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = "#111827";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (!frame) return;
+
+    const scale = (Math.min(canvas.width, canvas.height) * 0.8) / bounds.size;
+    const cosY = Math.cos(view.yaw), sinY = Math.sin(view.yaw);
+    const cosP = Math.cos(view.pitch), sinP = Math.sin(view.pitch);
+    const project = (p: MediaPipeLandmark) => {
+      const x = p.x - bounds.cx;
+      const y = p.y - bounds.cy;
+      const z = (p.z ?? 0) - bounds.cz;
+      const x1 = x * cosY + z * sinY;
+      const z1 = -x * sinY + z * cosY;
+      const y2 = y * cosP - z1 * sinP;
+      const z2 = y * sinP + z1 * cosP;
+      return { x: canvas.width / 2 + x1 * scale, y: canvas.height / 2 + y2 * scale, depth: z2 / bounds.size };
+    };
+    // Nearer points (negative depth, MediaPipe convention) are drawn larger and brighter
+    const near = (depth: number) => Math.max(0.35, Math.min(1, 0.7 - depth));
+
+    const drawPart = (points: MediaPipeLandmark[], connections: Array<[number, number]>, color: string, radius: number) => {
+      if (points.length === 0) return;
+      const projected = points.map(project);
+      ctx.strokeStyle = color;
+      for (const [a, b] of connections) {
+        const pa = projected[a], pb = projected[b];
+        if (!pa || !pb) continue;
+        ctx.globalAlpha = near((pa.depth + pb.depth) / 2);
+        ctx.lineWidth = 1 + 2 * ctx.globalAlpha;
+        ctx.beginPath();
+        ctx.moveTo(pa.x, pa.y);
+        ctx.lineTo(pb.x, pb.y);
+        ctx.stroke();
+      }
+      ctx.fillStyle = color;
+      for (const p of projected) {
+        ctx.globalAlpha = near(p.depth);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, radius * near(p.depth) + 1, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+      ctx.globalAlpha = 1;
+    };
+
+    if (frame.face) drawPart(frame.face, [], COLORS.face, 0.5);
+    if (frame.pose) drawPart(frame.pose, POSE_CONNECTIONS, COLORS.pose, 2);
+    drawPart(frame.left_hand, HAND_CONNECTIONS, COLORS.left, 3);
+    drawPart(frame.right_hand, HAND_CONNECTIONS, COLORS.right, 3);
+
+    // Presence overlay for the current frame
+    ctx.font = "12px ui-monospace, monospace";
+    ctx.fillStyle = frame.left_hand.length > 0 ? COLORS.left : "#4B5563";
+    ctx.fillText(`L ${frame.left_hand.length > 0 ? "●" : "○"}`, 10, 18);
+    ctx.fillStyle = frame.right_hand.length > 0 ? COLORS.right : "#4B5563";
+    ctx.fillText(`R ${frame.right_hand.length > 0 ? "●" : "○"}`, 44, 18);
+  }, [bounds, view]);
+
+  useEffect(() => {
+    draw(current);
+  }, [current, draw]);
+
+  // Per-frame presence strip: left hand on top, right hand below, cursor at the current frame
+  useEffect(() => {
+    const strip = stripRef.current;
+    const ctx = strip?.getContext("2d");
+    if (!strip || !ctx) return;
+    ctx.clearRect(0, 0, strip.width, strip.height);
+    if (total === 0) return;
+    const w = strip.width / Math.max(1, total);
+    const row = strip.height / 2;
+    frames.forEach((f, i) => {
+      ctx.fillStyle = f.left_hand.length > 0 ? COLORS.left : "#1F2937";
+      ctx.fillRect(i * w, 0, Math.ceil(w), row - 1);
+      ctx.fillStyle = f.right_hand.length > 0 ? COLORS.right : "#1F2937";
+      ctx.fillRect(i * w, row, Math.ceil(w), row - 1);
+    });
+    ctx.fillStyle = "#FFFFFF";
+    ctx.fillRect(Math.min(index, total - 1) * w, 0, Math.max(1, Math.min(2, w)), strip.height);
+  }, [frames, index, total]);
+
+  // Reset when another sample is loaded
+  useEffect(() => {
+    setIndex(0);
+    setPlaying(autoPlay);
+  }, [frames, autoPlay]);
+
+  useEffect(() => {
+    if (!playing || total === 0) return;
+    const next = (index + 1) % total;
+    const delta = next === 0 ? DEFAULT_FRAME_MS * 10 : frames[next].timestamp - frames[index].timestamp;
+    const timer = setTimeout(() => setIndex(next), (delta > 0 ? delta : DEFAULT_FRAME_MS) / speed);
+    return () => clearTimeout(timer);
+  }, [playing, index, total, frames, speed]);
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    setIndex((i) => Math.max(0, Math.min(total - 1, i + delta)));
+  };
+
+  const onPointerDown = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view };
+  };
+
+  const onPointerMove = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const limit = Math.PI / 2 - 0.01;
+    setView({
+      yaw: drag.view.yaw + (e.clientX - drag.x) * DRAG_SPEED,
+      pitch: Math.max(-limit, Math.min(limit, drag.view.pitch - (e.clientY - drag.y) * DRAG_SPEED)),
+    });
+  };
+
+  const seekFromStrip = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const i = Math.floor(((e.clientX - rect.left) / rect.width) * total);
+    setPlaying(false);
+    setIndex(Math.max(0, Math.min(total - 1, i)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="w-full rounded-lg border border-gray-700 cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerCancel={() => { dragRef.current = null; }}
+        title="Drag to rotate"
+      />
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => step(-1)}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+          title="Previous frame"
+        >
+          ◀
+        </button>
+        <button
+          type="button"
+          onClick={() => setPlaying((p) => !p)}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm w-20"
+        >
+          {playing ? "⏸ Pause" : "▶ Play"}
+        </button>
+        <button
+          type="button"
+          onClick={() => step(1)}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+          title="Next frame"
+        >
+          ▶
+        </button>
+        <div className="flex-1 space-y-1">
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, total - 1)}
+            value={Math.min(index, Math.max(0, total - 1))}
+            onChange={(e) => {
+              setPlaying(false);
+              setIndex(Number(e.target.value));
+            }}
+            className="w-full"
+          />
+          <canvas
+            ref={stripRef}
+            width={600}
+            height={12}
+            className="w-full h-3 rounded cursor-pointer"
+            onPointerDown={seekFromStrip}
+            title="Hand presence per frame (top: left, bottom: right)"
+          />
+        </div>
+        <span className="text-xs text-gray-500 tabular-nums w-28 text-right">
+          {total > 0 ? `${index + 1}/${total} • ${((current?.timestamp ?? 0) / 1000).toFixed(2)}s` : "0/0"}
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-gray-600">
+        <div className="flex items-center gap-2">
+          <span>Speed</span>
+          <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className="input py-1 text-xs w-20">
+            {SPEEDS.map((s) => <option key={s} value={s}>{s}×</option>)}
+          </select>
+          <span className="ml-2">View</span>
+          {PRESETS.map((p) => (
+            <button
+              key={p.name}
+              type="button"
+              onClick={() => setView(p.view)}
+              className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <span style={{ color: COLORS.left }}>● Left {total > 0 ? Math.round((presence.left / total) * 100) : 0}%</span>
+          <span style={{ color: COLORS.right }}>● Right {total > 0 ? Math.round((presence.right / total) * 100) : 0}%</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import type { Sample } from "../types";
+import type { GuidedSession, Sample } from "../types";
 import Badge from "./ui/Badge";
 import Button from "./ui/Button";
 
@@ -7,9 +7,29 @@ interface SessionPanelProps {
   samples: Sample[];
   onFinish: () => void;
   onDelete: (id: number) => void;
+  // Progress through a guided (worklist) session, when one is running
+  guided?: GuidedSession | null;
+  onResumeGuided?: () => void;
+  onEndGuided?: () => void;
 }
 
-export default function SessionPanel({ sessionId, samples, onFinish, onDelete }: SessionPanelProps) {
+type GuidedStatus = 'done' | 'current' | 'skipped' | 'pending';
+
+const guidedStatus = (guided: GuidedSession, i: number): GuidedStatus => {
+  const takes = guided.takes[guided.classes[i].class_uid] ?? 0;
+  if (takes >= guided.takes_per_class) return 'done';
+  if (i === guided.index) return 'current';
+  return i < guided.index ? 'skipped' : 'pending';
+};
+
+const STATUS_BADGE: Record<GuidedStatus, { variant: 'success' | 'info' | 'warning' | 'default'; text: string }> = {
+  done: { variant: 'success', text: '✓ Done' },
+  current: { variant: 'info', text: '● Current' },
+  skipped: { variant: 'warning', text: 'Skipped' },
+  pending: { variant: 'default', text: 'Pending' },
+};
+
+export default function SessionPanel({ sessionId, samples, onFinish, onDelete, guided, onResumeGuided, onEndGuided }: SessionPanelProps) {
   const handleDelete = (id: number) => {
     if (confirm("Are you sure you want to delete this sample?")) {
       onDelete(id);
@@ -18,6 +38,7 @@ export default function SessionPanel({ sessionId, samples, onFinish, onDelete }:
 
   const totalFrames = samples.reduce((sum, sample) => sum + (sample.frames || 0), 0);
   const avgFrames = samples.length > 0 ? (totalFrames / samples.length).toFixed(1) : 0;
+  const guidedDone = guided ? guided.classes.filter((_, i) => guidedStatus(guided, i) === 'done').length : 0;
 
   return (
     <div className="card">
@@ -59,6 +80,49 @@ export default function SessionPanel({ sessionId, samples, onFinish, onDelete }:
         </div>
       </div>
 
+      {/* Guided session progress */}
+      {guided && guided.classes.length > 0 && (
+        <div className="mb-6 p-4 border border-green-200 bg-green-50 rounded-xl">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-green-900">
+              Worklist: {guidedDone} / {guided.classes.length} signs done
+            </span>
+            <div className="flex items-center gap-2">
+              {onResumeGuided && guided.index < guided.classes.length && (
+                <Button size="sm" variant="primary" onClick={onResumeGuided}>Resume</Button>
+              )}
+              {onEndGuided && (
+                <Button size="sm" variant="ghost" onClick={onEndGuided}>End</Button>
+              )}
+            </div>
+          </div>
+          <div className="w-full bg-green-100 rounded-full h-2 mb-3">
+            <div
+              className="bg-green-500 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${(guidedDone / guided.classes.length) * 100}%` }}
+            />
+          </div>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {guided.classes.map((c, i) => {
+              const status = STATUS_BADGE[guidedStatus(guided, i)];
+              return (
+                <div key={c.class_uid} className="flex items-center justify-between text-sm px-2 py-1 bg-white rounded">
+                  <span className="text-gray-800">
+                    {i + 1}. {c.label_original}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-500">
+                      {guided.takes[c.class_uid] ?? 0}/{guided.takes_per_class}
+                    </span>
+                    <Badge variant={status.variant} size="sm">{status.text}</Badge>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Session ID */}
       <div className="flex items-center justify-between p-3 bg-indigo-50 rounded-lg mb-6">
         <div className="flex items-center">
@@ -97,10 +161,10 @@ export default function SessionPanel({ sessionId, samples, onFinish, onDelete }:
                   <div className="flex items-center space-x-2">
                     <span className="font-medium text-gray-900">Sample #{sample.id ?? idx + 1}</span>
                     <Badge 
-                      variant={sample.uploaded ? "success" : "warning"} 
+                      variant={sample.uploaded ? "success" : sample.upload_error ? "danger" : "warning"} 
                       size="sm"
                     >
-                      {sample.uploaded ? "✓ Uploaded" : "⏳ Processing"}
+                      {sample.uploaded ? "✓ Uploaded" : sample.upload_error ? "✗ Failed" : "⏳ Processing"}
                     </Badge>
                   </div>
                   <div className="text-sm text-gray-600">
@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import Button from "./ui/Button";
+import { createSigner, currentConsent, getRecentSignerIds, recordConsent, rememberSigner } from "../api/signers";
+import { invalidateSigners, useSigners } from "../hooks/useSigners";
+import {
+  AGE_BRACKET_NAMES,
+  CONSENT_PARAGRAPHS,
+  CONSENT_TITLE,
+  CONSENT_VERSION,
+  HANDEDNESS_NAMES,
+  HEARING_STATUS_NAMES,
+} from "../config/consent";
+import { DIALECT_NAMES } from "../utils/dialects";
+import { notify } from "../utils/notify";
+import type { AgeBracket, Handedness, HearingStatus, SignerInput, SignerProfile } from "../types";
+
+interface SignerPickerProps {
+  value: SignerProfile | null;
+  // Called with the chosen profile; it is only usable for recording once
+  // `currentConsent(signer)` is set, which the picker asks for in place
+  onChange: (signer: SignerProfile | null) => void;
+  disabled?: boolean;
+  tone?: "light" | "dark";
+  inputClassName?: string;
+}
+
+const NEW_OPTION = "__new__";
+
+const EMPTY_INPUT: SignerInput = {
+  display_name: "",
+  dialect_region: "",
+  hearing_status: "undisclosed",
+  handedness: "right",
+  age_bracket: "undisclosed",
+};
+
+const TONES = {
+  light: {
+    label: "text-xs font-medium text-gray-700",
+    muted: "text-gray-500",
+    panel: "rounded-lg border border-blue-200 bg-white p-3",
+    consent: "rounded-lg border border-amber-300 bg-amber-50 p-3 text-gray-800",
+    warn: "text-yellow-700",
+    ok: "text-green-700",
+  },
+  dark: {
+    label: "text-xs font-medium text-blue-300",
+    muted: "text-gray-400",
+    panel: "rounded-lg border border-gray-600 bg-gray-800/60 p-3",
+    consent: "rounded-lg border border-amber-500/50 bg-amber-900/20 p-3 text-gray-100",
+    warn: "text-yellow-400",
+    ok: "text-green-400",
+  },
+};
+
+// Short description of a profile for lists and summaries
+const describeSigner = (s: SignerProfile) =>
+  [
+    s.dialect_region ? DIALECT_NAMES[s.dialect_region] ?? s.dialect_region : null,
+    s.hearing_status !== "undisclosed" ? HEARING_STATUS_NAMES[s.hearing_status] : null,
+    HANDEDNESS_NAMES[s.handedness],
+    s.age_bracket !== "undisclosed" ? AGE_BRACKET_NAMES[s.age_bracket] : null,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+
+// Chooses the signer for a capture/upload session from the registered
+// profiles (recent ones first), creates new profiles, and records acceptance
+// of the current consent form before anything can be recorded.
+export default function SignerPicker({ value, onChange, disabled, tone = "light", inputClassName = "input text-sm w-full" }: SignerPickerProps) {
+  const { signers, loading, error } = useSigners();
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState<SignerInput>(EMPTY_INPUT);
+  const [saving, setSaving] = useState(false);
+  const [agreed, setAgreed] = useState(false);
+  const styles = TONES[tone];
+
+  // Re-read on every render so a profile picked in another form shows up as recent
+  const recentIds = getRecentSignerIds();
+  const recent = recentIds.map((id) => signers.find((s) => s.signer_id === id)).filter((s): s is SignerProfile => !!s);
+  const byName = useMemo(() => [...signers].sort((a, b) => a.display_name.localeCompare(b.display_name, "vi")), [signers]);
+  const others = byName.filter((s) => !recentIds.includes(s.signer_id));
+
+  const consent = currentConsent(value);
+
+  const select = (id: string) => {
+    setAgreed(false);
+    if (id === NEW_OPTION) {
+      setCreating(true);
+      return;
+    }
+    setCreating(false);
+    const signer = signers.find((s) => s.signer_id === id) ?? null;
+    if (signer) rememberSigner(signer.signer_id);
+    onChange(signer);
+  };
+
+  const saveDraft = async () => {
+    if (!draft.display_name.trim()) {
+      notify("Nhập tên hiển thị cho người ký hiệu", "warning");
+      return;
+    }
+    setSaving(true);
+    const res = await createSigner({ ...draft, display_name: draft.display_name.trim(), dialect_region: draft.dialect_region || undefined });
+    setSaving(false);
+    if (!res.ok) {
+      notify(`Không tạo được hồ sơ: ${res.error}`, "error");
+      return;
+    }
+    rememberSigner(res.data.signer_id);
+    invalidateSigners();
+    setCreating(false);
+    setDraft(EMPTY_INPUT);
+    onChange(res.data);
+  };
+
+  const acceptConsent = async () => {
+    if (!value) return;
+    setSaving(true);
+    const res = await recordConsent(value.signer_id);
+    setSaving(false);
+    if (!res.ok) {
+      notify(`Không ghi nhận được sự đồng ý: ${res.error}`, "error");
+      return;
+    }
+    invalidateSigners();
+    setAgreed(false);
+    onChange(res.data);
+    notify(`Đã ghi nhận đồng ý của ${res.data.display_name}`, "success");
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        className={inputClassName}
+        value={creating ? NEW_OPTION : value?.signer_id ?? ""}
+        onChange={(e) => select(e.target.value)}
+        disabled={disabled || saving}
+      >
+        <option value="">{loading ? "Đang tải hồ sơ..." : "— Chọn người ký hiệu —"}</option>
+        {recent.length > 0 && (
+          <optgroup label="Gần đây">
+            {recent.map((s) => <option key={s.signer_id} value={s.signer_id}>{s.display_name}</option>)}
+          </optgroup>
+        )}
+        {others.length > 0 && (
+          <optgroup label={recent.length > 0 ? "Tất cả" : "Hồ sơ"}>
+            {others.map((s) => <option key={s.signer_id} value={s.signer_id}>{s.display_name}</option>)}
+          </optgroup>
+        )}
+        <option value={NEW_OPTION}>+ Tạo hồ sơ mới...</option>
+      </select>
+      {error && <p className={`text-xs ${styles.warn}`}>⚠️ Không tải được danh sách hồ sơ ({error})</p>}
+
+      {creating && (
+        <div className={`${styles.panel} space-y-2`}>
+          <div>
+            <label className={`${styles.label} block mb-1`}>Tên hiển thị *</label>
+            <input
+              className={inputClassName}
+              value={draft.display_name}
+              onChange={(e) => setDraft({ ...draft, display_name: e.target.value })}
+              placeholder="ví dụ: Trân"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={`${styles.label} block mb-1`}>Vùng phương ngữ</label>
+              <select className={inputClassName} value={draft.dialect_region ?? ""} onChange={(e) => setDraft({ ...draft, dialect_region: e.target.value })}>
+                <option value="">Không rõ</option>
+                {Object.entries(DIALECT_NAMES).filter(([slug]) => slug !== "common").map(([slug, name]) => (
+                  <option key={slug} value={slug}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={`${styles.label} block mb-1`}>Thính lực</label>
+              <select className={inputClassName} value={draft.hearing_status} onChange={(e) => setDraft({ ...draft, hearing_status: e.target.value as HearingStatus })}>
+                {Object.entries(HEARING_STATUS_NAMES).map(([key, name]) => <option key={key} value={key}>{name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={`${styles.label} block mb-1`}>Tay thuận</label>
+              <select className={inputClassName} value={draft.handedness} onChange={(e) => setDraft({ ...draft, handedness: e.target.value as Handedness })}>
+                {Object.entries(HANDEDNESS_NAMES).map(([key, name]) => <option key={key} value={key}>{name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={`${styles.label} block mb-1`}>Nhóm tuổi</label>
+              <select className={inputClassName} value={draft.age_bracket} onChange={(e) => setDraft({ ...draft, age_bracket: e.target.value as AgeBracket })}>
+                {Object.entries(AGE_BRACKET_NAMES).map(([key, name]) => <option key={key} value={key}>{name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setCreating(false)}>Huỷ</Button>
+            <Button size="sm" onClick={saveDraft} loading={saving}>Lưu hồ sơ</Button>
+          </div>
+        </div>
+      )}
+
+      {!creating && value && !consent && (
+        <div className={`${styles.consent} space-y-2`}>
+          <div className="text-sm font-semibold">📝 {CONSENT_TITLE} <span className={`font-normal ${styles.muted}`}>(phiên bản {CONSENT_VERSION})</span></div>
+          {value.consent && (
+            <p className={`text-xs ${styles.warn}`}>Phiếu đã thay đổi kể từ lần đồng ý trước (phiên bản {value.consent.version}), cần đồng ý lại.</p>
+          )}
+          <div className="max-h-40 overflow-y-auto space-y-1 text-xs leading-relaxed pr-1">
+            {CONSENT_PARAGRAPHS.map((p) => <p key={p}>{p}</p>)}
+          </div>
+          <label className="flex items-start gap-2 text-sm">
+            <input type="checkbox" className="mt-1" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} disabled={disabled} />
+            <span>
+              {value.age_bracket === "under_18"
+                ? `Cha mẹ hoặc người giám hộ của ${value.display_name} đã đọc và đồng ý`
+                : `${value.display_name} đã đọc và đồng ý với nội dung trên`}
+            </span>
+          </label>
+          <div className="flex justify-end">
+            <Button size="sm" onClick={acceptConsent} loading={saving} disabled={!agreed || disabled}>Ghi nhận đồng ý</Button>
+          </div>
+        </div>
+      )}
+
+      {!creating && value && consent && (
+        <div className={`text-xs ${styles.muted}`}>
+          <span className="font-mono">{value.signer_id}</span>
+          {describeSigner(value) && <> • {describeSigner(value)}</>}
+          <div className={styles.ok}>✓ Đã đồng ý phiên bản {consent.version} lúc {new Date(consent.accepted_at).toLocaleString()}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { HAND_CONNECTIONS, POSE_CONNECTIONS, FACEMESH_CONTOURS } from "@mediapipe/holistic";
+import * as drawing from "@mediapipe/drawing_utils";
+import type { CapturedFrame } from "../types";
+
+interface SkeletonPlayerProps {
+  frames: CapturedFrame[];
+  width?: number;
+  height?: number;
+  mirror?: boolean;
+  autoPlay?: boolean;
+  // Arrow/Space shortcuts; off when embedded in a screen with its own shortcuts
+  keyboard?: boolean;
+}
+
+// Fallback spacing for frames without usable timestamps (~30 FPS)
+const DEFAULT_FRAME_MS = 33;
+
+// Replays captured landmark frames on a canvas with a frame-by-frame scrubber.
+// Playback follows the recorded timestamps so gaps and speed are preserved.
+export default function SkeletonPlayer({
+  frames,
+  width = 640,
+  height = 360,
+  mirror = false,
+  autoPlay = true,
+  keyboard = true,
+}: SkeletonPlayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(autoPlay);
+
+  const total = frames.length;
+  const current = frames[Math.min(index, total - 1)];
+
+  const draw = useCallback((frame: CapturedFrame | undefined) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = "#111827";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (!frame) return;
+
+    ctx.save();
+    if (mirror) {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+
+    if (frame.face && frame.face.length > 0) {
+      drawing.drawConnectors(ctx, frame.face, FACEMESH_CONTOURS, { color: "#9CA3AF", lineWidth: 1 });
+    }
+    if (frame.pose && frame.pose.length > 0) {
+      drawing.drawConnectors(ctx, frame.pose, POSE_CONNECTIONS, { color: "#00FF88", lineWidth: 2 });
+      drawing.drawLandmarks(ctx, frame.pose, { color: "#00FF88", radius: 2 });
+    }
+    if (frame.left_hand.length > 0) {
+      // Fallback (held) hands are drawn dimmer so they are easy to spot
+      const color = frame.source?.left === "fallback" ? "#FF6B3580" : "#FF6B35";
+      drawing.drawConnectors(ctx, frame.left_hand, HAND_CONNECTIONS, { color, lineWidth: 2 });
+      drawing.drawLandmarks(ctx, frame.left_hand, { color, radius: 3 });
+    }
+    if (frame.right_hand.length > 0) {
+      const color = frame.source?.right === "fallback" ? "#4ECDC480" : "#4ECDC4";
+      drawing.drawConnectors(ctx, frame.right_hand, HAND_CONNECTIONS, { color, lineWidth: 2 });
+      drawing.drawLandmarks(ctx, frame.right_hand, { color, radius: 3 });
+    }
+
+    ctx.restore();
+  }, [mirror]);
+
+  useEffect(() => {
+    draw(current);
+  }, [current, draw]);
+
+  // Reset when a new take is loaded
+  useEffect(() => {
+    setIndex(0);
+    setPlaying(autoPlay);
+  }, [frames, autoPlay]);
+
+  useEffect(() => {
+    if (!playing || total === 0) return;
+    const next = (index + 1) % total;
+    const delta = next === 0 ? DEFAULT_FRAME_MS * 10 : frames[next].timestamp - frames[index].timestamp;
+    const timer = setTimeout(() => setIndex(next), delta > 0 ? delta : DEFAULT_FRAME_MS);
+    return () => clearTimeout(timer);
+  }, [playing, index, total, frames]);
+
+  const step = useCallback((delta: number) => {
+    setPlaying(false);
+    setIndex((i) => Math.max(0, Math.min(total - 1, i + delta)));
+  }, [total]);
+
+  useEffect(() => {
+    if (!keyboard) return;
+    const onKey = (e: KeyboardEvent) => {
+      const active = document.activeElement as HTMLElement | null;
+      const typing = active && ((active.tagName === "INPUT" && (active as HTMLInputElement).type !== "range") || active.tagName === "TEXTAREA");
+      if (typing) return;
+      if (e.code === "ArrowLeft") {
+        e.preventDefault();
+        step(-1);
+      } else if (e.code === "ArrowRight") {
+        e.preventDefault();
+        step(1);
+      } else if (e.code === "Space") {
+        e.preventDefault();
+        setPlaying((p) => !p);
+      }
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [step, keyboard]);
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="w-full rounded-lg border border-gray-700"
+      />
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => step(-1)}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+          title="Khung trước (←)"
+        >
+          ◀
+        </button>
+        <button
+          type="button"
+          onClick={() => setPlaying((p) => !p)}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm w-20"
+          title="Phát / tạm dừng (Space)"
+        >
+          {playing ? "⏸ Dừng" : "▶ Phát"}
+        </button>
+        <button
+          type="button"
+          onClick={() => step(1)}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+          title="Khung sau (→)"
+        >
+          ▶
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, total - 1)}
+          value={Math.min(index, Math.max(0, total - 1))}
+          onChange={(e) => {
+            setPlaying(false);
+            setIndex(Number(e.target.value));
+          }}
+          className="flex-1"
+        />
+        <span className="text-xs text-gray-300 tabular-nums w-28 text-right">
+          {total > 0 ? `${index + 1}/${total} • ${((current?.timestamp ?? 0) / 1000).toFixed(2)}s` : "0/0"}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import Toast from "./ui/Toast";
+import { TOAST_EVENT } from "../utils/notify";
+import type { ToastDetail } from "../utils/notify";
+
+const MAX_TOASTS = 4;
+
+type QueuedToast = ToastDetail & { id: string };
+
+// Keeps onClose stable so a new toast does not restart the others' timers
+function QueuedToastItem({ toast, onDismiss }: { toast: QueuedToast; onDismiss: (id: string) => void }) {
+  const close = useCallback(() => onDismiss(toast.id), [onDismiss, toast.id]);
+  return <Toast message={toast.message} type={toast.type} duration={toast.duration} onClose={close} />;
+}
+
+// Renders toasts raised anywhere through `notify()`. Mounted once in Layout.
+export default function ToastContainer() {
+  const [toasts, setToasts] = useState<QueuedToast[]>([]);
+
+  useEffect(() => {
+    const handler = (e: Event) => {
+      const detail = (e as CustomEvent<ToastDetail>).detail;
+      if (!detail?.message) return;
+      const id = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      setToasts((prev) => [...prev, { ...detail, id }].slice(-MAX_TOASTS));
+    };
+    window.addEventListener(TOAST_EVENT, handler);
+    return () => window.removeEventListener(TOAST_EVENT, handler);
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2">
+      {toasts.map((t) => (
+        <QueuedToastItem key={t.id} toast={t} onDismiss={dismiss} />
+      ))}
+    </div>
+  );
+}
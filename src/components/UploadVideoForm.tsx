@@ -1,8 +1,24 @@
 import { useState, useRef, useMemo, useCallback, useEffect } from "react";
-import { uploadVideo } from "../api/upload";
+import { uploadVideoResumable, cancelResumableUpload, getStoredSession } from "../api/chunkedUpload";
+import { enqueueUpload, sendOutboxItem } from "../api/outbox";
+import { isPermanentStatus, uploadCamera } from "../api/upload";
+import { trackJob } from "../api/jobTracker";
+import { useJobs } from "../hooks/useJobs";
+import { extractVideoLandmarks } from "../utils/videoLandmarks";
+import { segmentTake } from "../utils/segment";
+import { computeQuality, qualityVariant } from "../utils/quality";
+import type { CameraUploadPayload, CapturedFrame, OutboxItem, ConsentRecord, QualityInfo, SegmentInfo, SignerProfile, TrackedJob } from "../types";
 import Button from "./ui/Button";
 import Badge from "./ui/Badge";
+import Modal from "./ui/Modal";
 import SpeechInputButton from "./SpeechInputButton";
+import SkeletonPlayer from "./SkeletonPlayer";
+import LabelCombobox from "./LabelCombobox";
+import SignerPicker from "./SignerPicker";
+import { currentConsent } from "../api/signers";
+import { useSigners } from "../hooks/useSigners";
+import { useCaptureProfile } from "../hooks/useCaptureProfile";
+import { normalizeText } from "../utils/text";
 
 // ============================================================================
 // TYPES
@@ -12,13 +28,30 @@ type FileItem = {
   id: string;
   file: File;
   label: string;
+  // Signer's display name; `signer_id` and `consent` are what the backend records
   user: string;
+  signer_id?: string;
+  consent?: ConsentRecord;
   dialect: string;
   class_uid?: string;
-  status: 'pending' | 'validating' | 'uploading' | 'done' | 'error';
+  status: 'pending' | 'validating' | 'extracting' | 'uploading' | 'paused' | 'done' | 'error';
   progress?: number;
+  uploadedBytes?: number;
+  extraction?: Extraction;
   message?: string;
   uploadedId?: string | number;
+  // Backend extraction job started by the upload, followed by the job poller
+  taskId?: string;
+};
+
+// Landmarks extracted in the browser, already trimmed to the profile's frame count
+type Extraction = {
+  profile_id: string;
+  frames: CapturedFrame[];
+  segment: SegmentInfo;
+  quality: QualityInfo;
+  sampled: number;
+  duration_ms: number;
 };
 
 type ValidationError = {
@@ -32,6 +65,21 @@ type Props = {
   onSuccess?: (results: Array<{ fileId: string; uploadedId: string | number }>) => void;
 };
 
+// File fields for a signer; empty unless they accepted the current consent form
+const signerFields = (signer: SignerProfile | null | undefined): Pick<FileItem, 'user' | 'signer_id' | 'consent'> => {
+  const consent = currentConsent(signer);
+  return signer && consent
+    ? { user: signer.display_name, signer_id: signer.signer_id, consent }
+    : { user: '', signer_id: undefined, consent: undefined };
+};
+
+// CSV `user` column: a signer id or a display name
+const findSigner = (signers: SignerProfile[], text?: string) => {
+  const key = normalizeText(text ?? '');
+  if (!key) return undefined;
+  return signers.find((s) => s.signer_id === text) ?? signers.find((s) => normalizeText(s.display_name) === key);
+};
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -41,7 +89,10 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
   const [files, setFiles] = useState<FileItem[]>([]);
   const [defaultLabel, setDefaultLabel] = useState("");
   const [defaultClassUid, setDefaultClassUid] = useState<string | undefined>(undefined);
-  const [defaultUser, setDefaultUser] = useState(() => localStorage.getItem('lastUser') || '');
+  // Signer for this upload session, applied to new files
+  const [signer, setSigner] = useState<SignerProfile | null>(null);
+  const { signers } = useSigners();
+  const consentedSigners = useMemo(() => signers.filter((s) => currentConsent(s)), [signers]);
   const [defaultDialect, setDefaultDialect] = useState<string>(() => 
     localStorage.getItem('dialectSelected') || 'Bắc'
   );
@@ -63,27 +114,31 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
     return defaultList;
   });
   
+  // Extract landmarks on this device and upload them instead of the raw video
+  const [extractLocally, setExtractLocally] = useState(() => {
+    try {
+      return localStorage.getItem('extractLandmarksLocally') === '1';
+    } catch {
+      return false;
+    }
+  });
+  // Extraction samples and trims with the same runtime profile as camera capture
+  const { profiles, profile, selectProfile } = useCaptureProfile();
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [sessionId] = useState(() => `video_${Date.now()}`);
+  const { jobs } = useJobs();
+  const jobsById = useMemo(() => new Map(jobs.map(j => [j.task_id, j])), [jobs]);
   const [uploadingAll, setUploadingAll] = useState(false);
   const [concurrency, setConcurrency] = useState(3);
   const [dragActive, setDragActive] = useState(false);
   const [showBulkEdit, setShowBulkEdit] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [recentUsers, setRecentUsers] = useState<string[]>(() => {
-    try {
-      const raw = localStorage.getItem('recentSigners');
-      const parsed = raw ? JSON.parse(raw) : [];
-      if (Array.isArray(parsed)) {
-        return parsed.filter((x) => typeof x === 'string').slice(0, 5);
-      }
-    } catch {
-      // ignore
-    }
-    return [];
-  });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const csvInputRef = useRef<HTMLInputElement>(null);
+  // Running uploads by file id; `stop` records why the upload was aborted
+  const uploadsRef = useRef(new Map<string, { controller: AbortController; stop?: 'pause' | 'cancel' }>());
   
   // ========== VALIDATION ==========
   const validateFile = useCallback((item: FileItem): ValidationError[] => {
@@ -91,8 +146,8 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
     if (!item.label || item.label.trim() === '') {
       errors.push({ fileId: item.id, field: 'label', message: 'Nhãn không được để trống' });
     }
-    if (!item.user || item.user.trim() === '') {
-      errors.push({ fileId: item.id, field: 'user', message: 'Người ký hiệu không được để trống' });
+    if (!item.signer_id || !item.consent) {
+      errors.push({ fileId: item.id, field: 'user', message: 'Chưa chọn người ký hiệu đã đồng ý tham gia' });
     }
     if (item.file.size > 100 * 1024 * 1024) {
       errors.push({ fileId: item.id, field: 'file', message: 'File vượt quá 100MB' });
@@ -108,13 +163,14 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
   const stats = useMemo(() => {
     const total = files.length;
     const pending = files.filter(f => f.status === 'pending').length;
-    const uploading = files.filter(f => f.status === 'uploading').length;
+    const uploading = files.filter(f => f.status === 'uploading' || f.status === 'extracting').length;
+    const paused = files.filter(f => f.status === 'paused').length;
     const done = files.filter(f => f.status === 'done').length;
     const error = files.filter(f => f.status === 'error').length;
     const validationErrors = validateAllFiles();
     const canUpload = validationErrors.length === 0 && pending > 0;
     
-    return { total, pending, uploading, done, error, validationErrors, canUpload };
+    return { total, pending, uploading, paused, done, error, validationErrors, canUpload };
   }, [files, validateAllFiles]);
   
   // ========== FILE MANAGEMENT ==========
@@ -150,14 +206,22 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
         .map(file => {
           // Áp dụng CSV mapping nếu có
           const mapping = csvMapping[file.name] || {};
+          // A stored upload id means this file was partly sent before a reload
+          const resumable = getStoredSession(file);
+          const resumeProgress = resumable && file.size > 0 ? Math.floor((resumable.received / file.size) * 100) : 0;
           return {
             id: generateFileId(),
             file,
             label: mapping.label || defaultLabel,
-            user: mapping.user || defaultUser,
+            ...signerFields(findSigner(consentedSigners, mapping.user) ?? signer),
             dialect: mapping.dialect || defaultDialect,
             class_uid: mapping.class_uid || defaultClassUid,
             status: 'pending' as const,
+            ...(resumable && {
+              progress: resumeProgress,
+              uploadedBytes: resumable.received,
+              message: `Tiếp tục từ ${resumeProgress}%`,
+            }),
           };
         });
       
@@ -174,30 +238,32 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
       
       return [...prev, ...newFiles];
     });
-  }, [defaultLabel, defaultUser, defaultDialect, defaultClassUid, onError]);
+  }, [defaultLabel, signer, consentedSigners, defaultDialect, defaultClassUid, onError]);
 
-  // Listen for global selectClass events dispatched by LabelsPage
+  // Labels picked elsewhere: `selectClass` (LabelsPage, detail { class_uid, class_idx,
+  // label, slug }) and `quickLabel` (UploadPage chips, detail is the label). Both set
+  // the default label; the label combobox resolves a missing class_uid by name.
   useEffect(() => {
     const handler = (e: Event) => {
-      try {
-        // CustomEvent detail contains class_uid, class_idx, label, slug
-        const ce = e as CustomEvent<Record<string, unknown>>;
-        const d = ce.detail as { class_uid?: string; class_idx?: number; label?: string; slug?: string };
-        if (d) {
-          if (d.label) setDefaultLabel(String(d.label));
-          if (d.class_uid) setDefaultClassUid(String(d.class_uid));
-          // provide quick feedback
-          onError?.(`✅ Chọn nhãn: ${d.label} (${d.class_uid ?? d.class_idx ?? ''})`);
-        }
-      } catch (err) {
-        // ignore
-      }
+      const detail = (e as CustomEvent<unknown>).detail;
+      const d = (typeof detail === 'string' ? { label: detail } : detail) as
+        { class_uid?: string; class_idx?: number; label?: string; slug?: string } | null;
+      if (!d?.label) return;
+      setDefaultLabel(String(d.label));
+      setDefaultClassUid(d.class_uid ? String(d.class_uid) : undefined);
+      // provide quick feedback
+      onError?.(`✅ Chọn nhãn: ${d.label}${d.class_uid ?? d.class_idx ? ` (${d.class_uid ?? d.class_idx})` : ''}`);
     };
     window.addEventListener('selectClass', handler);
-    return () => window.removeEventListener('selectClass', handler);
+    window.addEventListener('quickLabel', handler);
+    return () => {
+      window.removeEventListener('selectClass', handler);
+      window.removeEventListener('quickLabel', handler);
+    };
   }, [onError]);
   
   const removeFile = useCallback((id: string) => {
+    uploadsRef.current.get(id)?.controller.abort();
     setFiles(prev => prev.filter(f => f.id !== id));
     setSelectedIds(prev => {
       const next = new Set(prev);
@@ -211,14 +277,23 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
   }, []);
   
   // ========== BULK ACTIONS ==========
-  const applyBulkEdit = useCallback((field: 'label' | 'user' | 'dialect', value: string) => {
+  const applyBulkEdit = useCallback((field: 'label' | 'dialect', value: string) => {
     if (selectedIds.size === 0) return;
     setFiles(prev => prev.map(f => 
       selectedIds.has(f.id) ? { ...f, [field]: value } : f
     ));
   }, [selectedIds]);
   
+  const applyBulkSigner = useCallback((signerId: string) => {
+    const chosen = consentedSigners.find((s) => s.signer_id === signerId);
+    if (selectedIds.size === 0 || !chosen) return;
+    setFiles(prev => prev.map(f => 
+      selectedIds.has(f.id) ? { ...f, ...signerFields(chosen) } : f
+    ));
+  }, [selectedIds, consentedSigners]);
+  
   const removeSelected = useCallback(() => {
+    selectedIds.forEach(id => uploadsRef.current.get(id)?.controller.abort());
     setFiles(prev => prev.filter(f => !selectedIds.has(f.id)));
     setSelectedIds(new Set());
   }, [selectedIds]);
@@ -290,10 +365,11 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
         
         if (match) {
           matchedCount++;
+          const matchedSigner = findSigner(consentedSigners, match.user);
           return {
             ...item,
             label: match.label || item.label,
-            user: match.user || item.user,
+            ...(matchedSigner && signerFields(matchedSigner)),
             dialect: match.dialect || item.dialect,
           };
         }
@@ -324,7 +400,109 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
       console.error('CSV parsing error:', err);
       onError?.('❌ Không thể đọc file CSV. Đảm bảo format: filename,label,user,dialect');
     }
-  }, [files, onError]);
+  }, [files, consentedSigners, onError]);
+  
+  // ========== LOCAL EXTRACTION ==========
+  const extractItem = useCallback(async (item: FileItem): Promise<Extraction | null> => {
+    const controller = new AbortController();
+    const entry: { controller: AbortController; stop?: 'pause' | 'cancel' } = { controller };
+    uploadsRef.current.set(item.id, entry);
+    updateFile(item.id, { status: 'extracting', progress: 0, message: 'Đang trích xuất landmark...' });
+    
+    try {
+      const result = await extractVideoLandmarks(item.file, {
+        profile,
+        signal: controller.signal,
+        onProgress: (processedMs, durationMs) => updateFile(item.id, {
+          progress: durationMs > 0 ? Math.floor((processedMs / durationMs) * 100) : 0,
+        }),
+      });
+      if (result.frames.length === 0) {
+        updateFile(item.id, { status: 'error', progress: undefined, message: 'Không phát hiện tay trong video' });
+        return null;
+      }
+      const { frames, info } = segmentTake(result.frames, profile.target_frames);
+      const quality = computeQuality(frames, 'hands', info);
+      const extraction: Extraction = { profile_id: profile.id, frames, segment: info, quality, sampled: result.sampled, duration_ms: result.duration_ms };
+      updateFile(item.id, {
+        status: 'pending',
+        progress: undefined,
+        extraction,
+        message: `Đã trích xuất ${result.frames.length}/${result.sampled} khung có tay`,
+      });
+      return extraction;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        updateFile(item.id, { status: 'pending', progress: undefined, message: 'Đã hủy' });
+      } else {
+        const msg = err instanceof Error ? err.message : String(err);
+        updateFile(item.id, { status: 'error', progress: undefined, message: msg });
+      }
+      return null;
+    } finally {
+      if (uploadsRef.current.get(item.id) === entry) uploadsRef.current.delete(item.id);
+    }
+  }, [profile, updateFile]);
+  
+  // Landmarks from an earlier profile are re-extracted with the current one
+  const currentExtraction = useCallback((item: FileItem) =>
+    item.extraction?.profile_id === profile.id ? item.extraction : undefined, [profile.id]);
+  
+  const previewItem = useCallback(async (item: FileItem) => {
+    if (currentExtraction(item) || await extractItem(item)) setPreviewId(item.id);
+  }, [currentExtraction, extractItem]);
+  
+  // Extracted samples go through the outbox like camera captures, so a failed
+  // send is retried later instead of being lost.
+  const uploadExtracted = useCallback(async (item: FileItem): Promise<boolean> => {
+    const extraction = currentExtraction(item) ?? await extractItem(item);
+    if (!extraction) return false;
+    
+    const payload: CameraUploadPayload = {
+      user: item.user,
+      signer_id: item.signer_id,
+      consent: item.consent,
+      label: item.label,
+      dialect: item.dialect,
+      ...(item.class_uid && { class_uid: item.class_uid }),
+      session_id: sessionId,
+      landmark_mode: 'hands',
+      segment: extraction.segment,
+      quality_info: extraction.quality,
+      capture_profile: extraction.profile_id,
+      frames: extraction.frames.map(({ timestamp, handedness, source, ...landmarks }) => ({
+        timestamp,
+        landmarks,
+        handedness,
+        source,
+      })),
+    };
+    
+    try {
+      updateFile(item.id, { status: 'uploading', progress: undefined, message: undefined });
+      // Without IndexedDB (e.g. private browsing) send directly instead of queueing
+      let queued: OutboxItem | undefined;
+      try {
+        queued = await enqueueUpload(payload);
+      } catch (err) {
+        console.warn('Outbox unavailable, uploading directly:', err);
+      }
+      const result = queued ? await sendOutboxItem(queued) : await uploadCamera(payload);
+      if (result.ok) {
+        updateFile(item.id, { status: 'done', progress: 100, message: 'Thành công', uploadedId: result.data?.id });
+      } else if (queued && !isPermanentStatus(result.status)) {
+        updateFile(item.id, { status: 'done', message: `Đã lưu vào hàng đợi, sẽ tự gửi lại (${result.error})` });
+      } else {
+        // Rejected items stay in the outbox for a manual retry; nothing resends them
+        updateFile(item.id, { status: 'error', message: result.error });
+      }
+      return result.ok;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      updateFile(item.id, { status: 'error', message: msg });
+      return false;
+    }
+  }, [currentExtraction, extractItem, sessionId, updateFile]);
   
   // ========== UPLOAD ==========
   const uploadSingle = useCallback(async (item: FileItem): Promise<boolean> => {
@@ -337,19 +515,46 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
       return false;
     }
     
-    updateFile(item.id, { status: 'uploading', progress: 0 });
+    if (extractLocally) return uploadExtracted(item);
+    
+    const controller = new AbortController();
+    const entry: { controller: AbortController; stop?: 'pause' | 'cancel' } = { controller };
+    uploadsRef.current.set(item.id, entry);
+    updateFile(item.id, { status: 'uploading', progress: item.progress ?? 0, message: undefined });
     
     try {
-      const res = await uploadVideo(item.file, item.user, item.label, item.dialect);
-      const result = res as { ok?: boolean; data?: { id?: string | number }; error?: string };
+      const result = await uploadVideoResumable(item.file, item.user, item.label, {
+        dialect: item.dialect,
+        classUid: item.class_uid,
+        signerId: item.signer_id,
+        consent: item.consent,
+        signal: controller.signal,
+        onProgress: (uploadedBytes, totalBytes) => updateFile(item.id, {
+          uploadedBytes,
+          progress: totalBytes > 0 ? Math.floor((uploadedBytes / totalBytes) * 100) : 0,
+        }),
+      });
       if (result.ok) {
+        const taskId = result.data?.task_id;
+        if (taskId) {
+          trackJob({ task_id: taskId, label: item.label, user: item.user, filename: item.file.name });
+        }
         updateFile(item.id, { 
           status: 'done', 
           progress: 100,
+          uploadedBytes: item.file.size,
           message: 'Thành công',
-          uploadedId: result.data?.id
+          uploadedId: result.data?.id,
+          taskId,
         });
         return true;
+      } else if (controller.signal.aborted) {
+        if (entry.stop === 'pause') {
+          updateFile(item.id, { status: 'paused', message: 'Đã tạm dừng' });
+        } else if (entry.stop === 'cancel') {
+          updateFile(item.id, { status: 'pending', progress: undefined, uploadedBytes: undefined, message: 'Đã hủy' });
+        }
+        return false;
       } else {
         updateFile(item.id, { 
           status: 'error', 
@@ -361,8 +566,36 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
       const msg = err instanceof Error ? err.message : String(err);
       updateFile(item.id, { status: 'error', message: msg });
       return false;
+    } finally {
+      if (uploadsRef.current.get(item.id) === entry) uploadsRef.current.delete(item.id);
     }
-  }, [validateFile, updateFile]);
+  }, [validateFile, updateFile, extractLocally, uploadExtracted]);
+  
+  // Pausing keeps the server session so the upload resumes from the last chunk
+  const pauseUpload = useCallback((id: string) => {
+    const entry = uploadsRef.current.get(id);
+    if (!entry) return;
+    entry.stop = 'pause';
+    entry.controller.abort();
+  }, []);
+  
+  const cancelUpload = useCallback(async (item: FileItem) => {
+    const entry = uploadsRef.current.get(item.id);
+    if (entry) {
+      entry.stop = 'cancel';
+      entry.controller.abort();
+      if (item.status === 'extracting') return;
+    } else {
+      updateFile(item.id, { status: 'pending', progress: undefined, uploadedBytes: undefined, message: 'Đã hủy' });
+    }
+    await cancelResumableUpload(item.file);
+  }, [updateFile]);
+  
+  // Leaving the page pauses running uploads; their sessions stay resumable
+  useEffect(() => {
+    const uploads = uploadsRef.current;
+    return () => uploads.forEach(entry => entry.controller.abort());
+  }, []);
   
   const uploadAll = useCallback(async () => {
     const pendingFiles = files.filter(f => f.status === 'pending');
@@ -393,7 +626,8 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
     };
     
     const workers = Array.from(
-      { length: Math.min(concurrency, pendingFiles.length) },
+      // Extraction runs MediaPipe on this device, so keep it to one file at a time
+      { length: Math.min(extractLocally ? 1 : concurrency, pendingFiles.length) },
       () => runWorker()
     );
     
@@ -403,7 +637,7 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
     if (results.length > 0) {
       onSuccess?.(results);
     }
-  }, [files, concurrency, validateAllFiles, uploadSingle, onError, onSuccess]);
+  }, [files, concurrency, extractLocally, validateAllFiles, uploadSingle, onError, onSuccess]);
   
   // ========== DRAG & DROP ==========
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -438,16 +672,20 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
   }, [handleCSVImport]);
   
   // ========== PERSISTENCE ==========
-  useEffect(() => {
-    if (defaultUser) {
-      localStorage.setItem('lastUser', defaultUser);
-    }
-  }, [defaultUser]);
-  
   useEffect(() => {
     localStorage.setItem('dialectSelected', defaultDialect);
   }, [defaultDialect]);
   
+  useEffect(() => {
+    try {
+      localStorage.setItem('extractLandmarksLocally', extractLocally ? '1' : '0');
+    } catch {
+      // ignore
+    }
+  }, [extractLocally]);
+  
+  const previewItemData = previewId ? files.find(f => f.id === previewId) : undefined;
+  
   // ========== HELPERS ==========
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 B';
@@ -457,11 +695,26 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
     return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
   };
   
+  const getJobBadge = (job: TrackedJob) => {
+    switch (job.state) {
+      case 'queued':
+        return { variant: 'default' as const, text: 'Chờ xử lý' };
+      case 'processing':
+        return { variant: 'info' as const, text: job.progress !== undefined ? `Đang xử lý ${Math.round(job.progress)}%` : 'Đang xử lý' };
+      case 'extracted':
+        return { variant: 'success' as const, text: job.total_frames ? `Đã trích xuất • ${job.total_frames} khung` : 'Đã trích xuất' };
+      case 'failed':
+        return { variant: 'danger' as const, text: 'Xử lý lỗi' };
+    }
+  };
+  
   const getStatusBadge = (status: FileItem['status']) => {
     const variants = {
       pending: { variant: 'default' as const, text: 'Chờ upload' },
       validating: { variant: 'warning' as const, text: 'Kiểm tra' },
+      extracting: { variant: 'info' as const, text: 'Trích xuất' },
       uploading: { variant: 'warning' as const, text: 'Đang tải' },
+      paused: { variant: 'info' as const, text: 'Tạm dừng' },
       done: { variant: 'success' as const, text: 'Hoàn thành' },
       error: { variant: 'danger' as const, text: 'Lỗi' },
     };
@@ -482,20 +735,6 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
       fileInputRef.current.click();
     }
   };
-
-  const rememberUser = useCallback((name: string) => {
-    const trimmed = name.trim();
-    if (!trimmed) return;
-    setRecentUsers((prev) => {
-      const next = [trimmed, ...prev.filter((x) => x !== trimmed)].slice(0, 5);
-      try {
-        localStorage.setItem('recentSigners', JSON.stringify(next));
-      } catch {
-        // ignore
-      }
-      return next;
-    });
-  }, []);
   
   // ============================================================================
   // RENDER
@@ -522,6 +761,7 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
             <div className="flex items-center space-x-2">
               {stats.pending > 0 && <Badge variant="default">{stats.pending} chờ</Badge>}
               {stats.uploading > 0 && <Badge variant="warning">{stats.uploading} đang tải</Badge>}
+              {stats.paused > 0 && <Badge variant="info">{stats.paused} tạm dừng</Badge>}
               {stats.done > 0 && <Badge variant="success">{stats.done} xong</Badge>}
               {stats.error > 0 && <Badge variant="danger">{stats.error} lỗi</Badge>}
             </div>
@@ -540,14 +780,20 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label className="block text-xs font-medium text-gray-700 mb-1">Nhãn mặc định</label>
-              <div className="flex items-center space-x-2">
-                <input
-                  type="text"
-                  value={defaultLabel}
-                  onChange={(e) => setDefaultLabel(e.target.value)}
-                  placeholder="ví dụ: đi bộ"
-                  className="input text-sm flex-1"
-                />
+              <div className="flex items-start space-x-2">
+                <div className="flex-1">
+                  <LabelCombobox
+                    value={defaultLabel}
+                    classUid={defaultClassUid}
+                    onChange={(value, row) => {
+                      setDefaultLabel(value);
+                      setDefaultClassUid(row?.class_uid);
+                    }}
+                    dialect={defaultDialect}
+                    placeholder="ví dụ: đi bộ"
+                    inputClassName="input text-sm w-full"
+                  />
+                </div>
                 <SpeechInputButton
                   onText={(text) => setDefaultLabel(text)}
                   title="Dùng giọng nói để điền nhãn mặc định"
@@ -556,35 +802,7 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
             </div>
             <div>
               <label className="block text-xs font-medium text-gray-700 mb-1">Người ký hiệu</label>
-              <div className="flex items-center space-x-2">
-                <input
-                  type="text"
-                  value={defaultUser}
-                  onChange={(e) => setDefaultUser(e.target.value)}
-                  placeholder="ví dụ: Trân"
-                  className="input text-sm flex-1"
-                  onBlur={() => rememberUser(defaultUser)}
-                />
-                <SpeechInputButton
-                  onText={(text) => setDefaultUser(text)}
-                  title="Dùng giọng nói để điền tên người ký hiệu"
-                />
-              </div>
-              {recentUsers.length > 0 && (
-                <div className="mt-1 flex flex-wrap gap-2 text-[11px] text-blue-700">
-                  <span className="text-blue-500">Gợi ý:</span>
-                  {recentUsers.map((name) => (
-                    <button
-                      type="button"
-                      key={name}
-                      onClick={() => setDefaultUser(name)}
-                      className="px-2 py-0.5 rounded-full bg-blue-50 hover:bg-blue-100 text-blue-700 border border-blue-200"
-                    >
-                      {name}
-                    </button>
-                  ))}
-                </div>
-              )}
+              <SignerPicker value={signer} onChange={setSigner} />
             </div>
             <div>
               <label className="block text-xs font-medium text-gray-700 mb-1">Bộ ngôn ngữ</label>
@@ -613,6 +831,46 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
           </div>
         </div>
         
+        {/* Upload Mode */}
+        <div className="flex flex-col md:flex-row md:items-center gap-3 mb-6">
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden flex-shrink-0">
+            <button
+              type="button"
+              onClick={() => setExtractLocally(false)}
+              disabled={uploadingAll}
+              className={`px-4 py-2 text-sm font-medium ${!extractLocally ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              Gửi video gốc
+            </button>
+            <button
+              type="button"
+              onClick={() => setExtractLocally(true)}
+              disabled={uploadingAll}
+              className={`px-4 py-2 text-sm font-medium border-l border-gray-300 ${extractLocally ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              Trích xuất landmark trên máy
+            </button>
+          </div>
+          <p className="text-xs text-gray-600">
+            {extractLocally
+              ? `Video được xử lý ngay trên trình duyệt bằng MediaPipe Hands; chỉ gửi ${profile.target_frames} khung landmark, video không rời khỏi máy.`
+              : 'Video được tải lên máy chủ và trích xuất landmark ở phía server.'}
+          </p>
+          {extractLocally && (
+            <select
+              value={profile.id}
+              onChange={(e) => selectProfile(e.target.value)}
+              disabled={uploadingAll}
+              title={`${profile.target_frames} khung @ ${profile.sample_fps} FPS`}
+              className="md:ml-auto px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        
         {/* Upload Area */}
         <div
           className={`
@@ -751,16 +1009,13 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
                 <div>
                   <label className="block text-xs font-medium text-gray-700 mb-1">Người ký hiệu</label>
                   <div className="flex space-x-2">
-                    <input
-                      type="text"
-                      placeholder="Nhập tên người ký hiệu"
-                      className="input text-sm flex-1"
-                      id="bulk-user-input"
-                    />
+                    <select className="input text-sm flex-1" id="bulk-signer-select">
+                      {consentedSigners.map(s => <option key={s.signer_id} value={s.signer_id}>{s.display_name}</option>)}
+                    </select>
                     <Button
                       onClick={() => {
-                        const val = (document.getElementById('bulk-user-input') as HTMLInputElement)?.value;
-                        if (val) applyBulkEdit('user', val);
+                        const val = (document.getElementById('bulk-signer-select') as HTMLSelectElement)?.value;
+                        if (val) applyBulkSigner(val);
                       }}
                       variant="primary"
                       className="text-xs"
@@ -836,8 +1091,11 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
               <tbody className="divide-y divide-gray-200">
                 {files.map((item) => {
                   const badge = getStatusBadge(item.status);
+                  const job = item.taskId ? jobsById.get(item.taskId) : undefined;
+                  const jobBadge = job ? getJobBadge(job) : undefined;
                   const errors = validateFile(item);
                   const hasError = errors.length > 0;
+                  const locked = item.status === 'uploading' || item.status === 'extracting' || item.status === 'paused' || item.status === 'done';
                   
                   return (
                     <tr
@@ -878,31 +1136,37 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
                         </div>
                       </td>
                       <td className="px-3 py-2">
-                        <input
-                          type="text"
+                        <LabelCombobox
                           value={item.label}
-                          onChange={(e) => updateFile(item.id, { label: e.target.value })}
+                          classUid={item.class_uid}
+                          onChange={(value, row) => updateFile(item.id, { label: value, class_uid: row?.class_uid })}
+                          dialect={item.dialect}
+                          compact
                           placeholder="Nhãn..."
-                          className={`input text-sm w-full ${hasError && !item.label ? 'border-red-300 bg-red-50' : ''}`}
-                          disabled={item.status === 'uploading' || item.status === 'done'}
+                          inputClassName={`input text-sm w-full ${hasError && !item.label ? 'border-red-300 bg-red-50' : ''}`}
+                          disabled={locked}
                         />
                       </td>
                       <td className="px-3 py-2">
-                        <input
-                          type="text"
-                          value={item.user}
-                          onChange={(e) => updateFile(item.id, { user: e.target.value })}
-                          placeholder="Tên người ký hiệu..."
-                          className={`input text-sm w-full ${hasError && !item.user ? 'border-red-300 bg-red-50' : ''}`}
-                          disabled={item.status === 'uploading' || item.status === 'done'}
-                        />
+                        <select
+                          value={item.signer_id ?? ''}
+                          onChange={(e) => updateFile(item.id, signerFields(consentedSigners.find(s => s.signer_id === e.target.value)))}
+                          className={`input text-sm w-full ${hasError && !item.signer_id ? 'border-red-300 bg-red-50' : ''}`}
+                          disabled={locked}
+                        >
+                          <option value="">Chọn người ký hiệu...</option>
+                          {item.signer_id && !consentedSigners.some(s => s.signer_id === item.signer_id) && (
+                            <option value={item.signer_id}>{item.user}</option>
+                          )}
+                          {consentedSigners.map(s => <option key={s.signer_id} value={s.signer_id}>{s.display_name}</option>)}
+                        </select>
                       </td>
                       <td className="px-3 py-2">
                         <select
                           value={item.dialect}
                           onChange={(e) => updateFile(item.id, { dialect: e.target.value })}
                           className="input text-sm w-full"
-                          disabled={item.status === 'uploading' || item.status === 'done'}
+                          disabled={locked}
                         >
                           {dialectList.map(d => <option key={d} value={d}>{d}</option>)}
                         </select>
@@ -912,19 +1176,39 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
                           <Badge variant={badge.variant} size="sm">
                             {badge.text}
                           </Badge>
+                          {jobBadge && (
+                            <span title={job?.message}>
+                              <Badge variant={jobBadge.variant} size="sm">
+                                {jobBadge.text}
+                              </Badge>
+                            </span>
+                          )}
                           {item.message && (
                             <span className="text-xs text-gray-600 truncate" title={item.message}>
                               {item.message}
                             </span>
                           )}
-                          {item.status === 'uploading' && item.progress !== undefined && (
+                          {item.status === 'extracting' && item.progress !== undefined && (
                             <div className="w-full bg-gray-200 rounded-full h-1">
                               <div
-                                className="bg-blue-600 h-1 rounded-full transition-all"
+                                className="bg-indigo-500 h-1 rounded-full transition-all"
                                 style={{ width: `${item.progress}%` }}
                               />
                             </div>
                           )}
+                          {(item.status === 'uploading' || item.status === 'paused') && item.progress !== undefined && (
+                            <>
+                              <div className="w-full bg-gray-200 rounded-full h-1">
+                                <div
+                                  className={`h-1 rounded-full transition-all ${item.status === 'paused' ? 'bg-gray-400' : 'bg-blue-600'}`}
+                                  style={{ width: `${item.progress}%` }}
+                                />
+                              </div>
+                              <span className="text-xs text-gray-500 tabular-nums">
+                                {formatFileSize(item.uploadedBytes ?? 0)} / {formatFileSize(item.file.size)} • {item.progress}%
+                              </span>
+                            </>
+                          )}
                         </div>
                       </td>
                       <td className="px-3 py-2 text-right">
@@ -937,7 +1221,39 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
                               Thử lại
                             </button>
                           )}
-                          {item.status !== 'uploading' && (
+                          {item.status === 'uploading' && !item.extraction && (
+                            <button
+                              onClick={() => pauseUpload(item.id)}
+                              className="text-xs text-gray-600 hover:text-gray-700 font-medium"
+                            >
+                              Tạm dừng
+                            </button>
+                          )}
+                          {item.status === 'paused' && (
+                            <button
+                              onClick={() => uploadSingle(item)}
+                              className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                            >
+                              Tiếp tục
+                            </button>
+                          )}
+                          {extractLocally && (item.status === 'pending' || (item.status === 'done' && item.extraction)) && (
+                            <button
+                              onClick={() => previewItem(item)}
+                              className="text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+                            >
+                              Xem landmark
+                            </button>
+                          )}
+                          {((item.status === 'uploading' && !item.extraction) || item.status === 'paused' || item.status === 'extracting') && (
+                            <button
+                              onClick={() => cancelUpload(item)}
+                              className="text-xs text-red-600 hover:text-red-700 font-medium"
+                            >
+                              Hủy
+                            </button>
+                          )}
+                          {item.status !== 'uploading' && item.status !== 'paused' && item.status !== 'extracting' && (
                             <button
                               onClick={() => removeFile(item.id)}
                               className="text-xs text-red-600 hover:text-red-700 font-medium"
@@ -1052,6 +1368,50 @@ export default function UploadVideoFormV2({ onError, onSuccess }: Props) {
           </div>
         </div>
       )}
+      
+      {/* Extraction Preview */}
+      {previewItemData?.extraction && (
+        <Modal isOpen onClose={() => setPreviewId(null)} title={`Landmark: ${previewItemData.file.name}`} size="xl">
+          <div className="space-y-4">
+            <SkeletonPlayer frames={previewItemData.extraction.frames} />
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant="info" size="sm">{previewItemData.extraction.frames.length} khung</Badge>
+              {typeof previewItemData.extraction.quality.score === 'number' && (
+                <Badge variant={qualityVariant(previewItemData.extraction.quality.score)} size="sm">
+                  Chất lượng {previewItemData.extraction.quality.score}/100
+                </Badge>
+              )}
+              <Badge variant="default" size="sm">
+                Video {(previewItemData.extraction.duration_ms / 1000).toFixed(1)}s • {previewItemData.extraction.sampled} khung đã quét
+              </Badge>
+              <Badge variant={previewItemData.extraction.segment.detected ? 'success' : 'warning'} size="sm">
+                {previewItemData.extraction.segment.detected ? 'Đã tìm thấy đoạn ký hiệu' : 'Không rõ chuyển động'}
+              </Badge>
+            </div>
+            {(previewItemData.extraction.quality.issues?.length ?? 0) > 0 && (
+              <ul className="text-xs text-yellow-700 space-y-0.5">
+                {previewItemData.extraction.quality.issues?.map((issue) => <li key={issue.code}>⚠️ {issue.message}</li>)}
+              </ul>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button variant="secondary" onClick={() => setPreviewId(null)}>
+                Đóng
+              </Button>
+              {previewItemData.status === 'pending' && (
+                <Button
+                  variant="primary"
+                  onClick={() => {
+                    setPreviewId(null);
+                    uploadSingle(previewItemData);
+                  }}
+                >
+                  Tải lên
+                </Button>
+              )}
+            </div>
+          </div>
+        </Modal>
+      )}
     </div>
   );
 }
@@ -1,57 +1,166 @@
-import { useState, useEffect } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import Badge from "../ui/Badge";
 import Button from "../ui/Button";
+import PageHeader from "../ui/PageHeader";
+import ErrorBanner from "../ErrorBanner";
+import { getClassesStats, getSessions } from "../../api/dataset";
+import { useJobs } from "../../hooks/useJobs";
+import {
+  classCount,
+  contributorLeaderboard,
+  dialectCoverage,
+  filterSessions,
+  formatRelative,
+  periodGrowth,
+  rangeFromDays,
+  rankClasses,
+  recentSessions,
+  samplesPerDay,
+  samplesPerWeek,
+  totalSamples,
+} from "../../utils/analytics";
+import type { DateRange } from "../../utils/analytics";
+import type { Result } from "../../api/validators";
+import type { ClassStatsRow, Session } from "../../types";
 
-interface AnalyticsData {
-  totalSamples: number;
-  totalLabels: number;
-  todaySamples: number;
-  activeJobs: number;
-  weeklyGrowth: number;
-  topLabels: Array<{ label: string; count: number }>;
-  recentActivity: Array<{ action: string; time: string; user: string }>;
-}
+type Preset = "7" | "30" | "90" | "all" | "custom";
+
+const PRESETS: Array<{ value: Preset; label: string }> = [
+  { value: "7", label: "7 ngày" },
+  { value: "30", label: "30 ngày" },
+  { value: "90", label: "90 ngày" },
+  { value: "all", label: "Tất cả" },
+  { value: "custom", label: "Tùy chọn" },
+];
+
+const REFRESH_INTERVAL_MS = 60000;
+// A class counts as covered for a dialect once it has this many samples
+const DEFAULT_MIN_SAMPLES = 20;
+
+const failureMessage = (res: PromiseSettledResult<Result<unknown>>) => {
+  if (res.status === "rejected") return res.reason instanceof Error ? res.reason.message : String(res.reason);
+  return res.value.ok ? "" : res.value.error;
+};
 
 export default function AnalyticsOverview() {
-  const [analytics, setAnalytics] = useState<AnalyticsData>({
-    totalSamples: 0,
-    totalLabels: 0,
-    todaySamples: 0,
-    activeJobs: 0,
-    weeklyGrowth: 0,
-    topLabels: [],
-    recentActivity: []
-  });
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [classStats, setClassStats] = useState<ClassStatsRow[]>([]);
   const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [preset, setPreset] = useState<Preset>("30");
+  const [customRange, setCustomRange] = useState<DateRange>(() => rangeFromDays(30));
+  const [granularity, setGranularity] = useState<"day" | "week">("day");
+  const [minSamples, setMinSamples] = useState(DEFAULT_MIN_SAMPLES);
+  const [autoRefresh, setAutoRefresh] = useState(() => localStorage.getItem("dashboardAutoRefresh") !== "0");
+  const [Recharts, setRecharts] = useState<typeof import("recharts") | null>(null);
+  const { jobs } = useJobs();
+  const mountedRef = useRef(true);
 
   useEffect(() => {
-    // Simulate API call
-    setTimeout(() => {
-      setAnalytics({
-        totalSamples: 1247,
-        totalLabels: 15,
-        todaySamples: 23,
-        activeJobs: 2,
-        weeklyGrowth: 12.5,
-        topLabels: [
-          { label: "walking", count: 342 },
-          { label: "sitting", count: 289 },
-          { label: "running", count: 198 },
-          { label: "jumping", count: 156 }
-        ],
-        recentActivity: [
-          { action: "Created 5 samples", time: "2 min ago", user: "user1" },
-          { action: "Added label 'dancing'", time: "15 min ago", user: "admin" },
-          { action: "Uploaded video batch", time: "1 hour ago", user: "user2" }
-        ]
-      });
-      setLoading(false);
-    }, 1000);
+    mountedRef.current = true;
+    import("recharts").then((mod) => {
+      if (mountedRef.current) setRecharts(mod);
+    });
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Sessions and class stats load independently so one failing endpoint
+  // still leaves the other half of the dashboard usable.
+  const load = useCallback(async (background = false) => {
+    if (background) setRefreshing(true);
+    const [sessionsRes, statsRes] = await Promise.allSettled([getSessions(), getClassesStats()]);
+    if (!mountedRef.current) return;
+
+    const errors: string[] = [];
+    if (sessionsRes.status === "fulfilled" && sessionsRes.value.ok) setSessions(sessionsRes.value.data);
+    else errors.push(`Phiên: ${failureMessage(sessionsRes)}`);
+    if (statsRes.status === "fulfilled" && statsRes.value.ok) setClassStats(statsRes.value.data.distribution);
+    else errors.push(`Thống kê lớp: ${failureMessage(statsRes)}`);
+
+    setError(errors.length > 0 ? errors.join(" • ") : null);
+    setLastUpdated(Date.now());
+    setLoading(false);
+    setRefreshing(false);
   }, []);
 
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem("dashboardAutoRefresh", autoRefresh ? "1" : "0");
+    } catch {
+      // ignore
+    }
+    if (!autoRefresh) return;
+    const timer = setInterval(() => {
+      // Skip while the tab is hidden; the next visible tick catches up
+      if (document.visibilityState === "visible") load(true);
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [autoRefresh, load]);
+
+  const range: DateRange = useMemo(() => {
+    if (preset === "all") return {};
+    if (preset === "custom") return customRange;
+    return rangeFromDays(Number(preset));
+  }, [preset, customRange]);
+
+  const stats = useMemo(() => {
+    const inRange = filterSessions(sessions, range);
+    const daily = samplesPerDay(sessions, range);
+    const today = rangeFromDays(1);
+    return {
+      total: totalSamples(inRange),
+      sessions: inRange.length,
+      today: totalSamples(filterSessions(sessions, today)),
+      growth: periodGrowth(sessions, range),
+      daily,
+      weekly: samplesPerWeek(daily),
+      contributors: contributorLeaderboard(inRange),
+      recent: recentSessions(inRange),
+    };
+  }, [sessions, range]);
+
+  const classes = useMemo(() => ({
+    ...rankClasses(classStats),
+    coverage: dialectCoverage(classStats, minSamples),
+    samples: classStats.reduce((sum, r) => sum + classCount(r), 0),
+  }), [classStats, minSamples]);
+
+  const activeJobs = jobs.filter((j) => j.state === "queued" || j.state === "processing").length;
+  const chartData = granularity === "day" ? stats.daily : stats.weekly;
+  const topMax = classes.top.length > 0 ? Math.max(1, classCount(classes.top[0])) : 1;
+
+  const header = (
+    <PageHeader
+      title="Bảng điều khiển"
+      subtitle="Tiến độ thu thập dữ liệu theo thời gian, lớp ký hiệu, phương ngữ và người đóng góp."
+      breadcrumb={["Dữ liệu", "Bảng điều khiển"]}
+      actions={
+        <>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={autoRefresh} onChange={(e) => setAutoRefresh(e.target.checked)} />
+            Tự làm mới
+          </label>
+          <Button variant="secondary" size="sm" loading={refreshing} onClick={() => load(true)}>
+            Làm mới
+          </Button>
+        </>
+      }
+    />
+  );
+
   if (loading) {
     return (
       <div className="space-y-6">
+        {header}
         {[...Array(4)].map((_, i) => (
           <div key={i} className="card animate-pulse">
             <div className="h-20 bg-gray-200 rounded"></div>
@@ -63,136 +172,301 @@ export default function AnalyticsOverview() {
 
   return (
     <div className="space-y-6">
+      {header}
+
+      {error && <ErrorBanner message={error} onClose={() => setError(null)} type="error" />}
+
+      {/* Date range */}
+      <div className="card card-compact flex flex-wrap items-center gap-3">
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+          {PRESETS.map((p) => (
+            <button
+              key={p.value}
+              type="button"
+              onClick={() => setPreset(p.value)}
+              className={`px-3 py-1.5 text-sm font-medium border-l first:border-l-0 border-gray-300 ${
+                preset === p.value ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        {preset === "custom" && (
+          <div className="flex items-center gap-2 text-sm">
+            <input
+              type="date"
+              className="input text-sm"
+              value={customRange.from ?? ""}
+              max={customRange.to}
+              onChange={(e) => setCustomRange((r) => ({ ...r, from: e.target.value || undefined }))}
+            />
+            <span className="text-gray-500">→</span>
+            <input
+              type="date"
+              className="input text-sm"
+              value={customRange.to ?? ""}
+              min={customRange.from}
+              onChange={(e) => setCustomRange((r) => ({ ...r, to: e.target.value || undefined }))}
+            />
+          </div>
+        )}
+        {lastUpdated && (
+          <span className="ml-auto text-xs text-gray-500">
+            Cập nhật lúc {new Date(lastUpdated).toLocaleTimeString()}
+            {autoRefresh && " • tự làm mới mỗi phút"}
+          </span>
+        )}
+      </div>
+
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="card text-center">
           <div className="text-3xl font-bold text-blue-600 mb-1">
-            {analytics.totalSamples.toLocaleString()}
+            {stats.total.toLocaleString()}
           </div>
-          <div className="text-gray-600 text-sm">Total Samples</div>
+          <div className="text-gray-600 text-sm">Mẫu trong khoảng thời gian</div>
           <div className="flex items-center justify-center mt-2">
-            <Badge variant="success" size="sm">
-              +{analytics.weeklyGrowth}% this week
-            </Badge>
+            {stats.growth === null ? (
+              <Badge variant="default" size="sm">{stats.sessions} phiên</Badge>
+            ) : (
+              <Badge variant={stats.growth >= 0 ? "success" : "danger"} size="sm">
+                {stats.growth >= 0 ? "+" : ""}{stats.growth.toFixed(1)}% so với kỳ trước
+              </Badge>
+            )}
           </div>
         </div>
 
         <div className="card text-center">
           <div className="text-3xl font-bold text-green-600 mb-1">
-            {analytics.totalLabels}
+            {classStats.length}
           </div>
-          <div className="text-gray-600 text-sm">Active Labels</div>
+          <div className="text-gray-600 text-sm">Lớp ký hiệu</div>
           <div className="flex items-center justify-center mt-2">
             <Badge variant="info" size="sm">
-              Ready for training
+              {classes.samples.toLocaleString()} mẫu toàn bộ
             </Badge>
           </div>
         </div>
 
         <div className="card text-center">
           <div className="text-3xl font-bold text-purple-600 mb-1">
-            {analytics.todaySamples}
+            {stats.today}
           </div>
-          <div className="text-gray-600 text-sm">Today's Samples</div>
+          <div className="text-gray-600 text-sm">Mẫu hôm nay</div>
           <div className="flex items-center justify-center mt-2">
-            <Badge variant="warning" size="sm">
-              🔥 Keep going!
+            <Badge variant={stats.today > 0 ? "success" : "default"} size="sm">
+              {stats.today > 0 ? "🔥 Tiếp tục nhé!" : "Chưa có mẫu"}
             </Badge>
           </div>
         </div>
 
         <div className="card text-center">
           <div className="text-3xl font-bold text-orange-600 mb-1">
-            {analytics.activeJobs}
+            {activeJobs}
           </div>
-          <div className="text-gray-600 text-sm">Active Jobs</div>
+          <div className="text-gray-600 text-sm">Công việc đang xử lý</div>
           <div className="flex items-center justify-center mt-2">
-            <Badge variant={analytics.activeJobs > 0 ? "info" : "default"} size="sm">
-              {analytics.activeJobs > 0 ? "Processing..." : "Idle"}
+            <Badge variant={activeJobs > 0 ? "info" : "default"} size="sm">
+              {activeJobs > 0 ? "Đang xử lý..." : "Rảnh"}
             </Badge>
           </div>
         </div>
       </div>
 
-      {/* Charts and Details */}
+      {/* Samples over time */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">📈 Mẫu theo {granularity === "day" ? "ngày" : "tuần"}</h3>
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+            <button
+              type="button"
+              onClick={() => setGranularity("day")}
+              className={`px-3 py-1 ${granularity === "day" ? "bg-gray-800 text-white" : "bg-white text-gray-700"}`}
+            >
+              Ngày
+            </button>
+            <button
+              type="button"
+              onClick={() => setGranularity("week")}
+              className={`px-3 py-1 border-l border-gray-300 ${granularity === "week" ? "bg-gray-800 text-white" : "bg-white text-gray-700"}`}
+            >
+              Tuần
+            </button>
+          </div>
+        </div>
+        {chartData.length === 0 ? (
+          <div className="p-8 text-center text-sm text-gray-500">Không có phiên nào trong khoảng thời gian này</div>
+        ) : Recharts ? (
+          <Recharts.ResponsiveContainer width="100%" height={260}>
+            <Recharts.BarChart data={chartData}>
+              <Recharts.CartesianGrid strokeDasharray="3 3" />
+              <Recharts.XAxis dataKey="date" tick={{ fontSize: 11 }} />
+              <Recharts.YAxis allowDecimals={false} />
+              <Recharts.Tooltip />
+              <Recharts.Bar dataKey="samples" name="Mẫu" fill="#3b82f6" />
+            </Recharts.BarChart>
+          </Recharts.ResponsiveContainer>
+        ) : (
+          <div className="p-8 text-center">Đang tải biểu đồ…</div>
+        )}
+      </div>
+
+      {/* Classes */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Top Labels */}
         <div className="card">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-900">📊 Top Labels</h3>
-            <Button variant="ghost" size="sm">View All</Button>
+            <h3 className="text-lg font-semibold text-gray-900">📊 Lớp nhiều mẫu nhất</h3>
+            <Link to="/labels" className="text-sm text-blue-600 hover:text-blue-700">Xem tất cả</Link>
           </div>
-          
           <div className="space-y-3">
-            {analytics.topLabels.map((item, index) => (
-              <div key={item.label} className="flex items-center justify-between">
-                <div className="flex items-center">
-                  <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center text-xs font-medium text-blue-600 mr-3">
+            {classes.top.map((row, index) => (
+              <div key={row.class_uid} className="flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center text-xs font-medium text-blue-600 mr-3 flex-shrink-0">
                     {index + 1}
                   </div>
-                  <span className="font-medium">{item.label}</span>
+                  <span className="font-medium truncate">{row.label_original || row.slug || row.class_uid}</span>
+                  {row.dialect && <span className="ml-2 text-xs text-gray-500">{row.dialect}</span>}
                 </div>
-                <div className="flex items-center">
+                <div className="flex items-center flex-shrink-0">
                   <div className="w-24 h-2 bg-gray-200 rounded-full mr-3">
-                    <div 
-                      className="h-2 bg-blue-500 rounded-full"
-                      style={{ width: `${(item.count / analytics.topLabels[0].count) * 100}%` }}
-                    />
+                    <div className="h-2 bg-blue-500 rounded-full" style={{ width: `${(classCount(row) / topMax) * 100}%` }} />
                   </div>
-                  <span className="text-sm text-gray-600 w-8 text-right">{item.count}</span>
+                  <span className="text-sm text-gray-600 w-10 text-right">{classCount(row)}</span>
                 </div>
               </div>
             ))}
+            {classes.top.length === 0 && <div className="text-sm text-gray-500">Chưa có lớp nào</div>}
           </div>
         </div>
 
-        {/* Recent Activity */}
         <div className="card">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-900">⚡ Recent Activity</h3>
-            <Button variant="ghost" size="sm">View All</Button>
+            <h3 className="text-lg font-semibold text-gray-900">🪫 Lớp ít mẫu nhất</h3>
           </div>
-          
           <div className="space-y-3">
-            {analytics.recentActivity.map((activity, index) => (
-              <div key={index} className="flex items-start gap-3">
-                <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center text-green-600 text-sm font-medium">
-                  {activity.user.charAt(0).toUpperCase()}
+            {classes.bottom.map((row) => (
+              <div key={row.class_uid} className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <span className="font-medium truncate">{row.label_original || row.slug || row.class_uid}</span>
+                  {row.dialect && <span className="ml-2 text-xs text-gray-500">{row.dialect}</span>}
+                </div>
+                <Badge variant={classCount(row) === 0 ? "danger" : classCount(row) < minSamples ? "warning" : "default"} size="sm">
+                  {classCount(row)} mẫu
+                </Badge>
+              </div>
+            ))}
+            {classes.bottom.length === 0 && <div className="text-sm text-gray-500">Chưa đủ lớp để so sánh</div>}
+          </div>
+        </div>
+      </div>
+
+      {/* Dialect coverage */}
+      <div className="card">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">🗺️ Độ phủ theo phương ngữ</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Đủ khi ≥
+            <input
+              type="number"
+              min={1}
+              className="input text-sm w-20"
+              value={minSamples}
+              onChange={(e) => setMinSamples(Math.max(1, Number(e.target.value) || 1))}
+            />
+            mẫu / lớp
+          </label>
+        </div>
+        {classes.coverage.length === 0 ? (
+          <div className="text-sm text-gray-500">Chưa có thống kê lớp</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2">Phương ngữ</th>
+                <th className="py-2 text-right">Lớp</th>
+                <th className="py-2 text-right">Đủ mẫu</th>
+                <th className="py-2 text-right">Tổng mẫu</th>
+                <th className="py-2 pl-4 w-1/3">Độ phủ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {classes.coverage.map((row) => (
+                <tr key={row.dialect} className="border-b last:border-b-0">
+                  <td className="py-2 font-medium">{row.dialect}</td>
+                  <td className="py-2 text-right">{row.classes}</td>
+                  <td className="py-2 text-right">{row.covered}</td>
+                  <td className="py-2 text-right">{row.samples.toLocaleString()}</td>
+                  <td className="py-2 pl-4">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 h-2 bg-gray-200 rounded-full">
+                        <div
+                          className={`h-2 rounded-full ${row.percent >= 80 ? "bg-green-500" : row.percent >= 40 ? "bg-yellow-500" : "bg-red-500"}`}
+                          style={{ width: `${row.percent}%` }}
+                        />
+                      </div>
+                      <span className="text-xs text-gray-600 w-10 text-right">{row.percent.toFixed(0)}%</span>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Contributors and activity */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">🏆 Người đóng góp</h3>
+          <div className="space-y-3">
+            {stats.contributors.map((c, index) => (
+              <div key={c.user} className="flex items-center justify-between">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="w-6 text-sm font-semibold text-gray-500 text-right">{index + 1}</div>
+                  <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center text-green-600 text-sm font-medium flex-shrink-0">
+                    {c.user.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{c.user}</div>
+                    <div className="text-xs text-gray-500">
+                      {c.sessions} phiên{c.lastActive > 0 && ` • ${formatRelative(c.lastActive)}`}
+                    </div>
+                  </div>
+                </div>
+                <Badge variant="info" size="sm">{c.samples} mẫu</Badge>
+              </div>
+            ))}
+            {stats.contributors.length === 0 && <div className="text-sm text-gray-500">Chưa có ai trong khoảng này</div>}
+          </div>
+        </div>
+
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">⚡ Hoạt động gần đây</h3>
+          <div className="space-y-3">
+            {stats.recent.map(({ session, time }) => (
+              <div key={session.session_id} className="flex items-start gap-3">
+                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center text-blue-600 text-sm font-medium flex-shrink-0">
+                  {(session.user || "?").charAt(0).toUpperCase()}
                 </div>
                 <div className="flex-1 min-w-0">
-                  <div className="text-sm font-medium text-gray-900">
-                    {activity.action}
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {session.samples_count} mẫu • {(session.labels || []).slice(0, 3).join(", ")}
+                    {(session.labels || []).length > 3 && ` +${session.labels.length - 3}`}
                   </div>
                   <div className="text-xs text-gray-500 flex items-center gap-2">
-                    <span>{activity.user}</span>
+                    <span>{session.user}</span>
                     <span>•</span>
-                    <span>{activity.time}</span>
+                    <span>{formatRelative(time)}</span>
                   </div>
                 </div>
               </div>
             ))}
+            {stats.recent.length === 0 && <div className="text-sm text-gray-500">Không có hoạt động</div>}
           </div>
         </div>
       </div>
-
-      {/* Quick Actions */}
-      <div className="card">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">🚀 Quick Actions</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <Button className="justify-start" variant="secondary">
-            <span className="mr-2">📷</span>
-            Start New Capture Session
-          </Button>
-          <Button className="justify-start" variant="secondary">
-            <span className="mr-2">📊</span>
-            Export Dataset
-          </Button>
-          <Button className="justify-start" variant="secondary">
-            <span className="mr-2">🤖</span>
-            Train Model
-          </Button>
-        </div>
-      </div>
     </div>
   );
-}
\ No newline at end of file
+}
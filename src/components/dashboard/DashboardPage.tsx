@@ -2,13 +2,13 @@ import { useEffect, useState } from "react";
 import SessionList from "./SessionList";
 import DatasetStats from "./DatasetStats";
 import FilterPanel from "./FilterPanel";
-import { getSamples } from "../../api/dataset";
+import { getSessions } from "../../api/dataset";
 import type { Session, Filters } from "../../types";
 import ErrorBanner from "../ErrorBanner";
 
 export default function DashboardPage() {
   const [sessions, setSessions] = useState<Session[]>([]);
-  const [filters, setFilters] = useState<Filters>({ user: "", label: "", date: "" });
+  const [filters, setFilters] = useState<Filters>({ user: "", label: "", date: "", status: "" });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -18,7 +18,7 @@ export default function DashboardPage() {
       setLoading(true);
       setError(null);
       try {
-        const result = await getSamples();
+        const result = await getSessions();
         if (!mounted) return;
         if (result.ok) setSessions(result.data);
         else setError(result.error);
@@ -1,4 +1,12 @@
-import type { Filters } from "../../types";
+import type { Filters, ReviewStatus } from "../../types";
+import { REVIEW_STATUSES } from "../../api/reviews";
+
+const STATUS_NAMES: Record<ReviewStatus, string> = {
+  pending: "Chờ duyệt",
+  approved: "Đã duyệt",
+  rejected: "Bị loại",
+  disputed: "Bất đồng",
+};
 
 export default function FilterPanel({ filters, setFilters }: { filters: Filters; setFilters: (f: Filters) => void }) {
   return (
@@ -21,9 +29,19 @@ export default function FilterPanel({ filters, setFilters }: { filters: Filters;
         value={filters.date}
         onChange={(e) => setFilters({ ...filters, date: e.target.value })}
       />
+      <select
+        className="border p-2 rounded"
+        value={filters.status}
+        onChange={(e) => setFilters({ ...filters, status: e.target.value as Filters["status"] })}
+      >
+        <option value="">Mọi trạng thái duyệt</option>
+        {REVIEW_STATUSES.map((s) => (
+          <option key={s} value={s}>{STATUS_NAMES[s]}</option>
+        ))}
+      </select>
       <button
         className="bg-blue-600 text-white px-4 py-2 rounded"
-        onClick={() => setFilters({ user: "", label: "", date: "" })}
+        onClick={() => setFilters({ user: "", label: "", date: "", status: "" })}
       >
         Reset
       </button>
@@ -1,5 +1,8 @@
-// Centralized capture defaults for the simplified public uploader.
-// Change these values here to affect the Fullscreen capture modal behavior.
+import type { CaptureProfile, LandmarkMode } from "../types";
+
+// Centralized capture defaults for the simplified public uploader. These back
+// the built-in "standard" capture profile; deployments can override settings at
+// runtime with named profiles (see src/api/captureProfiles.ts).
 export const TARGET_FRAMES = 60;
 export const CAPTURE_COUNT = 5;
 // Sampling FPS used by the capture pipeline (how many frames per second we store).
@@ -7,3 +10,49 @@ export const CAPTURE_COUNT = 5;
 // this rate to build training-friendly datasets and control upload size.
 export const SAMPLE_FPS = 30;
 export const FRAME_INTERVAL_MS = Math.round(1000 / SAMPLE_FPS);
+// Takes are recorded for TARGET_FRAMES × RECORD_HEADROOM frames; the segmenter
+// (utils/segment.ts) then trims idle frames around the sign and fits the
+// take back to TARGET_FRAMES.
+export const RECORD_HEADROOM = 1.5;
+
+// Hands-free trigger (counts are MediaPipe result frames, ~30 per second).
+// Both hands visible for START frames begins the countdown; during a take,
+// hands gone for LEAVE frames or still (motion energy below REST_ENERGY) for
+// REST frames ends it. Takes shorter than MIN frames are treated as false starts.
+export const HANDS_FREE_START_FRAMES = 15;
+export const HANDS_FREE_LEAVE_FRAMES = 10;
+export const HANDS_FREE_REST_FRAMES = 15;
+export const HANDS_FREE_REST_ENERGY = 0.003;
+export const HANDS_FREE_MIN_FRAMES = 20;
+
+// Landmark extraction mode. Sign language also relies on body position and
+// facial grammar, so pose/face can be captured alongside the hands.
+export const DEFAULT_LANDMARK_MODE: LandmarkMode = 'hands';
+export const LANDMARK_MODES: Array<{ value: LandmarkMode; label: string; description: string }> = [
+  { value: 'hands', label: 'Chỉ tay', description: '2 × 21 điểm tay (nhẹ nhất)' },
+  { value: 'hands_pose', label: 'Tay + cơ thể', description: 'Thêm 33 điểm tư thế cơ thể' },
+  { value: 'holistic', label: 'Toàn thân + khuôn mặt', description: 'Thêm 468 điểm khuôn mặt (dữ liệu lớn hơn)' },
+];
+
+// Built-in profile used when neither the backend nor public/capture-profiles.json
+// provides one, and as the base that partial profiles are merged onto.
+export const DEFAULT_CAPTURE_PROFILE: CaptureProfile = {
+  id: 'standard',
+  name: 'Tiêu chuẩn',
+  description: 'Ký hiệu đơn, 60 khung / mẫu',
+  target_frames: TARGET_FRAMES,
+  capture_count: CAPTURE_COUNT,
+  sample_fps: SAMPLE_FPS,
+  countdown_seconds: 3,
+  record_headroom: RECORD_HEADROOM,
+  min_detection_confidence: 0.6,
+  min_tracking_confidence: 0.7,
+  filter_min_cutoff: 1.0,
+  filter_beta: 0.01,
+  render_alpha: 0.85,
+};
+
+export const getFrameIntervalMs = (profile: CaptureProfile) => Math.round(1000 / profile.sample_fps);
+
+export const getRecordFrames = (profile: CaptureProfile) =>
+  Math.round(profile.target_frames * (profile.record_headroom ?? RECORD_HEADROOM));
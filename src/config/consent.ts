@@ -0,0 +1,38 @@
+import type { AgeBracket, Handedness, HearingStatus } from "../types";
+
+// Consent form shown before a signer's first recording. Bump the version when
+// the wording changes: signers who accepted an older version are asked again,
+// and each upload records which version covered it.
+export const CONSENT_VERSION = "2026-10";
+
+export const CONSENT_TITLE = "Phiếu đồng ý tham gia thu thập dữ liệu ngôn ngữ ký hiệu";
+
+export const CONSENT_PARAGRAPHS = [
+  "Dự án VOYA thu thập video và điểm mốc (landmark) tay, thân và khuôn mặt khi bạn thực hiện ký hiệu để xây dựng mô hình nhận dạng ngôn ngữ ký hiệu Việt Nam.",
+  "Dữ liệu được lưu kèm mã người ký hiệu, không kèm họ tên đầy đủ. Thông tin vùng phương ngữ, tình trạng thính lực, tay thuận và nhóm tuổi chỉ dùng để đánh giá độ đa dạng của bộ dữ liệu.",
+  "Dữ liệu chỉ được dùng cho nghiên cứu và phát triển của dự án, không bán cho bên thứ ba. Ảnh chụp hoặc video có thể xuất hiện trong tài liệu nghiên cứu khi bạn đồng ý riêng.",
+  "Việc tham gia là tự nguyện. Bạn có thể dừng bất cứ lúc nào và yêu cầu xoá dữ liệu của mình bằng cách liên hệ nhóm dự án kèm mã người ký hiệu.",
+  "Người dưới 18 tuổi cần có cha mẹ hoặc người giám hộ đồng ý thay.",
+];
+
+export const HEARING_STATUS_NAMES: Record<HearingStatus, string> = {
+  deaf: "Điếc",
+  hard_of_hearing: "Khiếm thính",
+  hearing: "Nghe bình thường",
+  undisclosed: "Không cung cấp",
+};
+
+export const HANDEDNESS_NAMES: Record<Handedness, string> = {
+  right: "Tay phải",
+  left: "Tay trái",
+  ambidextrous: "Cả hai tay",
+};
+
+export const AGE_BRACKET_NAMES: Record<AgeBracket, string> = {
+  under_18: "Dưới 18",
+  "18_29": "18–29",
+  "30_44": "30–44",
+  "45_59": "45–59",
+  "60_plus": "60 trở lên",
+  undisclosed: "Không cung cấp",
+};
@@ -0,0 +1,20 @@
+import { createContext, useContext } from "react";
+import type { Result } from "../api/validators";
+import type { AuthSession, AuthUser } from "../types";
+
+export interface AuthContextValue {
+  user: AuthUser | null;
+  isAdmin: boolean;
+  // True while a stored login is being re-checked against `/auth/me` on startup
+  checking: boolean;
+  login: (username: string, password: string) => Promise<Result<AuthSession>>;
+  logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used inside <AuthProvider>");
+  return ctx;
+}
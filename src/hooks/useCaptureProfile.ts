@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import type { CaptureProfile } from "../types";
+import { getCaptureProfiles } from "../api/captureProfiles";
+import { DEFAULT_CAPTURE_PROFILE } from "../config/capture";
+
+// Remembered per browser so camera capture and video extraction share the choice
+const STORAGE_KEY = "captureProfile";
+
+const storedProfileId = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+// Runtime capture profiles (backend / public/capture-profiles.json) and the
+// one selected for this session; starts on the built-in default until loaded.
+export function useCaptureProfile() {
+  const [profiles, setProfiles] = useState<CaptureProfile[]>([DEFAULT_CAPTURE_PROFILE]);
+  const [profileId, setProfileId] = useState(DEFAULT_CAPTURE_PROFILE.id);
+  const profile = profiles.find((p) => p.id === profileId) ?? profiles[0];
+
+  useEffect(() => {
+    let mounted = true;
+    getCaptureProfiles().then((res) => {
+      if (!mounted || !res.ok) return;
+      setProfiles(res.data.profiles);
+      const stored = storedProfileId();
+      const initial = stored && res.data.profiles.some((p) => p.id === stored) ? stored : res.data.default_profile;
+      setProfileId(initial);
+      console.log(`Loaded ${res.data.profiles.length} capture profile(s) from ${res.data.source}`);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const selectProfile = (id: string) => {
+    setProfileId(id);
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch {
+      // ignore
+    }
+  };
+
+  return { profiles, profile, selectProfile };
+}
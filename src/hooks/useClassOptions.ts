@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import type { ClassRow } from "../types";
+import { getClassesList } from "../api/dataset";
+
+// Registered classes for label autocomplete, fetched once per language and
+// shared by every form on the page. LabelsPage invalidates after edits.
+export const CLASSES_CHANGE_EVENT = "voya:classeschange";
+
+const cache = new Map<string, Promise<ClassRow[]>>();
+
+const loadClasses = (language: string) => {
+  let pending = cache.get(language);
+  if (!pending) {
+    pending = getClassesList(language)
+      .then((res) => {
+        if (!res.ok) throw new Error(res.error);
+        return res.data.items.filter((c) => !(c.archived === true || String(c.archived) === "1"));
+      })
+      .catch((err: unknown) => {
+        // Forget the failure so the next form retries
+        cache.delete(language);
+        console.warn("[classes] Failed to load class options", err);
+        return [];
+      });
+    cache.set(language, pending);
+  }
+  return pending;
+};
+
+export const invalidateClassOptions = () => {
+  cache.clear();
+  window.dispatchEvent(new Event(CLASSES_CHANGE_EVENT));
+};
+
+export function useClassOptions(language = "vn") {
+  const [classes, setClasses] = useState<ClassRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      setLoading(true);
+      loadClasses(language).then((items) => {
+        if (cancelled) return;
+        setClasses(items);
+        setLoading(false);
+      });
+    };
+    load();
+    window.addEventListener(CLASSES_CHANGE_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CLASSES_CHANGE_EVENT, load);
+    };
+  }, [language]);
+
+  return { classes, loading };
+}
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from "react";
+import type { TrackedJob } from "../types";
+import {
+  JOBS_CHANGE_EVENT,
+  clearFinishedJobs,
+  ensureJobPolling,
+  listJobs,
+  refreshJob,
+  removeJob,
+} from "../api/jobTracker";
+
+export function useJobs() {
+  const [jobs, setJobs] = useState<TrackedJob[]>(() => listJobs());
+
+  useEffect(() => {
+    // Resume polling for jobs left unfinished by a previous visit
+    ensureJobPolling();
+    const onChange = () => setJobs(listJobs());
+    // Other tabs write the same history
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === "jobHistory") onChange();
+    };
+    const onOnline = () => ensureJobPolling();
+    window.addEventListener(JOBS_CHANGE_EVENT, onChange);
+    window.addEventListener("storage", onStorage);
+    window.addEventListener("online", onOnline);
+    return () => {
+      window.removeEventListener(JOBS_CHANGE_EVENT, onChange);
+      window.removeEventListener("storage", onStorage);
+      window.removeEventListener("online", onOnline);
+    };
+  }, []);
+
+  const refresh = useCallback(async (taskId: string) => {
+    try {
+      await refreshJob(taskId);
+    } catch (err) {
+      console.warn("[jobs] Refresh failed", err);
+    }
+  }, []);
+
+  return { jobs, refresh, remove: removeJob, clearFinished: clearFinishedJobs };
+}
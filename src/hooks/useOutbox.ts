@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react";
+import type { OutboxItem } from "../types";
+import {
+  OUTBOX_CHANGE_EVENT,
+  drainOutbox,
+  listOutbox,
+  recoverInterruptedItems,
+  removeOutboxItem,
+  sendOutboxItem,
+} from "../api/outbox";
+import { AUTH_CHANGE_EVENT, getSession } from "../api/session";
+
+// Retry failed items periodically while online, in case the backend (not the
+// network) was the problem.
+const RETRY_INTERVAL_MS = 30000;
+
+let recovered: Promise<void> | null = null;
+
+export function useOutbox() {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [online, setOnline] = useState(() => (typeof navigator === "undefined" ? true : navigator.onLine));
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await listOutbox());
+    } catch (err) {
+      console.warn("[outbox] Failed to read queue", err);
+    }
+  }, []);
+
+  const drain = useCallback(async (force = false) => {
+    try {
+      await drainOutbox(force);
+    } catch (err) {
+      console.warn("[outbox] Drain failed", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!recovered) recovered = recoverInterruptedItems().catch(() => undefined);
+    recovered.then(() => {
+      refresh();
+      if (navigator.onLine) drain();
+    });
+
+    const onChange = () => refresh();
+    const onOnline = () => {
+      setOnline(true);
+      drain(true);
+    };
+    const onOffline = () => setOnline(false);
+    // Items that failed with 401 while the session had lapsed go out right after login
+    const onAuth = () => {
+      if (getSession() && navigator.onLine) drain(true);
+    };
+
+    window.addEventListener(OUTBOX_CHANGE_EVENT, onChange);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    window.addEventListener(AUTH_CHANGE_EVENT, onAuth);
+    return () => {
+      window.removeEventListener(OUTBOX_CHANGE_EVENT, onChange);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      window.removeEventListener(AUTH_CHANGE_EVENT, onAuth);
+    };
+  }, [refresh, drain]);
+
+  useEffect(() => {
+    if (!online || items.length === 0) return;
+    const timer = setInterval(() => drain(), RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [online, items.length, drain]);
+
+  const retry = useCallback(async (id: string) => {
+    const item = items.find((i) => i.id === id);
+    if (!item || item.status === "sending") return;
+    await sendOutboxItem(item);
+  }, [items]);
+
+  const discard = useCallback(async (id: string) => {
+    await removeOutboxItem(id);
+  }, []);
+
+  return { items, online, retry, discard, drain };
+}
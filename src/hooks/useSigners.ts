@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import type { SignerProfile } from "../types";
+import { listSigners } from "../api/signers";
+
+// Signer profiles, fetched once and shared by every picker on the page.
+// Creating a profile or recording consent invalidates the list.
+export const SIGNERS_CHANGE_EVENT = "voya:signerschange";
+
+let cache: Promise<{ items: SignerProfile[]; error: string | null }> | null = null;
+
+const loadSigners = () => {
+  cache ??= listSigners().then((res) => {
+    if (res.ok) return { items: res.data, error: null };
+    // Forget the failure so the next picker retries
+    cache = null;
+    console.warn("[signers] Failed to load signer profiles", res.error);
+    return { items: [], error: res.error };
+  });
+  return cache;
+};
+
+export const invalidateSigners = () => {
+  cache = null;
+  window.dispatchEvent(new Event(SIGNERS_CHANGE_EVENT));
+};
+
+export function useSigners() {
+  const [signers, setSigners] = useState<SignerProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      setLoading(true);
+      loadSigners().then(({ items, error }) => {
+        if (cancelled) return;
+        setSigners(items);
+        setError(error);
+        setLoading(false);
+      });
+    };
+    load();
+    window.addEventListener(SIGNERS_CHANGE_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(SIGNERS_CHANGE_EVENT, load);
+    };
+  }, []);
+
+  return { signers, loading, error };
+}
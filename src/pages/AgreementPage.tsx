@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { listSamples, DEFAULT_SAMPLE_QUERY } from "../api/samples";
+import type { Sample } from "../types";
+import PageHeader from "../components/ui/PageHeader";
+import Button from "../components/ui/Button";
+import Badge from "../components/ui/Badge";
+import LoadingSpinner from "../components/ui/LoadingSpinner";
+import ErrorBanner from "../components/ErrorBanner";
+import AdjudicateModal from "../components/AdjudicateModal";
+import { agreementByClass, describeKappa, isDisputed, overallAgreement, pairwiseAgreement } from "../utils/agreement";
+import { isAdmin } from "../utils/role";
+
+// The report needs every multi-reviewed sample; stop after this many pages of 200
+const MAX_PAGES = 20;
+const PAGE_SIZE = 200;
+
+const formatKappa = (kappa: number | null) => (kappa === null ? "—" : kappa.toFixed(2));
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const kappaVariant = (kappa: number | null): "success" | "warning" | "danger" | "default" =>
+  kappa === null ? "default" : kappa > 0.6 ? "success" : kappa > 0.4 ? "warning" : "danger";
+
+export default function AgreementPage() {
+  const [admin, setAdmin] = useState(isAdmin());
+  const [samples, setSamples] = useState<Sample[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [adjudicating, setAdjudicating] = useState<Sample | null>(null);
+
+  useEffect(() => {
+    const onRole = () => setAdmin(isAdmin());
+    window.addEventListener('voya:rolechange', onRole);
+    return () => window.removeEventListener('voya:rolechange', onRole);
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      setLoading(true);
+      const all: Sample[] = [];
+      let total = 0;
+      for (let page = 1; page <= MAX_PAGES; page++) {
+        const res = await listSamples({ ...DEFAULT_SAMPLE_QUERY, page, page_size: PAGE_SIZE, min_votes: 2 }, controller.signal);
+        if (controller.signal.aborted) return;
+        if (!res.ok) {
+          setError(res.error);
+          setLoading(false);
+          return;
+        }
+        all.push(...res.data.items);
+        total = res.data.total;
+        if (all.length >= total || res.data.items.length === 0) break;
+      }
+      setSamples(all);
+      setTruncated(all.length < total);
+      setError(null);
+      setLoading(false);
+    })();
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const overall = useMemo(() => overallAgreement(samples), [samples]);
+  const byClass = useMemo(() => agreementByClass(samples), [samples]);
+  const pairs = useMemo(() => pairwiseAgreement(samples, 3), [samples]);
+  // Disagreeing votes that no senior reviewer has settled yet
+  const disputed = useMemo(() => samples.filter((s) => isDisputed(s) && !s.adjudicated_by), [samples]);
+
+  const handleResolved = useCallback((updated: Sample) => {
+    setSamples((prev) => prev.map((s) => (s.sample_id === updated.sample_id ? { ...s, ...updated } : s)));
+  }, []);
+
+  if (!admin) {
+    return (
+      <div className="space-y-6">
+        <PageHeader title="Độ đồng thuận" breadcrumb={["Dữ liệu", "Độ đồng thuận"]} />
+        <div className="card text-center py-12 text-gray-600">Chỉ quản trị viên mới xem được báo cáo đồng thuận.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Độ đồng thuận"
+        subtitle="Mức đồng thuận giữa người duyệt (Fleiss' / Cohen's kappa) trên các mẫu có từ hai phiếu trở lên."
+        breadcrumb={["Dữ liệu", "Độ đồng thuận"]}
+        actions={<Button variant="secondary" onClick={() => setReloadKey((k) => k + 1)} loading={loading}>🔄 Làm mới</Button>}
+      />
+
+      {error && <ErrorBanner message={error} onClose={() => setError(null)} type="error" />}
+      {truncated && (
+        <ErrorBanner message={`Chỉ tính trên ${samples.length} mẫu đầu tiên.`} onClose={() => setTruncated(false)} type="warning" />
+      )}
+
+      {loading && samples.length === 0 ? (
+        <div className="flex items-center justify-center py-16"><LoadingSpinner size="lg" /></div>
+      ) : overall.items === 0 ? (
+        <div className="card text-center py-12 text-gray-600 space-y-2">
+          <div>Chưa có mẫu nào được từ hai người duyệt trở lên.</div>
+          <div className="text-sm">
+            Chọn mẫu ở <Link to="/samples" className="text-indigo-600 hover:underline">Mẫu dữ liệu</Link> và dùng “Assign Reviewers”.
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="card">
+              <div className="text-sm text-gray-500">Fleiss' kappa</div>
+              <div className="text-3xl font-bold text-gray-900">{formatKappa(overall.kappa)}</div>
+              <Badge variant={kappaVariant(overall.kappa)} size="sm">{describeKappa(overall.kappa)}</Badge>
+            </div>
+            <div className="card">
+              <div className="text-sm text-gray-500">Đồng ý quan sát</div>
+              <div className="text-3xl font-bold text-gray-900">{formatPercent(overall.observed)}</div>
+            </div>
+            <div className="card">
+              <div className="text-sm text-gray-500">Mẫu nhiều phiếu</div>
+              <div className="text-3xl font-bold text-gray-900">{overall.items}</div>
+            </div>
+            <div className="card">
+              <div className="text-sm text-gray-500">Chờ phân xử</div>
+              <div className="text-3xl font-bold text-red-600">{disputed.length}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="card">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">🏷️ Theo lớp</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">Nhãn</th>
+                    <th className="py-2 text-right">Mẫu</th>
+                    <th className="py-2 text-right">κ</th>
+                    <th className="py-2 text-right">Đồng ý</th>
+                    <th className="py-2 text-right">Bất đồng</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {byClass.map((c) => (
+                    <tr key={c.key} className="border-b last:border-0">
+                      <td className="py-2">{c.label}</td>
+                      <td className="py-2 text-right">{c.items}</td>
+                      <td className="py-2 text-right">
+                        <Badge variant={kappaVariant(c.kappa)} size="sm">{formatKappa(c.kappa)}</Badge>
+                      </td>
+                      <td className="py-2 text-right">{formatPercent(c.observed)}</td>
+                      <td className="py-2 text-right">{c.disputed}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="card">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">👥 Từng cặp người duyệt (Cohen's kappa)</h3>
+              {pairs.length === 0 ? (
+                <div className="text-sm text-gray-500">Chưa có cặp nào cùng duyệt từ 3 mẫu trở lên.</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2">Cặp</th>
+                      <th className="py-2 text-right">Mẫu chung</th>
+                      <th className="py-2 text-right">κ</th>
+                      <th className="py-2 text-right">Đồng ý</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pairs.map((p) => (
+                      <tr key={`${p.a}|${p.b}`} className="border-b last:border-0">
+                        <td className="py-2">{p.a} – {p.b}</td>
+                        <td className="py-2 text-right">{p.shared}</td>
+                        <td className="py-2 text-right">
+                          <Badge variant={kappaVariant(p.kappa)} size="sm">{formatKappa(p.kappa)}</Badge>
+                        </td>
+                        <td className="py-2 text-right">{formatPercent(p.observed)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          <div className="card">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">⚖️ Mẫu bất đồng</h3>
+            {disputed.length === 0 ? (
+              <div className="text-sm text-gray-500">Không có mẫu nào cần phân xử.</div>
+            ) : (
+              <div className="divide-y">
+                {disputed.map((s) => (
+                  <div key={s.sample_id} className="py-3 flex flex-wrap items-center gap-3">
+                    <span className="font-mono text-sm text-indigo-600">#{s.sample_id}</span>
+                    <Badge variant="default" size="sm">{s.label || "—"}</Badge>
+                    <div className="flex flex-wrap gap-2 text-xs text-gray-600 flex-1">
+                      {(s.votes ?? []).map((v) => (
+                        <span key={v.reviewer}>
+                          {v.reviewer}: {v.status === "approved" ? `✅${v.label && v.label !== s.label ? ` ${v.label}` : ""}` : "❌"}
+                        </span>
+                      ))}
+                    </div>
+                    <Button size="sm" onClick={() => setAdjudicating(s)}>Phân xử</Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <AdjudicateModal sample={adjudicating} onClose={() => setAdjudicating(null)} onResolved={handleResolved} />
+    </div>
+  );
+}
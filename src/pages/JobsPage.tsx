@@ -1,5 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { getJobStatus } from "../api/jobs";
+import { isTerminal, trackJob } from "../api/jobTracker";
+import { useJobs } from "../hooks/useJobs";
 import type { JobStatus } from "../types";
 import ErrorBanner from "../components/ErrorBanner";
 import PageHeader from "../components/ui/PageHeader";
@@ -13,28 +15,22 @@ export default function JobsPage() {
   const [status, setStatus] = useState<JobStatus | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [recentJobs, setRecentJobs] = useState<Array<{id: string, status: string, timestamp: string}>>([]);
   const [showDetails, setShowDetails] = useState(false);
+  // Upload jobs recorded by the background poller (newest first)
+  const { jobs: recentJobs, refresh, remove, clearFinished } = useJobs();
+  const activeCount = recentJobs.filter((j) => !isTerminal(j.state)).length;
 
-  // Simulate recent jobs for demo
-  useEffect(() => {
-    setRecentJobs([
-      { id: "job_001", status: "completed", timestamp: "2024-01-15 14:30" },
-      { id: "job_002", status: "running", timestamp: "2024-01-15 15:45" },
-      { id: "job_003", status: "failed", timestamp: "2024-01-15 16:20" },
-    ]);
-  }, []);
-
-  const checkStatus = async () => {
-    if (!jobId.trim()) {
+  const checkStatus = async (id = jobId) => {
+    if (!id.trim()) {
       setError("Please enter a job ID");
       return;
     }
 
+    setJobId(id);
     setError(null);
     setLoading(true);
     try {
-      const res = await getJobStatus(jobId);
+      const res = await getJobStatus(id.trim());
       if (res.ok) {
         setStatus(res.data);
         setShowDetails(true);
@@ -58,13 +54,16 @@ export default function JobsPage() {
   const getStatusBadge = (jobStatus: string) => {
     switch (jobStatus) {
       case "completed":
-        return <Badge variant="success">Completed</Badge>;
+      case "extracted":
+        return <Badge variant="success">Extracted</Badge>;
       case "running":
-        return <Badge variant="info">Running</Badge>;
+      case "processing":
+        return <Badge variant="info">Processing</Badge>;
       case "failed":
         return <Badge variant="danger">Failed</Badge>;
       case "pending":
-        return <Badge variant="warning">Pending</Badge>;
+      case "queued":
+        return <Badge variant="warning">Queued</Badge>;
       default:
         return <Badge>{jobStatus}</Badge>;
     }
@@ -103,12 +102,20 @@ export default function JobsPage() {
             disabled={loading}
           />
           <Button 
-            onClick={checkStatus} 
+            onClick={() => checkStatus()} 
             loading={loading}
             disabled={!jobId.trim() || loading}
           >
             {loading ? "Checking..." : "Check Status"}
           </Button>
+          <Button
+            variant="secondary"
+            onClick={() => trackJob({ task_id: jobId.trim(), label: jobId.trim(), user: "" })}
+            disabled={!jobId.trim() || recentJobs.some((j) => j.task_id === jobId.trim())}
+            title="Add this job to the history and poll it in the background"
+          >
+            Track
+          </Button>
         </div>
         
         <div className="mt-3 text-sm text-gray-600">
@@ -125,47 +132,82 @@ export default function JobsPage() {
             <Badge variant="info" className="ml-3">
               {recentJobs.length} jobs
             </Badge>
+            {activeCount > 0 && (
+              <Badge variant="warning" className="ml-2">
+                {activeCount} active
+              </Badge>
+            )}
           </h2>
           
-          <Button variant="secondary" size="sm">
-            Refresh List
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={clearFinished}
+            disabled={recentJobs.length === activeCount}
+          >
+            Clear Finished
           </Button>
         </div>
 
         <div className="space-y-3">
           {recentJobs.map((job) => (
             <div 
-              key={job.id}
+              key={job.task_id}
               className="card card-compact glass-hover group cursor-pointer"
-              onClick={() => {
-                setJobId(job.id);
-                setStatus({ status: job.status, progress: job.status === "running" ? 45 : 100 });
-                setShowDetails(true);
-              }}
+              onClick={() => checkStatus(job.task_id)}
             >
               <div className="flex items-center justify-between">
-                <div className="flex items-center gap-4">
-                  <div className="font-mono text-sm text-indigo-400">
-                    {job.id}
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {job.label}
+                      {job.filename && <span className="text-gray-500 font-normal"> • {job.filename}</span>}
+                    </div>
+                    <div className="font-mono text-xs text-indigo-400 truncate">
+                      {job.task_id}
+                    </div>
                   </div>
-                  {getStatusBadge(job.status)}
-                  {job.status === "running" && (
+                  {getStatusBadge(job.state)}
+                  {job.state === "processing" && (
                     <div className="flex items-center gap-2">
                       <LoadingSpinner size="sm" className="text-blue-400" />
-                      <span className="text-sm text-gray-600">Processing...</span>
+                      <span className="text-sm text-gray-600">
+                        {job.progress !== undefined ? `${Math.round(job.progress)}%` : "Processing..."}
+                      </span>
                     </div>
                   )}
+                  {job.state === "extracted" && job.total_frames !== undefined && (
+                    <span className="text-sm text-gray-600">{job.total_frames} frames</span>
+                  )}
+                  {job.state === "failed" && job.message && (
+                    <span className="text-sm text-red-600 truncate" title={job.message}>{job.message}</span>
+                  )}
                 </div>
                 
-                <div className="flex items-center gap-4">
+                <div className="flex items-center gap-4 flex-shrink-0">
                   <div className="text-sm text-gray-600">
-                    {job.timestamp}
-                  </div>
-                  <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-                    <svg className="w-4 h-4 text-gray-600" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 111.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
-                    </svg>
+                    {new Date(job.created_at).toLocaleString()}
                   </div>
+                  {!isTerminal(job.state) && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        refresh(job.task_id);
+                      }}
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Refresh
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      remove(job.task_id);
+                    }}
+                    className="text-xs text-red-600 hover:text-red-700 font-medium"
+                  >
+                    Remove
+                  </button>
                 </div>
               </div>
             </div>
@@ -176,7 +218,7 @@ export default function JobsPage() {
           <div className="text-center py-8 text-gray-600">
             <div className="text-4xl mb-3">🕐</div>
             <div>No recent jobs found</div>
-            <div className="text-sm mt-1">Jobs will appear here once you start processing tasks</div>
+            <div className="text-sm mt-1">Video uploads are tracked here automatically</div>
           </div>
         )}
       </div>
@@ -229,7 +271,7 @@ export default function JobsPage() {
               <Button variant="secondary" onClick={() => setShowDetails(false)}>
                 Close
               </Button>
-              <Button>
+              <Button onClick={() => checkStatus()} loading={loading}>
                 Refresh
               </Button>
             </div>
@@ -1,12 +1,24 @@
 import { useState, useEffect, useMemo } from "react";
-import { getLabels, getClassesList, getClassesStats } from "../api/dataset";
-import type { Label, ClassRow } from "../types";
+import { getLabels, getClassesList, getClassesStats, registerClass, updateClass, mergeClasses, archiveClass } from "../api/dataset";
+import type { Label, ClassRow, ReferenceMedia } from "../types";
 import ErrorBanner from "../components/ErrorBanner";
 import PageHeader from "../components/ui/PageHeader";
 import Button from "../components/ui/Button";
 import EmptyState from "../components/ui/EmptyState";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import Badge from "../components/ui/Badge";
+import CoveragePlanner from "../components/CoveragePlanner";
+import ReferenceMediaEditor from "../components/ReferenceMediaEditor";
+import { classReference } from "../api/references";
+import ClassFormModal from "../components/ClassFormModal";
+import type { ClassFormValues } from "../components/ClassFormModal";
+import MergeClassModal from "../components/MergeClassModal";
+import ClassImportWizard from "../components/ClassImportWizard";
+import { isAdmin } from "../utils/role";
+import { DIALECT_NAMES, normalizeDialect } from "../utils/dialects";
+import { rankMatches } from "../utils/text";
+import { invalidateClassOptions } from "../hooks/useClassOptions";
+import type { CoverageInput } from "../utils/coverage";
 
 export default function LabelsPage() {
   const [labels, setLabels] = useState<Label[]>([]);
@@ -18,29 +30,16 @@ export default function LabelsPage() {
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState<string>("");
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-
-  // Dialect normalization helper: map various forms to canonical slugs used by BE
-  const normalizeDialect = (d?: string) => {
-    if (!d) return '';
-    const s = String(d).toLowerCase().trim();
-    // common variants map
-    const map: Record<string, string> = {
-      'chung': 'common',
-      'common': 'common',
-      'bac': 'bac',
-      'bắc': 'bac',
-      'nam': 'nam',
-      'trung': 'trung',
-      'hoa-de': 'hoa-de',
-      'hoa de': 'hoa-de',
-      'hoade': 'hoa-de',
-      'cần thơ': 'can-tho',
-      'can tho': 'can-tho',
-      'cantho': 'can-tho',
-      'can-tho': 'can-tho',
-    };
-    return map[s] ?? s;
-  };
+  const [admin, setAdmin] = useState(isAdmin());
+  // Create (no row) or edit (row) form, and the class picked for merging
+  const [classForm, setClassForm] = useState<{ row?: ClassRow } | null>(null);
+  const [mergeSource, setMergeSource] = useState<ClassRow | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  // Bumped to refetch classes and stats (e.g. after a bulk import)
+  const [reloadKey, setReloadKey] = useState(0);
+  // Rows with a request in flight (shown dimmed until the server answers)
+  const [pendingUids, setPendingUids] = useState<Set<string>>(new Set());
+  const [referenceTarget, setReferenceTarget] = useState<{ class_uid: string; label: string; media: ReferenceMedia | null } | null>(null);
 
   // Normalize either `classes` (new BE) or legacy `labels` into a common render shape
   type RenderItem = {
@@ -54,13 +53,15 @@ export default function LabelsPage() {
     samples_count?: number;
     is_common_language?: boolean;
     is_common_global?: boolean;
+    reference_media?: ReferenceMedia | null;
   };
 
   const renderItems = useMemo<RenderItem[]>(() => {
-    const q = search.trim().toLowerCase();
+    const q = search.trim();
     const raw: RenderItem[] = [];
     if (classes && classes.length > 0) {
       for (const c of classes) {
+        if (String(c.archived) === '1' || c.archived === true) continue;
         // Client-side dialect filter if dialect is selected (use normalized forms)
         const cDialect = normalizeDialect(c.dialect);
         if (dialect && cDialect && dialect !== '' && cDialect !== dialect) {
@@ -77,6 +78,7 @@ export default function LabelsPage() {
           samples_count: sampleCounts[c.class_uid] ?? 0,
           is_common_language: String(c.is_common_language) === '1' || c.is_common_language === true,
           is_common_global: String(c.is_common_global) === '1' || c.is_common_global === true,
+          reference_media: classReference(c),
         });
       }
     } else {
@@ -92,15 +94,17 @@ export default function LabelsPage() {
     }
 
     if (!q) return raw;
-    return raw.filter((r) => {
-      return (
-        String(r.class_idx).includes(q) ||
-        (r.label_original || '').toLowerCase().includes(q) ||
-        (r.slug || '').toLowerCase().includes(q)
-      );
-    });
+    // "cam on" finds "Cảm ơn"; best matches first, numeric queries still hit the ID
+    return rankMatches(raw, q, (r) => [r.label_original, r.slug, /^\d+$/.test(q) ? String(r.class_idx) : undefined]);
   }, [classes, labels, search, sampleCounts, dialect]);
 
+  // Coverage planning needs class_uid, so legacy labels are left out
+  const coverageRows = useMemo<CoverageInput[]>(() =>
+    renderItems
+      .filter((r): r is RenderItem & { class_uid: string } => !!r.class_uid)
+      .map((r) => ({ class_uid: r.class_uid, label: r.label_original, dialect: r.dialect, count: r.samples_count ?? 0 })),
+  [renderItems]);
+
   useEffect(() => {
     let mounted = true;
     (async () => {
@@ -162,7 +166,174 @@ export default function LabelsPage() {
     return () => {
       mounted = false;
     };
-  }, [language]); // Chỉ phụ thuộc language, KHÔNG phụ thuộc dialect
+  }, [language, reloadKey]); // Chỉ phụ thuộc language, KHÔNG phụ thuộc dialect
+
+  useEffect(() => {
+    const onRole = () => setAdmin(isAdmin());
+    window.addEventListener('voya:rolechange', onRole);
+    return () => window.removeEventListener('voya:rolechange', onRole);
+  }, []);
+
+  const activeClasses = useMemo(
+    () => (classes ?? []).filter((c) => !(String(c.archived) === '1' || c.archived === true)),
+    [classes],
+  );
+
+  const setPending = (uid: string, pending: boolean) => {
+    setPendingUids((prev) => {
+      const next = new Set(prev);
+      if (pending) next.add(uid);
+      else next.delete(uid);
+      return next;
+    });
+  };
+
+  // Replace (or drop, with null) one row; `at` re-inserts a removed row in place
+  const replaceRow = (uid: string, row: ClassRow | null, at?: number) => {
+    setClasses((prev) => {
+      const list = prev ?? [];
+      if (!list.some((c) => c.class_uid === uid)) {
+        if (!row) return list;
+        const next = [...list];
+        next.splice(at ?? next.length, 0, row);
+        return next;
+      }
+      return row
+        ? list.map((c) => (c.class_uid === uid ? row : c))
+        : list.filter((c) => c.class_uid !== uid);
+    });
+  };
+
+  const handleCreate = async (values: ClassFormValues) => {
+    const tempUid = `tmp_${Date.now()}`;
+    const temp: ClassRow = {
+      class_uid: tempUid,
+      class_idx: -1,
+      slug: values.slug,
+      label_original: values.label,
+      language,
+      dialect: values.dialect,
+      is_common_global: values.is_common_global,
+      is_common_language: values.is_common_language,
+    };
+    replaceRow(tempUid, temp);
+    setPending(tempUid, true);
+    const res = await registerClass({
+      label: values.label,
+      slug: values.slug,
+      language,
+      dialect: values.dialect,
+      is_common_global: values.is_common_global,
+      is_common_language: values.is_common_language,
+    });
+    setPending(tempUid, false);
+    if (res.ok) {
+      setClasses((prev) => (prev ?? []).map((c) => (c.class_uid === tempUid ? { ...temp, ...res.data } : c)));
+      invalidateClassOptions();
+    } else {
+      replaceRow(tempUid, null);
+      setError(`Không thêm được nhãn "${values.label}": ${res.error}`);
+    }
+  };
+
+  const handleEdit = async (row: ClassRow, values: ClassFormValues) => {
+    const patch = {
+      label_original: values.label,
+      slug: values.slug,
+      is_common_global: values.is_common_global,
+      is_common_language: values.is_common_language,
+    };
+    replaceRow(row.class_uid, { ...row, ...patch });
+    setPending(row.class_uid, true);
+    const res = await updateClass(row.class_uid, patch);
+    setPending(row.class_uid, false);
+    if (res.ok) {
+      replaceRow(row.class_uid, { ...row, ...patch, ...res.data });
+      invalidateClassOptions();
+    } else {
+      replaceRow(row.class_uid, row);
+      setError(`Không lưu được nhãn "${row.label_original}": ${res.error}`);
+    }
+  };
+
+  const handleArchive = async (row: ClassRow) => {
+    if (!confirm(`Lưu trữ nhãn "${row.label_original}"? Nhãn sẽ bị ẩn khỏi danh sách và không nhận mẫu mới; các mẫu cũ được giữ lại.`)) return;
+    const index = (classes ?? []).findIndex((c) => c.class_uid === row.class_uid);
+    replaceRow(row.class_uid, null);
+    const res = await archiveClass(row.class_uid);
+    if (res.ok) {
+      invalidateClassOptions();
+    } else {
+      replaceRow(row.class_uid, row, index);
+      setError(`Không lưu trữ được nhãn "${row.label_original}": ${res.error}`);
+    }
+  };
+
+  const handleMerge = async (source: ClassRow, target: ClassRow) => {
+    const index = (classes ?? []).findIndex((c) => c.class_uid === source.class_uid);
+    const moved = sampleCounts[source.class_uid] ?? 0;
+    const shiftCounts = (sign: 1 | -1) => setSampleCounts((prev) => ({
+      ...prev,
+      [source.class_uid]: sign > 0 ? 0 : moved,
+      [target.class_uid]: (prev[target.class_uid] ?? 0) + sign * moved,
+    }));
+    replaceRow(source.class_uid, null);
+    shiftCounts(1);
+    setPending(target.class_uid, true);
+    const res = await mergeClasses(source.class_uid, target.class_uid);
+    setPending(target.class_uid, false);
+    if (res.ok) {
+      invalidateClassOptions();
+    } else {
+      replaceRow(source.class_uid, source, index);
+      shiftCounts(-1);
+      setError(`Không gộp được "${source.label_original}" vào "${target.label_original}": ${res.error}`);
+    }
+  };
+
+  const findClass = (uid?: string) => (uid ? classes?.find((c) => c.class_uid === uid) : undefined);
+
+  const adminActions = (item: RenderItem) => {
+    const row = findClass(item.class_uid);
+    if (!admin || !row || pendingUids.has(row.class_uid)) return null;
+    return (
+      <div className="flex items-center gap-1">
+        <button type="button" onClick={() => setClassForm({ row })} className="px-2 py-1 text-xs rounded hover:bg-gray-100" title="Sửa nhãn và cờ">
+          ✏️ Sửa
+        </button>
+        <button type="button" onClick={() => setMergeSource(row)} className="px-2 py-1 text-xs rounded hover:bg-gray-100" title="Gộp vào nhãn khác">
+          🔀 Gộp
+        </button>
+        <button type="button" onClick={() => handleArchive(row)} className="px-2 py-1 text-xs rounded text-red-600 hover:bg-red-50" title="Lưu trữ nhãn">
+          🗄️ Lưu trữ
+        </button>
+      </div>
+    );
+  };
+
+  const handleReferenceSaved = (classUid: string, media: ReferenceMedia | null) => {
+    setClasses((prev) => prev && prev.map((c) => (
+      c.class_uid === classUid ? { ...c, reference_media: media, reference_url: undefined } : c
+    )));
+  };
+
+  // Admins manage the reference; everyone else can only watch an existing one
+  const referenceButton = (item: RenderItem) => {
+    const classUid = item.class_uid;
+    if (!classUid || (!admin && !item.reference_media)) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => setReferenceTarget({ class_uid: classUid, label: item.label_original, media: item.reference_media ?? null })}
+        className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+          item.reference_media ? 'bg-indigo-100 text-indigo-800 hover:bg-indigo-200' : 'bg-white border border-dashed border-gray-300 text-gray-500 hover:border-indigo-300'
+        }`}
+        title={admin ? "Quản lý mẫu tham chiếu" : "Xem mẫu tham chiếu"}
+      >
+        🎬 {!admin ? 'Xem mẫu' : item.reference_media ? 'Có mẫu' : 'Thêm mẫu'}
+      </button>
+    );
+  };
 
   const exportJSON = () => {
     const data = JSON.stringify(classes && classes.length > 0 ? classes : labels, null, 2);
@@ -178,12 +349,15 @@ export default function LabelsPage() {
   const exportCSV = useMemo(() => {
     const rows = ['class_idx,label_original,slug'];
     if (classes && classes.length > 0) {
-      classes.forEach(c => rows.push(`${c.class_idx},"${String(c.label_original).replace(/"/g, '""')}",${c.slug}`));
+      // Extra columns let the file be edited and re-imported as-is
+      rows[0] += ',language,dialect,is_common_global,is_common_language';
+      const flag = (v: unknown) => (v === true || String(v) === '1' ? 1 : 0);
+      classes.forEach(c => rows.push(`${c.class_idx},"${String(c.label_original).replace(/"/g, '""')}",${c.slug},${c.language ?? language},${normalizeDialect(c.dialect)},${flag(c.is_common_global)},${flag(c.is_common_language)}`));
     } else {
       labels.forEach(l => rows.push(`${l.class_idx},"${l.label_original.replace(/"/g, '""')}",${l.slug}`));
     }
     return rows.join('\n');
-  }, [labels, classes]);
+  }, [labels, classes, language]);
 
   const downloadCSV = () => {
     const blob = new Blob([exportCSV], { type: 'text/csv' });
@@ -249,6 +423,10 @@ export default function LabelsPage() {
         </div>
       )}
 
+      {!loading && coverageRows.length > 0 && (
+        <CoveragePlanner rows={coverageRows} dialectNames={DIALECT_NAMES} />
+      )}
+
       {/* Labels list */}
       <div className="card">
         <div className="space-y-4">
@@ -263,6 +441,16 @@ export default function LabelsPage() {
             </h2>
             
             <div className="flex items-center gap-2">
+              {admin && classes && (
+                <>
+                  <Button size="sm" onClick={() => setClassForm({})}>
+                    <span className="text-xs">➕ Thêm nhãn</span>
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => setShowImport(true)}>
+                    <span className="text-xs">📤 Nhập CSV/JSON</span>
+                  </Button>
+                </>
+              )}
               {!loading && renderItems.length > 0 && (
                 <>
                   <Button variant="secondary" size="sm" onClick={exportJSON}>
@@ -346,7 +534,7 @@ export default function LabelsPage() {
             {renderItems.map((item) => (
               <div 
                 key={item.class_uid ?? item.class_idx}
-                className={`${
+                className={`${item.class_uid && pendingUids.has(item.class_uid) ? 'opacity-60 ' : ''}${
                   viewMode === 'grid' 
                     ? 'card group hover:shadow-xl hover:-translate-y-1 transition-all duration-300 p-6 border-2 border-transparent hover:border-indigo-200' 
                     : 'card group hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50 transition-all duration-200 p-5'
@@ -414,8 +602,10 @@ export default function LabelsPage() {
                             ⭐ Toàn cầu
                           </span>
                         )}
+                        {referenceButton(item)}
                       </div>
                     )}
+                    {viewMode === 'grid' && adminActions(item)}
                   </div>
                   
                   {/* List view */}
@@ -448,7 +638,9 @@ export default function LabelsPage() {
                         {item.is_common_global && (
                           <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800">⭐ Toàn cầu</span>
                         )}
+                        {referenceButton(item)}
                       </div>
+                      {adminActions(item)}
                     </div>
                   )}
                 </div>
@@ -457,6 +649,50 @@ export default function LabelsPage() {
           </div>
         )}
       </div>
+
+      {classForm && (
+        <ClassFormModal
+          initial={classForm.row}
+          classes={activeClasses}
+          onClose={() => setClassForm(null)}
+          onSubmit={(values) => {
+            const row = classForm.row;
+            void (row ? handleEdit(row, values) : handleCreate(values));
+          }}
+        />
+      )}
+
+      {showImport && (
+        <ClassImportWizard
+          language={language}
+          onClose={() => setShowImport(false)}
+          onApplied={() => {
+            setReloadKey((k) => k + 1);
+            invalidateClassOptions();
+          }}
+        />
+      )}
+
+      {mergeSource && (
+        <MergeClassModal
+          source={mergeSource}
+          classes={activeClasses}
+          sampleCounts={sampleCounts}
+          onClose={() => setMergeSource(null)}
+          onMerge={(target) => void handleMerge(mergeSource, target)}
+        />
+      )}
+
+      {referenceTarget && (
+        <ReferenceMediaEditor
+          classUid={referenceTarget.class_uid}
+          label={referenceTarget.label}
+          initial={referenceTarget.media}
+          onClose={() => setReferenceTarget(null)}
+          onSaved={(media) => handleReferenceSaved(referenceTarget.class_uid, media)}
+          readOnly={!admin}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import Button from "../components/ui/Button";
+import ErrorBanner from "../components/ErrorBanner";
+import { useAuth } from "../hooks/useAuth";
+import { notify } from "../utils/notify";
+
+export default function LoginPage() {
+  const { user, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Set by RequireAdmin / an expired session so we can return there
+  const from = (location.state as { from?: string } | null)?.from || "/upload";
+
+  if (user && !loading) return <Navigate to={from} replace />;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setError("Nhập tên đăng nhập và mật khẩu");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const res = await login(username.trim(), password);
+    setLoading(false);
+    if (!res.ok) {
+      setError(res.error);
+      return;
+    }
+    notify(`Xin chào, ${res.data.user.display_name || res.data.user.username}`, "success");
+    navigate(from, { replace: true });
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-12">
+      <div className="card space-y-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Đăng nhập</h2>
+          <p className="text-sm text-gray-500">Cần đăng nhập để duyệt mẫu và quản lý dữ liệu.</p>
+        </div>
+
+        {error && <ErrorBanner message={error} onClose={() => setError(null)} type="error" />}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="text-sm text-gray-700 mb-2 block">Tên đăng nhập</label>
+            <input
+              className="input w-full"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="text-sm text-gray-700 mb-2 block">Mật khẩu</label>
+            <input
+              type="password"
+              className="input w-full"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          </div>
+          <Button type="submit" className="w-full" loading={loading}>Đăng nhập</Button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,18 @@
 import { useState, useEffect } from 'react';
 import Button from '../components/ui/Button';
 import { uploadCamera } from '../api/upload';
-import type { CameraUploadPayload } from '../types';
+import { currentConsent } from '../api/signers';
+import type { CameraUploadPayload, SignerProfile } from '../types';
 import { getRole } from '../utils/role';
+import LabelCombobox from '../components/LabelCombobox';
+import SignerPicker from '../components/SignerPicker';
 
 export default function PublicUploadPage() {
   const [label, setLabel] = useState('');
-  const [user, setUser] = useState('');
+  const [classUid, setClassUid] = useState<string | undefined>(undefined);
+  // Uploads carry the signer's profile id and the consent they accepted
+  const [signer, setSigner] = useState<SignerProfile | null>(null);
+  const consent = currentConsent(signer);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [role, setRole] = useState(getRole());
@@ -18,8 +24,12 @@ export default function PublicUploadPage() {
   }, []);
 
   const handleSubmit = async () => {
-    if (!label || !user) {
-      setMessage('Please fill both name and label');
+    if (!label || !signer) {
+      setMessage('Please choose who is signing and a label');
+      return;
+    }
+    if (!consent) {
+      setMessage('The signer has to accept the consent form first');
       return;
     }
     setLoading(true);
@@ -27,18 +37,21 @@ export default function PublicUploadPage() {
 
     // Minimal payload: front-end will let user upload via camera flow; here we send a tiny sample marker.
     const payload: CameraUploadPayload = {
-      user,
+      user: signer.display_name,
+      signer_id: signer.signer_id,
+      consent,
       label,
       session_id: `public-${Date.now()}`,
       frames: [],
     };
+    if (classUid) payload.class_uid = classUid;
 
     try {
       const res = await uploadCamera(payload);
       if (res.ok) {
         setMessage('Thanks — your sample was queued for processing.');
         setLabel('');
-        setUser('');
+        setClassUid(undefined);
       } else {
         setMessage(res.error || 'Upload failed');
       }
@@ -57,18 +70,25 @@ export default function PublicUploadPage() {
 
         <div className="space-y-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700">Your name</label>
-            <input className="input w-full" value={user} onChange={(e) => setUser(e.target.value)} />
+            <label className="block text-sm font-medium text-gray-700">Signer</label>
+            <SignerPicker value={signer} onChange={setSigner} disabled={loading} />
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700">Label</label>
-            <input className="input w-full" value={label} onChange={(e) => setLabel(e.target.value)} />
+            <LabelCombobox
+              value={label}
+              classUid={classUid}
+              onChange={(value, row) => {
+                setLabel(value);
+                setClassUid(row?.class_uid);
+              }}
+            />
           </div>
 
           <div className="flex items-center justify-between pt-4 border-t border-gray-200">
             <div className="text-xs text-gray-500">Role: <strong>{role}</strong></div>
-            <Button onClick={handleSubmit} loading={loading} disabled={loading || !label || !user}>Submit</Button>
+            <Button onClick={handleSubmit} loading={loading} disabled={loading || !label || !consent}>Submit</Button>
           </div>
 
           {message && (
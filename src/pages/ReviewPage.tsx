@@ -0,0 +1,388 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getSampleData } from "../api/dataset";
+import { listSamples, DEFAULT_SAMPLE_QUERY } from "../api/samples";
+import { getReviewStats, reviewSample } from "../api/reviews";
+import type { ReviewDecision, ReviewStats, Sample } from "../types";
+import PageHeader from "../components/ui/PageHeader";
+import Button from "../components/ui/Button";
+import Badge from "../components/ui/Badge";
+import LoadingSpinner from "../components/ui/LoadingSpinner";
+import ErrorBanner from "../components/ErrorBanner";
+import SampleViewer from "../components/SampleViewer";
+import LabelCombobox from "../components/LabelCombobox";
+import { decodeSampleData } from "../utils/sampleData";
+import type { DecodedSample } from "../utils/sampleData";
+import { QUALITY_ISSUE_LABELS, qualityVariant } from "../utils/quality";
+import { DIALECT_NAMES } from "../utils/dialects";
+import { isAdmin } from "../utils/role";
+import { useAuth } from "../hooks/useAuth";
+import { notify } from "../utils/notify";
+
+// Samples fetched per batch; decided ones leave the pending list, so the next
+// batch is simply the first page again
+const BATCH_SIZE = 50;
+
+// Picked with keys 1–5
+const QUICK_REASONS = ["Sai ký hiệu", "Sai nhãn", "Thiếu tay / tay bị che", "Ký hiệu bị cắt", "Landmark nhiễu"];
+
+type SessionCounts = { approved: number; rejected: number; relabeled: number; started: number | null };
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT" || target.isContentEditable);
+
+export default function ReviewPage() {
+  const [admin, setAdmin] = useState(isAdmin());
+  const { user } = useAuth();
+  const reviewer = user?.username ?? "";
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [assignedOnly, setAssignedOnly] = useState(false);
+  const [queue, setQueue] = useState<Sample[]>([]);
+  const [index, setIndex] = useState(0);
+  const [pendingTotal, setPendingTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to fetch the next batch
+  const [batchKey, setBatchKey] = useState(0);
+  const [decoded, setDecoded] = useState<DecodedSample | null>(null);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [relabel, setRelabel] = useState<{ label: string; classUid?: string }>({ label: "" });
+  const [busy, setBusy] = useState(false);
+  const [session, setSession] = useState<SessionCounts>({ approved: 0, rejected: 0, relabeled: 0, started: null });
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const reasonRef = useRef<HTMLInputElement>(null);
+  const relabelRef = useRef<HTMLDivElement>(null);
+  // Skipped samples stay pending; keep them out of later batches
+  const skippedRef = useRef(new Set<string>());
+
+  const current = queue[index] as Sample | undefined;
+  const assignee = assignedOnly ? reviewer || undefined : undefined;
+
+  useEffect(() => {
+    const onRole = () => setAdmin(isAdmin());
+    window.addEventListener('voya:rolechange', onRole);
+    return () => window.removeEventListener('voya:rolechange', onRole);
+  }, []);
+
+  const refreshStats = useCallback(async () => {
+    const res = await getReviewStats();
+    if (res.ok) setStats(res.data);
+  }, []);
+
+  useEffect(() => {
+    void refreshStats();
+  }, [refreshStats]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    listSamples(
+      { ...DEFAULT_SAMPLE_QUERY, page_size: BATCH_SIZE, sort: "created_at", order: "asc", review_status: "pending", flagged: flaggedOnly || undefined, assigned_to: assignee },
+      controller.signal
+    ).then((res) => {
+      if (controller.signal.aborted) return;
+      if (res.ok) {
+        setQueue(res.data.items.filter((s) => !skippedRef.current.has(s.sample_id ?? "")));
+        setPendingTotal(res.data.total);
+        setIndex(0);
+        setError(null);
+      } else {
+        setError(res.error);
+      }
+      setLoading(false);
+    });
+    return () => controller.abort();
+  }, [flaggedOnly, assignee, batchKey]);
+
+  // Load and decode the current sample; reset the decision inputs
+  const currentId = current?.sample_id;
+  useEffect(() => {
+    setReason("");
+    setRelabel({ label: "" });
+    setDecoded(null);
+    setDataError(null);
+    if (!currentId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const buf: ArrayBuffer = await getSampleData(currentId);
+        const result = await decodeSampleData(buf);
+        if (!cancelled) setDecoded(result);
+      } catch (err: unknown) {
+        if (!cancelled) setDataError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentId]);
+
+  const skip = useCallback(() => {
+    if (!current?.sample_id) return;
+    skippedRef.current.add(current.sample_id);
+    setIndex((i) => i + 1);
+  }, [current]);
+
+  const decide = useCallback(async (status: ReviewDecision["status"], withRelabel = false) => {
+    if (!current?.sample_id || busy) return;
+    if (!reviewer) {
+      notify("Phiên đăng nhập đã hết, đăng nhập lại để duyệt mẫu", "warning");
+      return;
+    }
+    if (status === "rejected" && !reason.trim()) {
+      notify("Cần lý do khi loại mẫu (phím 1–5 để chọn nhanh)", "warning");
+      reasonRef.current?.focus();
+      return;
+    }
+    const decision: ReviewDecision = { status, reviewer };
+    if (reason.trim()) decision.reason = reason.trim();
+    const relabeled = withRelabel && relabel.label.trim() !== "" && relabel.label.trim() !== current.label;
+    if (withRelabel && !relabeled) {
+      notify("Chọn nhãn mới khác nhãn hiện tại", "warning");
+      relabelRef.current?.querySelector("input")?.focus();
+      return;
+    }
+    if (relabeled) {
+      decision.label = relabel.label.trim();
+      if (relabel.classUid) decision.class_uid = relabel.classUid;
+    }
+
+    setBusy(true);
+    const res = await reviewSample(current.sample_id, decision);
+    setBusy(false);
+    if (!res.ok) {
+      notify(`Không lưu được quyết định cho mẫu ${current.sample_id}: ${res.error}`, "error");
+      return;
+    }
+    const id = current.sample_id;
+    setQueue((q) => q.filter((s) => s.sample_id !== id));
+    setPendingTotal((n) => Math.max(0, n - 1));
+    setSession((s) => ({
+      approved: s.approved + (status === "approved" ? 1 : 0),
+      rejected: s.rejected + (status === "rejected" ? 1 : 0),
+      relabeled: s.relabeled + (relabeled ? 1 : 0),
+      started: s.started ?? Date.now(),
+    }));
+    void refreshStats();
+  }, [current, busy, reviewer, reason, relabel, refreshStats]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isTyping(e.target)) {
+        if (e.key === "Escape") (e.target as HTMLElement).blur();
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "a") void decide("approved");
+      else if (key === "r") void decide("rejected");
+      else if (key === "l") {
+        e.preventDefault();
+        relabelRef.current?.querySelector("input")?.focus();
+      } else if (key === "s" || e.key === "ArrowRight") skip();
+      else if (e.key === "ArrowLeft") setIndex((i) => Math.max(0, i - 1));
+      else if (/^[1-5]$/.test(e.key)) setReason(QUICK_REASONS[Number(e.key) - 1]);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [decide, skip]);
+
+  const decided = session.approved + session.rejected;
+  const minutes = session.started ? Math.max(1, (Date.now() - session.started) / 60000) : 0;
+
+  if (!admin) {
+    return (
+      <div className="space-y-6">
+        <PageHeader title="Duyệt mẫu" breadcrumb={["Dữ liệu", "Duyệt mẫu"]} />
+        <div className="card text-center py-12 text-gray-600">Chỉ quản trị viên mới duyệt được mẫu.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Duyệt mẫu"
+        subtitle="Xem lại từng mẫu chưa duyệt, duyệt, loại hoặc đổi nhãn bằng phím tắt."
+        breadcrumb={["Dữ liệu", "Duyệt mẫu"]}
+        actions={
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-700" title="Quyết định được ghi dưới tài khoản đang đăng nhập">
+              Người duyệt: <span className="font-medium">{user?.display_name || reviewer}</span>
+            </span>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />
+              Chỉ mẫu bị đánh dấu
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700" title="Mẫu được giao cho bạn mà bạn chưa bỏ phiếu">
+              <input type="checkbox" checked={assignedOnly} onChange={(e) => setAssignedOnly(e.target.checked)} />
+              Chỉ mẫu giao cho tôi
+            </label>
+          </div>
+        }
+      />
+
+      {error && <ErrorBanner message={error} onClose={() => setError(null)} type="error" />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 card space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : !current ? (
+            <div className="text-center py-16 space-y-3">
+              <div className="text-5xl">🎉</div>
+              <div className="text-gray-700">
+                {pendingTotal > 0 ? "Đã xem hết lượt mẫu này." : "Không còn mẫu nào chờ duyệt."}
+              </div>
+              <Button variant="secondary" onClick={() => setBatchKey((k) => k + 1)}>🔄 Tải lượt tiếp theo</Button>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="info">{current.label || "Chưa gán nhãn"}</Badge>
+                  <span className="text-sm text-gray-600">
+                    {current.user || "?"} • {current.dialect ? DIALECT_NAMES[current.dialect] ?? current.dialect : "—"}
+                    {current.created_at && ` • ${new Date(current.created_at).toLocaleString()}`}
+                  </span>
+                  {typeof current.quality_score === "number" && (
+                    <Badge variant={qualityVariant(current.quality_score)} size="sm">
+                      Chất lượng {current.quality_score}
+                    </Badge>
+                  )}
+                  {current.quality_issues?.map((code) => (
+                    <span key={code} className="text-xs text-gray-500">{QUALITY_ISSUE_LABELS[code]}</span>
+                  ))}
+                </div>
+                <span className="text-sm text-gray-500 font-mono">
+                  #{current.sample_id} • {index + 1}/{queue.length}
+                </span>
+              </div>
+
+              {decoded ? (
+                <SampleViewer frames={decoded.frames} height={380} />
+              ) : dataError ? (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-sm text-red-700">
+                  Không đọc được dữ liệu mẫu: {dataError}
+                </div>
+              ) : (
+                <div className="flex items-center justify-center h-[380px] bg-gray-900 rounded-lg">
+                  <LoadingSpinner />
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm text-gray-700 mb-2 block">Lý do (bắt buộc khi loại)</label>
+                  <input
+                    ref={reasonRef}
+                    className="input w-full"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Ví dụ: tay ra ngoài khung"
+                  />
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {QUICK_REASONS.map((r, i) => (
+                      <button
+                        key={r}
+                        type="button"
+                        onClick={() => setReason(r)}
+                        className={`text-xs px-2 py-1 rounded border ${reason === r ? "border-indigo-500 bg-indigo-50 text-indigo-700" : "border-gray-300 text-gray-600 hover:bg-gray-100"}`}
+                      >
+                        {i + 1}. {r}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div ref={relabelRef}>
+                  <label className="text-sm text-gray-700 mb-2 block">Đổi nhãn (L)</label>
+                  <LabelCombobox
+                    value={relabel.label}
+                    classUid={relabel.classUid}
+                    onChange={(label, row) => setRelabel({ label, classUid: row?.class_uid })}
+                    dialect={current.dialect}
+                    placeholder={current.label || "Nhãn mới"}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <Button onClick={() => void decide("approved")} loading={busy}>✅ Duyệt (A)</Button>
+                <Button variant="danger" onClick={() => void decide("rejected")} disabled={busy}>❌ Loại (R)</Button>
+                <Button variant="secondary" onClick={() => void decide("approved", true)} disabled={busy || !relabel.label.trim()}>
+                  🏷️ Đổi nhãn &amp; duyệt
+                </Button>
+                <div className="flex-1" />
+                <Button variant="ghost" onClick={() => setIndex((i) => Math.max(0, i - 1))} disabled={index === 0}>← Trước</Button>
+                <Button variant="ghost" onClick={skip}>Bỏ qua (S) →</Button>
+              </div>
+              <div className="text-xs text-gray-500">
+                Phím tắt: A duyệt • R loại • L đổi nhãn • 1–5 lý do nhanh • S/→ bỏ qua • ← quay lại • Esc rời ô nhập
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <div className="card space-y-3">
+            <h3 className="text-lg font-semibold text-gray-900">⏱️ Phiên này</h3>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <div className="text-2xl font-bold text-green-600">{session.approved}</div>
+                <div className="text-xs text-gray-500">Đã duyệt</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-red-600">{session.rejected}</div>
+                <div className="text-xs text-gray-500">Bị loại</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-indigo-600">{session.relabeled}</div>
+                <div className="text-xs text-gray-500">Đổi nhãn</div>
+              </div>
+            </div>
+            <div className="text-sm text-gray-600">
+              {decided > 0 ? `${(decided / minutes).toFixed(1)} mẫu/phút` : "Chưa duyệt mẫu nào"} • còn {pendingTotal} mẫu chờ duyệt
+            </div>
+          </div>
+
+          <div className="card space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">👥 Người duyệt</h3>
+              {stats && <Badge variant="warning" size="sm">{stats.pending} chờ duyệt</Badge>}
+            </div>
+            {!stats || stats.reviewers.length === 0 ? (
+              <div className="text-sm text-gray-500">Chưa có số liệu.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-1">Tên</th>
+                    <th className="py-1 text-right">Hôm nay</th>
+                    <th className="py-1 text-right">✅</th>
+                    <th className="py-1 text-right">❌</th>
+                    <th className="py-1 text-right">🏷️</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...stats.reviewers].sort((a, b) => b.today - a.today).map((r) => (
+                    <tr key={r.reviewer} className={`border-b last:border-0 ${r.reviewer === reviewer ? "font-semibold" : ""}`}>
+                      <td className="py-1" title={r.last_reviewed_at ? `Lần cuối: ${new Date(r.last_reviewed_at).toLocaleString()}` : undefined}>{r.reviewer}</td>
+                      <td className="py-1 text-right">{r.today}</td>
+                      <td className="py-1 text-right">{r.approved}</td>
+                      <td className="py-1 text-right">{r.rejected}</td>
+                      <td className="py-1 text-right">{r.relabeled}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
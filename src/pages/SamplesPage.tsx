@@ -1,130 +1,156 @@
-import { useEffect, useState, useMemo } from "react";
-import { getSamples, getSampleData, deleteSample } from "../api/dataset";
-import SamplePreview from "../components/SamplePreview";
-import type { Sample as SampleT, Filters } from "../types";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { getSampleData, deleteSample } from "../api/dataset";
+import { listSamples, parseSampleQuery, sampleQueryParams } from "../api/samples";
+import { REVIEW_STATUSES } from "../api/reviews";
+import type { SampleFilterKey, SampleQuery, SampleSortKey } from "../api/samples";
+import SampleViewer from "../components/SampleViewer";
+import AssignReviewersModal from "../components/AssignReviewersModal";
+import type { ReviewStatus, Sample as SampleT } from "../types";
 import ErrorBanner from "../components/ErrorBanner";
 import PageHeader from "../components/ui/PageHeader";
 import Button from "../components/ui/Button";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import Badge from "../components/ui/Badge";
 import Modal from "../components/ui/Modal";
+import { DIALECT_NAMES } from "../utils/dialects";
+import { QUALITY_FLAG_THRESHOLD, QUALITY_ISSUE_LABELS, qualityVariant } from "../utils/quality";
+import { notify } from "../utils/notify";
+import { decodeSampleData, sampleDataExtension } from "../utils/sampleData";
+import type { DecodedSample } from "../utils/sampleData";
+
+// Free-text filters are written to the URL after typing pauses
+const TEXT_FILTER_DELAY_MS = 350;
+const TEXT_FILTERS = ["label", "user", "session_id"] as const;
+type TextFilter = (typeof TEXT_FILTERS)[number];
+
+const REVIEW_BADGES: Record<ReviewStatus, { variant: "warning" | "success" | "danger" | "info"; text: string }> = {
+  pending: { variant: "warning", text: "Pending review" },
+  approved: { variant: "success", text: "Approved" },
+  rejected: { variant: "danger", text: "Rejected" },
+  disputed: { variant: "info", text: "Disputed" },
+};
+
+const COLUMNS: Array<{ key: SampleSortKey | null; title: string }> = [
+  { key: null, title: "Sample ID" },
+  { key: "label", title: "Label" },
+  { key: "user", title: "User" },
+  { key: "dialect", title: "Dialect" },
+  { key: "frames", title: "Frames" },
+  { key: "quality_score", title: "Quality" },
+  { key: "created_at", title: "Created" },
+];
 
 export default function SamplesPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseSampleQuery(searchParams), [searchParams]);
   const [samples, setSamples] = useState<SampleT[]>([]);
-  const [filteredSamples, setFilteredSamples] = useState<SampleT[]>([]);
-  const [selectedKeypoints, setSelectedKeypoints] = useState<number[][] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [decoded, setDecoded] = useState<DecodedSample | null>(null);
+  const [previewLoading, setPreviewLoading] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [selectedSample, setSelectedSample] = useState<SampleT | null>(null);
-  const [search, setSearch] = useState("");
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
-  const [page, setPage] = useState(1);
-  const [limit, setLimit] = useState(25);
-  
-  // Filters
-  const [filters, setFilters] = useState<Filters>({
-    user: "",
-    label: "",
-    date: ""
-  });
-  const [showFilters, setShowFilters] = useState(false);
+  const [showAssign, setShowAssign] = useState(false);
+  // Bumped to refetch the current page (e.g. after deleting)
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showFilters, setShowFilters] = useState(() => TEXT_FILTERS.some((k) => query[k]) || !!(query.dialect || query.date_from || query.date_to || query.flagged || query.review_status));
+  const [drafts, setDrafts] = useState<Record<TextFilter, string>>(() => ({
+    label: query.label ?? "",
+    user: query.user ?? "",
+    session_id: query.session_id ?? "",
+  }));
+
+  const pageCount = Math.max(1, Math.ceil(total / query.page_size));
+  const activeFilters = (["label", "user", "session_id", "dialect", "date_from", "date_to", "flagged", "review_status"] as Array<SampleFilterKey | "flagged" | "review_status">).filter((k) => query[k]);
+
+  // Any filter or sort change goes back to page 1
+  const updateQuery = useCallback((patch: Partial<SampleQuery>, resetPage = true) => {
+    setSearchParams((prev) => {
+      const next = { ...parseSampleQuery(prev), ...patch };
+      if (resetPage && patch.page === undefined) next.page = 1;
+      return sampleQueryParams(next);
+    }, { replace: true });
+  }, [setSearchParams]);
 
   useEffect(() => {
-    let mounted = true;
-    (async () => {
-      try {
-        const result = await getSamples();
-        if (!mounted) return;
-        if (result.ok) {
-          const sampleData = result.data as unknown as SampleT[];
-          setSamples(sampleData);
-          setFilteredSamples(sampleData);
-        } else {
-          setError(result.error);
-        }
-      } catch (err: unknown) {
-        const msg = err instanceof Error ? err.message : String(err);
-        setError(msg || "Failed to load samples");
-      } finally {
-        setLoading(false);
+    const controller = new AbortController();
+    setLoading(true);
+    listSamples(query, controller.signal).then((res) => {
+      if (controller.signal.aborted) return;
+      if (res.ok) {
+        setSamples(res.data.items);
+        setTotal(res.data.total);
+        setError(null);
+      } else {
+        setError(res.error);
       }
-    })();
-    return () => {
-      mounted = false;
-    };
-  }, []);
+      setLoading(false);
+    });
+    setSelectedIds([]);
+    return () => controller.abort();
+  }, [query, reloadKey]);
 
-  // Apply filters
+  // Typed filters reach the URL after a pause
   useEffect(() => {
-    let filtered = samples;
-    
-    if (filters.user) {
-      filtered = filtered.filter(s => 
-        s.user?.toLowerCase().includes(filters.user.toLowerCase())
-      );
-    }
-    
-    if (filters.label) {
-      filtered = filtered.filter(s => 
-        s.label?.toLowerCase().includes(filters.label.toLowerCase())
-      );
-    }
-    
-    if (filters.date) {
-      filtered = filtered.filter(s => 
-        s.created_at?.includes(filters.date)
-      );
-    }
-    
-    setFilteredSamples(filtered);
-  }, [samples, filters]);
-
-  const searched = useMemo(() => {
-    const q = search.trim().toLowerCase();
-    if (!q) return filteredSamples;
-    return filteredSamples.filter(s => (
-      (s.sample_id || '').toLowerCase().includes(q) ||
-      (s.label || '').toLowerCase().includes(q) ||
-      (s.user || '').toLowerCase().includes(q)
-    ));
-  }, [filteredSamples, search]);
-
-  const paged = useMemo(() => {
-    const start = (page - 1) * limit;
-    return searched.slice(start, start + limit);
-  }, [searched, page, limit]);
+    const changed = TEXT_FILTERS.filter((k) => drafts[k].trim() !== (query[k]?.trim() ?? ""));
+    if (changed.length === 0) return;
+    const timer = window.setTimeout(() => {
+      updateQuery(Object.fromEntries(changed.map((k) => [k, drafts[k].trim() || undefined])));
+    }, TEXT_FILTER_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [drafts, query, updateQuery]);
+
+  // Back/forward and pasted links change the URL under the inputs
+  useEffect(() => {
+    setDrafts((prev) => {
+      const stale = TEXT_FILTERS.some((k) => prev[k].trim() !== (query[k]?.trim() ?? ""));
+      return stale ? { label: query.label ?? "", user: query.user ?? "", session_id: query.session_id ?? "" } : prev;
+    });
+  }, [query]);
+
+  const toggleSort = (key: SampleSortKey) => {
+    if (query.sort === key) updateQuery({ order: query.order === "asc" ? "desc" : "asc" });
+    else updateQuery({ sort: key, order: key === "created_at" || key === "frames" ? "desc" : "asc" });
+  };
+
+  const clearFilters = () => {
+    setDrafts({ label: "", user: "", session_id: "" });
+    updateQuery({ label: undefined, user: undefined, session_id: undefined, dialect: undefined, date_from: undefined, date_to: undefined, flagged: undefined, review_status: undefined });
+  };
 
   const handlePreview = async (sample: SampleT) => {
     if (!sample.sample_id) return;
-    
+
     setSelectedSample(sample);
     setError(null);
-    
+    setPreviewLoading(sample.sample_id);
+
     try {
-      const buf = await getSampleData(sample.sample_id);
-      const text = new TextDecoder().decode(new Uint8Array(buf));
-      const parsed = JSON.parse(text);
-      setSelectedKeypoints(parsed.keypoints || []);
+      const buf: ArrayBuffer = await getSampleData(sample.sample_id);
+      setDecoded(await decodeSampleData(buf));
       setShowPreview(true);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
-      setError(msg || "Failed to preview sample");
+      setError(`Failed to preview sample ${sample.sample_id}: ${msg}`);
+    } finally {
+      setPreviewLoading(null);
     }
   };
 
-  // Note: deleted using API directly from action buttons below
-
   const handleDownloadSample = async (sampleId: string | undefined) => {
     if (!sampleId) return;
-    
+
     try {
-      const buf = await getSampleData(sampleId);
-      const blob = new Blob([buf], { type: 'application/json' });
+      const buf: ArrayBuffer = await getSampleData(sampleId);
+      const ext = sampleDataExtension(buf);
+      const blob = new Blob([buf], { type: ext === 'json' ? 'application/json' : 'application/octet-stream' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `sample_${sampleId}.json`;
+      a.download = `sample_${sampleId}.${ext}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -135,100 +161,190 @@ export default function SamplesPage() {
     }
   };
 
-  const clearFilters = () => {
-    setFilters({ user: "", label: "", date: "" });
+  const handleDelete = async (ids: string[]) => {
+    let failed = 0;
+    for (const id of ids) {
+      try {
+        const res = await deleteSample(id);
+        if (!res.ok) failed++;
+      } catch {
+        failed++;
+      }
+    }
+    if (failed > 0) setError(`Delete failed for ${failed} of ${ids.length} samples`);
+    // The last page may now be empty
+    if (samples.length <= ids.length - failed && query.page > 1) updateQuery({ page: query.page - 1 }, false);
+    else setReloadKey((k) => k + 1);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      notify('Link copied', 'success');
+    } catch {
+      notify('Could not copy the link', 'error');
+    }
   };
 
   const getStatusBadge = (sample: SampleT) => {
-    if (sample.uploaded) {
-      return <Badge variant="success" size="sm">Uploaded</Badge>;
+    if (!sample.uploaded) {
+      return <Badge variant="warning" size="sm">Processing</Badge>;
     }
-    return <Badge variant="warning" size="sm">Processing</Badge>;
+    const review = REVIEW_BADGES[sample.review_status ?? "pending"];
+    const assigned = sample.assigned_reviewers?.length ?? 0;
+    const details = [
+      assigned > 0 && `votes: ${(sample.votes ?? []).map((v) => `${v.reviewer} ${v.status}${v.label ? ` as ${v.label}` : ""}`).join(", ") || "none"}`,
+      sample.adjudicated_by && `adjudicated by ${sample.adjudicated_by}`,
+      sample.reviewed_by && !sample.adjudicated_by && `by ${sample.reviewed_by}`,
+      sample.reviewed_at && new Date(sample.reviewed_at).toLocaleString(),
+      sample.review_reason,
+    ].filter(Boolean).join(" • ");
+    return (
+      <span title={details || undefined}>
+        <Badge variant={review.variant} size="sm">
+          {review.text}
+          {assigned > 0 && sample.review_status === "pending" && ` (${sample.votes?.length ?? 0}/${assigned})`}
+        </Badge>
+      </span>
+    );
   };
 
-  const uniqueUsers = [...new Set(samples.map(s => s.user).filter(Boolean))];
-  const uniqueLabels = [...new Set(samples.map(s => s.label).filter(Boolean))];
+  const sortIndicator = (key: SampleSortKey) => (query.sort === key ? (query.order === "asc" ? " ▲" : " ▼") : "");
 
   return (
     <div className="space-y-6">
-      <PageHeader 
-        title="Sample Management" 
+      <PageHeader
+        title="Sample Management"
         subtitle="Browse, filter, and preview your dataset samples with detailed information and keypoint data."
         breadcrumb={["Dataset", "Samples"]}
         actions={
           <div className="flex gap-3">
-            <Button 
-              variant="secondary" 
+            <Button
+              variant="secondary"
               onClick={() => setShowFilters(!showFilters)}
             >
               {showFilters ? "Hide Filters" : "Show Filters"}
+              {activeFilters.length > 0 && ` (${activeFilters.length})`}
             </Button>
-            <Button>Export Data</Button>
+            <Button variant="secondary" onClick={copyLink} title="Copy a link to this filtered view">🔗 Copy Link</Button>
           </div>
         }
       />
 
       {error && (
-        <ErrorBanner 
-          message={error} 
-          onClose={() => setError(null)} 
+        <ErrorBanner
+          message={error}
+          onClose={() => setError(null)}
           type="error"
         />
       )}
 
-  {/* Filters Panel */}
+      {/* Filters Panel */}
       {showFilters && (
         <div className="card">
           <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
             <span className="mr-2">🔧</span>
             Filters
           </h3>
-          
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="text-sm text-gray-700 mb-2 block">Label</label>
+              <input
+                className="input w-full"
+                value={drafts.label}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, label: e.target.value }))}
+                placeholder="Label or slug"
+              />
+            </div>
+
             <div>
               <label className="text-sm text-gray-700 mb-2 block">User</label>
-              <select 
-                className="input"
-                value={filters.user}
-                onChange={(e) => setFilters(prev => ({ ...prev, user: e.target.value }))}
-              >
-                <option value="">All Users</option>
-                {uniqueUsers.map(user => (
-                  <option key={user} value={user}>{user}</option>
-                ))}
-              </select>
+              <input
+                className="input w-full"
+                value={drafts.user}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, user: e.target.value }))}
+                placeholder="Signer name"
+              />
             </div>
-            
+
             <div>
-              <label className="text-sm text-gray-700 mb-2 block">Label</label>
-              <select 
-                className="input"
-                value={filters.label}
-                onChange={(e) => setFilters(prev => ({ ...prev, label: e.target.value }))}
+              <label className="text-sm text-gray-700 mb-2 block">Dialect</label>
+              <select
+                className="input w-full"
+                value={query.dialect ?? ""}
+                onChange={(e) => updateQuery({ dialect: e.target.value || undefined })}
               >
-                <option value="">All Labels</option>
-                {uniqueLabels.map(label => (
-                  <option key={label} value={label}>{label}</option>
+                <option value="">All Dialects</option>
+                {Object.entries(DIALECT_NAMES).map(([value, name]) => (
+                  <option key={value} value={value}>{name}</option>
                 ))}
               </select>
             </div>
-            
+
             <div>
-              <label className="text-sm text-gray-700 mb-2 block">Date</label>
-              <input 
+              <label className="text-sm text-gray-700 mb-2 block">Session</label>
+              <input
+                className="input w-full font-mono"
+                value={drafts.session_id}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, session_id: e.target.value }))}
+                placeholder="Session ID"
+              />
+            </div>
+
+            <div>
+              <label className="text-sm text-gray-700 mb-2 block">From</label>
+              <input
                 type="date"
-                className="input"
-                value={filters.date}
-                onChange={(e) => setFilters(prev => ({ ...prev, date: e.target.value }))}
+                className="input w-full"
+                value={query.date_from ?? ""}
+                max={query.date_to}
+                onChange={(e) => updateQuery({ date_from: e.target.value || undefined })}
               />
             </div>
+
+            <div>
+              <label className="text-sm text-gray-700 mb-2 block">To</label>
+              <input
+                type="date"
+                className="input w-full"
+                value={query.date_to ?? ""}
+                min={query.date_from}
+                onChange={(e) => updateQuery({ date_to: e.target.value || undefined })}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm text-gray-700 mb-2 block">Review</label>
+              <select
+                className="input w-full"
+                value={query.review_status ?? ""}
+                onChange={(e) => updateQuery({ review_status: (e.target.value || undefined) as ReviewStatus | undefined })}
+              >
+                <option value="">Any Status</option>
+                {REVIEW_STATUSES.map((status) => (
+                  <option key={status} value={status}>{REVIEW_BADGES[status].text}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-end">
+              <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                <input
+                  type="checkbox"
+                  checked={!!query.flagged}
+                  onChange={(e) => updateQuery({ flagged: e.target.checked || undefined })}
+                />
+                Flagged only (quality below {QUALITY_FLAG_THRESHOLD})
+              </label>
+            </div>
           </div>
-          
+
           <div className="flex justify-between items-center mt-4">
             <div className="text-sm text-gray-600">
-              Showing {filteredSamples.length} of {samples.length} samples
+              {total} matching samples
             </div>
-            <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <Button variant="ghost" size="sm" onClick={clearFilters} disabled={activeFilters.length === 0}>
               Clear Filters
             </Button>
           </div>
@@ -238,79 +354,67 @@ export default function SamplesPage() {
       {/* Samples Table */}
       <div className="card">
         <div className="flex items-center justify-between mb-6">
-          <div className="flex-1 mr-4">
-            <h2 className="text-lg font-semibold text-gray-900 flex items-center mb-2">
-              <span className="mr-2">📊</span>
-              Dataset Samples
-              <Badge variant="info" className="ml-3">
-                {filteredSamples.length} samples
-              </Badge>
-            </h2>
-            <div className="flex items-center gap-3">
-              <input
-                type="search"
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-                placeholder="Search sample id, label or user..."
-                className="input w-64"
-              />
-              <div className="text-sm text-gray-500">Showing {searched.length} / {filteredSamples.length}</div>
-            </div>
-          </div>
-
-          <div className="flex items-center gap-2">
-            <Button variant="secondary" size="sm" onClick={() => { if (confirm('Export current view to CSV?')) { /* implement export */ } }}>Export</Button>
-            <Button variant="ghost" size="sm" onClick={() => { setSelectedIds([]); setSearch(''); setFilters({ user: '', label: '', date: '' }); }}>Reset</Button>
-          </div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <span className="mr-2">📊</span>
+            Dataset Samples
+            <Badge variant="info" className="ml-3">
+              {total} samples
+            </Badge>
+          </h2>
+          {loading && samples.length > 0 && <LoadingSpinner size="sm" className="text-indigo-400" />}
         </div>
 
-        {loading ? (
+        {loading && samples.length === 0 ? (
           <div className="flex items-center justify-center py-12">
             <LoadingSpinner size="lg" className="text-indigo-400" />
             <span className="ml-3 text-gray-600">Loading samples...</span>
           </div>
-  ) : filteredSamples.length === 0 ? (
+        ) : samples.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-4xl mb-3">📭</div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2">
-              {samples.length === 0 ? "No samples found" : "No samples match your filters"}
+              {activeFilters.length === 0 ? "No samples found" : "No samples match your filters"}
             </h3>
             <p className="text-gray-600 mb-4">
-              {samples.length === 0 
-                ? "Start collecting data to see samples here" 
+              {activeFilters.length === 0
+                ? "Start collecting data to see samples here"
                 : "Try adjusting your filter criteria"
               }
             </p>
-            {samples.length > 0 && (
+            {activeFilters.length > 0 && (
               <Button variant="secondary" onClick={clearFilters}>
                 Clear Filters
               </Button>
             )}
           </div>
         ) : (
-          <div className="overflow-x-auto">
+          <div className={`overflow-x-auto ${loading ? 'opacity-60' : ''}`}>
             <table className="w-full">
               <thead>
                 <tr className="border-b border-gray-700">
                   <th className="text-left py-3 px-4 font-medium text-gray-300 w-12">
-                    <input type="checkbox" checked={selectedIds.length > 0 && selectedIds.length === searched.length} onChange={(e) => {
-                      if (e.target.checked) setSelectedIds(searched.map(s => s.sample_id || ''));
+                    <input type="checkbox" checked={selectedIds.length > 0 && selectedIds.length === samples.length} onChange={(e) => {
+                      if (e.target.checked) setSelectedIds(samples.map(s => s.sample_id || ''));
                       else setSelectedIds([]);
                     }} />
                   </th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-300">Sample ID</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-300">Label</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-300">User</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-300">Frames</th>
+                  {COLUMNS.map(({ key, title }) => (
+                    <th key={title} className="text-left py-3 px-4 font-medium text-gray-300">
+                      {key ? (
+                        <button type="button" onClick={() => toggleSort(key)} className="hover:text-indigo-500">
+                          {title}{sortIndicator(key)}
+                        </button>
+                      ) : title}
+                    </th>
+                  ))}
                   <th className="text-left py-3 px-4 font-medium text-gray-300">Status</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-300">Created</th>
                   <th className="text-right py-3 px-4 font-medium text-gray-300">Actions</th>
                 </tr>
               </thead>
               <tbody>
-                {paged.map((sample, index) => (
-                  <tr 
-                    key={sample.sample_id || index} 
+                {samples.map((sample, index) => (
+                  <tr
+                    key={sample.sample_id || index}
                     className="border-b border-gray-800 hover:bg-white/5 transition-colors"
                   >
                     <td className="py-3 px-4">
@@ -322,8 +426,18 @@ export default function SamplesPage() {
                     </td>
                     <td className="py-3 px-4">
                       <div className="font-mono text-sm text-indigo-400">
-                        {sample.sample_id || `sample_${index}`}
+                        {sample.sample_id}
                       </div>
+                      {sample.session_id && (
+                        <button
+                          type="button"
+                          className="text-xs text-gray-500 hover:underline font-mono"
+                          onClick={() => updateQuery({ session_id: sample.session_id })}
+                          title="Show this session only"
+                        >
+                          {sample.session_id}
+                        </button>
+                      )}
                     </td>
                     <td className="py-3 px-4">
                       <Badge variant="default" size="sm">
@@ -333,44 +447,56 @@ export default function SamplesPage() {
                     <td className="py-3 px-4 text-gray-300">
                       {sample.user || "Unknown"}
                     </td>
+                    <td className="py-3 px-4 text-gray-300">
+                      {sample.dialect ? DIALECT_NAMES[sample.dialect] ?? sample.dialect : "—"}
+                    </td>
                     <td className="py-3 px-4 text-gray-300">
                       {sample.frames || "—"}
                     </td>
                     <td className="py-3 px-4">
-                      {getStatusBadge(sample)}
+                      {typeof sample.quality_score === "number" ? (
+                        <div className="flex flex-wrap items-center gap-1">
+                          <Badge variant={qualityVariant(sample.quality_score)} size="sm">
+                            {sample.flagged ? "⚑ " : ""}{sample.quality_score}
+                          </Badge>
+                          {sample.quality_issues?.map((code) => (
+                            <span key={code} className="text-xs text-gray-500">{QUALITY_ISSUE_LABELS[code]}</span>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-gray-500">—</span>
+                      )}
                     </td>
                     <td className="py-3 px-4 text-gray-600 text-sm">
                       {sample.created_at ? new Date(sample.created_at).toLocaleDateString() : "—"}
                     </td>
+                    <td className="py-3 px-4">
+                      {getStatusBadge(sample)}
+                    </td>
                     <td className="py-3 px-4 text-right">
                       <div className="flex items-center gap-2 justify-end">
-                        <Button 
-                          variant="ghost" 
+                        <Button
+                          variant="ghost"
                           size="sm"
                           onClick={() => handlePreview(sample)}
+                          loading={previewLoading === sample.sample_id}
                         >
                           👁️ Preview
                         </Button>
-                        <Button 
-                          variant="ghost" 
+                        <Button
+                          variant="ghost"
                           size="sm"
-                          onClick={async () => {
+                          onClick={() => {
                             if (!sample.sample_id) return;
                             if (!confirm('Delete this sample?')) return;
-                            try {
-                              const res = await deleteSample(sample.sample_id);
-                              if (res.ok) setSamples(prev => prev.filter(s => s.sample_id !== sample.sample_id));
-                              else setError(`Delete failed: ${res.statusText}`);
-                            } catch {
-                              setError('Delete failed');
-                            }
+                            void handleDelete([sample.sample_id]);
                           }}
                           className="text-red-600 hover:text-red-800"
                         >
                           🗑️ Delete
                         </Button>
-                        <Button 
-                          variant="ghost" 
+                        <Button
+                          variant="ghost"
                           size="sm"
                           onClick={() => handleDownloadSample(sample.sample_id)}
                           className="text-blue-600 hover:text-blue-800"
@@ -390,38 +516,41 @@ export default function SamplesPage() {
       {/* Pagination / Bulk actions footer */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
-          <Button variant="danger" size="sm" onClick={async () => {
-            if (selectedIds.length === 0) return alert('Select samples to delete');
+          <Button variant="danger" size="sm" disabled={selectedIds.length === 0} onClick={() => {
             if (!confirm(`Delete ${selectedIds.length} samples?`)) return;
-            for (const id of selectedIds) {
-              try { await deleteSample(id); } catch { /* ignore */ }
-            }
-            setSamples(prev => prev.filter(s => !selectedIds.includes(s.sample_id || '')));
-            setSelectedIds([]);
+            void handleDelete(selectedIds);
           }}>Delete Selected</Button>
-          <Button variant="secondary" size="sm" onClick={() => {
+          <Button variant="secondary" size="sm" disabled={selectedIds.length === 0} onClick={() => {
             // Export selected as JSON
             const toExport = samples.filter(s => selectedIds.includes(s.sample_id || ''));
             const blob = new Blob([JSON.stringify(toExport, null, 2)], { type: 'application/json' });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a'); a.href = url; a.download = `samples-${Date.now()}.json`; a.click(); URL.revokeObjectURL(url);
           }}>Export Selected</Button>
+          <Button variant="secondary" size="sm" disabled={selectedIds.length === 0} onClick={() => setShowAssign(true)}>
+            Assign Reviewers
+          </Button>
         </div>
 
         <div className="flex items-center gap-3">
-          <div className="text-sm text-gray-500">Page</div>
-          <select value={limit} onChange={(e) => { setLimit(Number(e.target.value)); setPage(1); }} className="input w-24 text-sm">
-            {[10,25,50,100].map(n => <option key={n} value={n}>{n}/page</option>)}
+          <select value={query.page_size} onChange={(e) => updateQuery({ page_size: Number(e.target.value) })} className="input w-28 text-sm">
+            {[10, 25, 50, 100].map(n => <option key={n} value={n}>{n}/page</option>)}
           </select>
-          <div className="text-sm">{Math.max(1, Math.ceil(searched.length / limit))} pages</div>
           <div className="flex items-center gap-2">
-            <Button size="sm" onClick={() => setPage(p => Math.max(1, p-1))} disabled={page===1}>Prev</Button>
-            <div className="px-2">{page}</div>
-            <Button size="sm" onClick={() => setPage(p => Math.min(Math.max(1, Math.ceil(searched.length / limit)), p+1))} disabled={page >= Math.ceil(searched.length / limit)}>Next</Button>
+            <Button size="sm" onClick={() => updateQuery({ page: query.page - 1 }, false)} disabled={query.page <= 1 || loading}>Prev</Button>
+            <div className="px-2 text-sm">Page {query.page} / {pageCount}</div>
+            <Button size="sm" onClick={() => updateQuery({ page: query.page + 1 }, false)} disabled={query.page >= pageCount || loading}>Next</Button>
           </div>
         </div>
       </div>
 
+      <AssignReviewersModal
+        isOpen={showAssign}
+        sampleIds={selectedIds}
+        onClose={() => setShowAssign(false)}
+        onAssigned={() => setReloadKey((k) => k + 1)}
+      />
+
       {/* Preview Modal */}
       <Modal
         isOpen={showPreview}
@@ -429,11 +558,15 @@ export default function SamplesPage() {
         title={`Sample Preview: ${selectedSample?.sample_id}`}
         size="xl"
       >
-        {selectedKeypoints && (
-          <SamplePreview
-            keypoints={selectedKeypoints}
-            onClose={() => setShowPreview(false)}
-          />
+        {decoded && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+              {selectedSample?.label && <Badge variant="default" size="sm">{selectedSample.label}</Badge>}
+              <Badge variant="info" size="sm">{decoded.format.toUpperCase()}</Badge>
+              <span>{decoded.layout} • {decoded.frames.length} frames</span>
+            </div>
+            <SampleViewer frames={decoded.frames} />
+          </div>
         )}
       </Modal>
     </div>
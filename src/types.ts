@@ -13,13 +13,66 @@ export interface Sample {
   sample_id?: string; // used by SamplesPage
   id?: number; // used by SessionPanel
   label?: string;
+  class_uid?: string;
   dialect?: string;
   file_path?: string;
   created_at?: string;
   session_id?: string;
   user?: string;
+  signer_id?: string;
+  consent_version?: string;
   uploaded?: boolean;
+  upload_error?: string; // set by the capture session when the sample could not be sent or queued
   frames?: number; // count of frames in the sample
+  quality_score?: number;
+  quality_issues?: QualityIssueCode[];
+  flagged?: boolean;
+  review_status?: ReviewStatus;
+  review_reason?: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  // Multi-reviewer samples: who must vote, the votes so far, and who settled a dispute
+  assigned_reviewers?: string[];
+  votes?: ReviewVote[];
+  adjudicated_by?: string;
+}
+
+// Reviewer decision on a collected sample; new samples start as 'pending'.
+// Samples with assigned reviewers stay pending until everyone has voted, then
+// become approved/rejected if the votes agree and 'disputed' if they don't.
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'disputed';
+
+// One assigned reviewer's independent verdict
+export interface ReviewVote {
+  reviewer: string;
+  status: 'approved' | 'rejected';
+  label?: string;
+  class_uid?: string;
+  reason?: string;
+  at?: string;
+}
+
+export interface ReviewDecision {
+  status: 'approved' | 'rejected';
+  reviewer: string;
+  reason?: string;
+  // Relabel: the sample is moved to this class as part of the decision
+  label?: string;
+  class_uid?: string;
+}
+
+export interface ReviewerStats {
+  reviewer: string;
+  approved: number;
+  rejected: number;
+  relabeled: number;
+  today: number; // decisions since local midnight on the server
+  last_reviewed_at?: string;
+}
+
+export interface ReviewStats {
+  pending: number;
+  reviewers: ReviewerStats[];
 }
 
 export interface SessionStats {
@@ -41,6 +94,14 @@ export type UploadResult = {
   [k: string]: unknown;
 };
 
+// Server-side state of a chunked video upload. `received` is the number of
+// contiguous bytes stored so far; the next chunk starts at that offset.
+export type ChunkedUploadSession = {
+  upload_id: string;
+  chunk_size: number;
+  received: number;
+};
+
 // MediaPipe landmark types for pose detection
 export interface MediaPipeLandmark {
   x: number;
@@ -49,20 +110,100 @@ export interface MediaPipeLandmark {
   visibility?: number;
 }
 
+// Which landmark groups the capture pipeline extracts. `hands` runs
+// @mediapipe/hands; the other modes run @mediapipe/holistic.
+export type LandmarkMode = 'hands' | 'hands_pose' | 'holistic';
+
+// Where a hand's landmarks in a captured frame came from: a detection in that
+// frame, the short-hold fallback to the last rendered hand, or nothing.
+export type LandmarkSource = 'live' | 'fallback' | 'missing';
+
+// Per-frame capture metadata sent alongside the landmarks
+export interface FrameMeta {
+  handedness?: { left?: number; right?: number }; // MediaPipe handedness scores (hands mode only)
+  source?: { left: LandmarkSource; right: LandmarkSource };
+}
+
+// One captured frame. `pose` is present for hands_pose/holistic, `face` for holistic only.
+export interface CapturedFrame extends FrameMeta {
+  timestamp: number; // ms since the first frame of the take (monotonic)
+  left_hand: MediaPipeLandmark[];
+  right_hand: MediaPipeLandmark[];
+  pose?: MediaPipeLandmark[];
+  face?: MediaPipeLandmark[];
+}
+
+// Result of trimming a take to the detected sign (see utils/segment.ts).
+// Indices refer to the frames as recorded, before resampling/padding.
+export interface SegmentInfo {
+  source_frames: number;
+  detected: boolean; // false when no motion crossed the threshold
+  onset: number;
+  offset: number;
+  start: number; // first recorded frame kept
+  end: number; // last recorded frame kept
+  start_ms?: number;
+  end_ms?: number;
+  method: 'none' | 'trim' | 'resample' | 'pad';
+  // Synthetic edge copies at the head/tail of the output (method 'pad')
+  padded_before: number;
+  padded_after: number;
+}
+
 export interface CameraUploadPayload {
   user: string;
   label: string;
+  class_uid?: string;
   dialect?: string;
   session_id: string;
-  frames: Array<{
+  landmark_mode?: LandmarkMode;
+  segment?: SegmentInfo;
+  capture_profile?: string;
+  quality_info?: QualityInfo;
+  signer_id?: string;
+  consent?: ConsentRecord;
+  frames: Array<FrameMeta & {
     timestamp: number;
     landmarks: {
       left_hand?: MediaPipeLandmark[];
       right_hand?: MediaPipeLandmark[];
+      pose?: MediaPipeLandmark[];
+      face?: MediaPipeLandmark[];
     };
   }>;
 }
 
+// Camera upload persisted in the IndexedDB outbox until the backend accepts it
+export interface OutboxItem {
+  id: string;
+  payload: CameraUploadPayload;
+  created_at: number;
+  attempts: number;
+  // 'rejected': the server refused the payload (4xx), so it is only sent again by hand
+  status: 'pending' | 'sending' | 'failed' | 'rejected';
+  last_error?: string;
+  last_status?: number; // HTTP status of the last failed attempt, if the server answered
+  last_attempt_at?: number;
+}
+
+// Named capture settings loaded at runtime (backend, public/capture-profiles.json
+// or the built-in defaults in config/capture.ts). Selected per capture session.
+export interface CaptureProfile {
+  id: string;
+  name: string;
+  description?: string;
+  target_frames: number; // frames per sample after segmentation
+  capture_count: number; // takes per capture sequence
+  sample_fps: number; // stored frames per second
+  countdown_seconds: number;
+  record_headroom?: number; // recorded frames = target_frames × record_headroom
+  min_detection_confidence: number;
+  min_tracking_confidence: number;
+  filter_min_cutoff: number; // One Euro: higher = more responsive, less smoothing
+  filter_beta: number; // One Euro: higher = more adaptive to speed
+  render_alpha: number; // preview lerp: 0 very smooth, 1 raw
+}
+
 export interface CameraInfo {
   userAgent?: string;
   deviceMemory?: number | null;
@@ -76,7 +217,22 @@ export interface QualityInfo {
   framesAccepted?: number; // after simple client-side filter
   avgPoseLandmarksPerFrame?: number;
   percentFramesWithHands?: number;
+  percentFramesWithPose?: number; // hands_pose / holistic only
+  percentFramesWithFace?: number; // holistic only
+  landmarkMode?: LandmarkMode;
   confidenceSummary?: { min?: number; max?: number; avg?: number };
+  // See utils/quality.ts
+  score?: number; // 0–100
+  issues?: QualityIssue[];
+  flagged?: boolean; // score below QUALITY_FLAG_THRESHOLD
+}
+
+export type QualityIssueCode = 'low_hands' | 'jitter' | 'hand_swap' | 'out_of_frame' | 'frozen' | 'short_motion';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;
+  penalty: number;
 }
 
 export type JobStatus = {
@@ -89,6 +245,27 @@ export type JobStatus = {
   [k: string]: unknown;
 };
 
+// Lifecycle of a backend extraction job, normalized from `JobStatus.status`
+export type TrackedJobState = 'queued' | 'processing' | 'extracted' | 'failed';
+
+// Video upload job followed by the background poller and kept in local history
+export interface TrackedJob {
+  task_id: string;
+  label: string;
+  user: string;
+  filename?: string;
+  state: TrackedJobState;
+  progress?: number;
+  total_frames?: number;
+  message?: string;
+  created_at: number;
+  updated_at: number;
+  // Consecutive polls without any change / with a request error; drive the backoff
+  idle_polls: number;
+  errors: number;
+  next_poll_at: number;
+}
+
 export interface Session {
   session_id: string;
   user: string;
@@ -110,6 +287,23 @@ export interface ClassRow {
   folder_name?: string;
   created_at?: string;
   migrated_at?: string | null;
+  archived?: boolean | string; // BE returns "0"/"1" strings
+  reference_url?: string; // legacy demonstration video / GIF, read as a video reference
+  reference_media?: ReferenceMedia | null;
+}
+
+// Demonstration of a sign shown to the signer before recording it: a video
+// (or GIF) URL, or a recorded landmark sequence replayed as a skeleton.
+export type ReferenceMedia =
+  | { type: 'video'; url: string }
+  | { type: 'landmarks'; frames: CapturedFrame[] };
+
+// Progress through a guided capture session that records a list of classes in order
+export interface GuidedSession {
+  classes: ClassRow[];
+  index: number; // class currently shown in the capture modal
+  takes_per_class: number;
+  takes: Record<string, number>; // class_uid -> accepted takes
 }
 
 export interface ClassesListResponse {
@@ -125,6 +319,8 @@ export interface ClassStatsRow {
   // Backend uses `count` for samples; keep `samples_count` as legacy alias
   count: number;
   samples_count?: number;
+  language?: string;
+  dialect?: string;
 }
 
 export interface ClassStatsResponse {
@@ -133,8 +329,57 @@ export interface ClassStatsResponse {
   distribution: ClassStatsRow[];
 }
 
+// One page of `/dataset/samples`
+export interface SamplePage {
+  items: Sample[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
 export interface Filters {
   user: string;
   label: string;
   date: string;
+  status: ReviewStatus | "";
+}
+
+export type Role = 'admin' | 'public';
+
+export interface AuthUser {
+  username: string;
+  display_name?: string;
+  role: Role;
+}
+
+// Tokens from `/auth/login` and `/auth/refresh`; `expires_at` is epoch ms of the access token
+export interface AuthSession {
+  access_token: string;
+  refresh_token: string;
+  expires_at?: number;
+  user: AuthUser;
 }
+
+export type HearingStatus = 'deaf' | 'hard_of_hearing' | 'hearing' | 'undisclosed';
+export type Handedness = 'right' | 'left' | 'ambidextrous';
+export type AgeBracket = 'under_18' | '18_29' | '30_44' | '45_59' | '60_plus' | 'undisclosed';
+
+// Acceptance of a version of the consent form (see config/consent.ts)
+export interface ConsentRecord {
+  version: string;
+  accepted_at: string;
+}
+
+// Contributor whose signing is recorded; uploads reference `signer_id`
+export interface SignerProfile {
+  signer_id: string;
+  display_name: string;
+  dialect_region?: string; // dialect slug, see utils/dialects
+  hearing_status: HearingStatus;
+  handedness: Handedness;
+  age_bracket: AgeBracket;
+  consent?: ConsentRecord;
+  created_at?: string;
+}
+
+export type SignerInput = Omit<SignerProfile, 'signer_id' | 'consent' | 'created_at'>;
@@ -0,0 +1,150 @@
+import type { ReviewVote, Sample } from "../types";
+
+// Inter-annotator agreement over multi-reviewer samples. A vote's category is
+// "rejected" or the class it approves, so two approvals under different labels
+// count as a disagreement.
+
+export type AgreementSummary = {
+  items: number; // samples with at least two votes
+  kappa: number | null; // Fleiss' kappa; null when undefined (no items or a single category)
+  observed: number; // mean pairwise agreement, 0–1
+};
+
+export type ClassAgreement = AgreementSummary & {
+  key: string; // class_uid, or label for samples without one
+  label: string;
+  disputed: number;
+};
+
+export type PairAgreement = {
+  a: string;
+  b: string;
+  shared: number;
+  kappa: number | null;
+  observed: number;
+};
+
+export const voteCategory = (vote: ReviewVote, sample: Pick<Sample, "class_uid" | "label">) =>
+  vote.status === "rejected" ? "rejected" : `class:${vote.class_uid ?? sample.class_uid ?? vote.label ?? sample.label ?? ""}`;
+
+// Votes disagree (samples with fewer than two votes are never disputed)
+export const isDisputed = (sample: Sample) => {
+  const votes = sample.votes ?? [];
+  return votes.length >= 2 && new Set(votes.map((v) => voteCategory(v, sample))).size > 1;
+};
+
+// Fleiss' kappa for ratings given as one category per rater per item. Items may
+// have different numbers of raters (the usual generalisation); items with fewer
+// than two are ignored.
+export const fleissKappa = (ratings: string[][]): AgreementSummary => {
+  const rated = ratings.filter((r) => r.length >= 2);
+  if (rated.length === 0) return { items: 0, kappa: null, observed: 0 };
+
+  const totals = new Map<string, number>();
+  let totalRatings = 0;
+  let observedSum = 0;
+  for (const item of rated) {
+    const counts = new Map<string, number>();
+    for (const c of item) counts.set(c, (counts.get(c) ?? 0) + 1);
+    const n = item.length;
+    let agreeing = 0;
+    for (const [c, k] of counts) {
+      agreeing += k * (k - 1);
+      totals.set(c, (totals.get(c) ?? 0) + k);
+    }
+    observedSum += agreeing / (n * (n - 1));
+    totalRatings += n;
+  }
+  const observed = observedSum / rated.length;
+  let expected = 0;
+  for (const k of totals.values()) expected += (k / totalRatings) ** 2;
+  const kappa = expected >= 1 ? null : (observed - expected) / (1 - expected);
+  return { items: rated.length, kappa, observed };
+};
+
+// Cohen's kappa for two raters over the same items
+export const cohensKappa = (pairs: Array<[string, string]>): { kappa: number | null; observed: number } => {
+  if (pairs.length === 0) return { kappa: null, observed: 0 };
+  const left = new Map<string, number>();
+  const right = new Map<string, number>();
+  let agree = 0;
+  for (const [a, b] of pairs) {
+    if (a === b) agree++;
+    left.set(a, (left.get(a) ?? 0) + 1);
+    right.set(b, (right.get(b) ?? 0) + 1);
+  }
+  const n = pairs.length;
+  const observed = agree / n;
+  let expected = 0;
+  for (const [c, k] of left) expected += (k / n) * ((right.get(c) ?? 0) / n);
+  return { kappa: expected >= 1 ? null : (observed - expected) / (1 - expected), observed };
+};
+
+const ratingsOf = (samples: Sample[]) => samples.map((s) => (s.votes ?? []).map((v) => voteCategory(v, s)));
+
+export const overallAgreement = (samples: Sample[]): AgreementSummary => fleissKappa(ratingsOf(samples));
+
+// Grouped by the class the sample was uploaded under; least agreement first
+export const agreementByClass = (samples: Sample[]): ClassAgreement[] => {
+  const groups = new Map<string, Sample[]>();
+  for (const s of samples) {
+    if ((s.votes?.length ?? 0) < 2) continue;
+    const key = s.class_uid ?? s.label ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), s]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      label: group[0].label ?? key,
+      disputed: group.filter(isDisputed).length,
+      ...fleissKappa(ratingsOf(group)),
+    }))
+    .sort((a, b) => (a.kappa ?? 1) - (b.kappa ?? 1) || b.disputed - a.disputed);
+};
+
+// Cohen's kappa for every pair of reviewers that voted on the same samples
+export const pairwiseAgreement = (samples: Sample[], minShared = 1): PairAgreement[] => {
+  const pairs = new Map<string, Array<[string, string]>>();
+  for (const s of samples) {
+    const votes = [...(s.votes ?? [])].sort((x, y) => x.reviewer.localeCompare(y.reviewer));
+    for (let i = 0; i < votes.length; i++) {
+      for (let j = i + 1; j < votes.length; j++) {
+        const key = `${votes[i].reviewer}\u0000${votes[j].reviewer}`;
+        pairs.set(key, [...(pairs.get(key) ?? []), [voteCategory(votes[i], s), voteCategory(votes[j], s)]]);
+      }
+    }
+  }
+  return [...pairs.entries()]
+    .filter(([, list]) => list.length >= minShared)
+    .map(([key, list]) => {
+      const [a, b] = key.split("\u0000");
+      return { a, b, shared: list.length, ...cohensKappa(list) };
+    })
+    .sort((x, y) => (x.kappa ?? 1) - (y.kappa ?? 1));
+};
+
+// Spread samples over reviewers so each gets `perSample` distinct reviewers and
+// the load stays even (the least-loaded reviewers are picked first).
+export const distributeAssignments = (sampleIds: string[], reviewers: string[], perSample: number): Record<string, string[]> => {
+  const pool = [...new Set(reviewers.map((r) => r.trim()).filter(Boolean))];
+  const n = Math.min(Math.max(1, Math.floor(perSample)), pool.length);
+  const load = new Map(pool.map((r) => [r, 0]));
+  const out: Record<string, string[]> = {};
+  for (const id of sampleIds) {
+    const picked = [...pool].sort((a, b) => (load.get(a) ?? 0) - (load.get(b) ?? 0)).slice(0, n);
+    for (const r of picked) load.set(r, (load.get(r) ?? 0) + 1);
+    out[id] = picked;
+  }
+  return out;
+};
+
+// Landis & Koch bands
+export const describeKappa = (kappa: number | null) => {
+  if (kappa === null) return "—";
+  if (kappa < 0) return "Kém";
+  if (kappa <= 0.2) return "Rất thấp";
+  if (kappa <= 0.4) return "Thấp";
+  if (kappa <= 0.6) return "Trung bình";
+  if (kappa <= 0.8) return "Khá";
+  return "Gần như hoàn toàn";
+};
@@ -0,0 +1,181 @@
+import type { ClassStatsRow, Session } from "../types";
+
+// Pure aggregations behind the analytics dashboard. Time-based figures come
+// from sessions (they carry created_at and samples_count); per-class and
+// per-dialect figures come from /classes/stats, which has no dates.
+
+// Inclusive local-date bounds as YYYY-MM-DD; missing bounds are open
+export type DateRange = { from?: string; to?: string };
+
+export type DailyCount = { date: string; samples: number };
+
+export type ContributorRow = { user: string; samples: number; sessions: number; lastActive: number };
+
+export type DialectCoverageRow = {
+  dialect: string;
+  classes: number;
+  covered: number; // classes with at least `minSamples`
+  samples: number;
+  percent: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDateKey = (d: Date) => {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+};
+
+const fromDateKey = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+};
+
+// Sessions store created_at as an ISO string or epoch (seconds or ms)
+export const sessionTime = (s: Session): number | null => {
+  const raw = s.created_at;
+  if (!raw) return null;
+  const n = Number(raw);
+  if (Number.isFinite(n) && n > 0) return n < 1e12 ? n * 1000 : n;
+  const t = Date.parse(raw);
+  return Number.isNaN(t) ? null : t;
+};
+
+export const rangeFromDays = (days: number, now = new Date()): DateRange => ({
+  from: toDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1))),
+  to: toDateKey(now),
+});
+
+export const inRange = (time: number, range: DateRange) => {
+  const key = toDateKey(new Date(time));
+  return (!range.from || key >= range.from) && (!range.to || key <= range.to);
+};
+
+export const filterSessions = (sessions: Session[], range: DateRange) =>
+  sessions.filter((s) => {
+    const t = sessionTime(s);
+    // Undated sessions only count when no range is applied
+    return t === null ? !range.from && !range.to : inRange(t, range);
+  });
+
+export const totalSamples = (sessions: Session[]) =>
+  sessions.reduce((sum, s) => sum + (Number(s.samples_count) || 0), 0);
+
+// One entry per day in the range (gaps filled with 0). Open bounds fall back
+// to the first / last dated session.
+export const samplesPerDay = (sessions: Session[], range: DateRange): DailyCount[] => {
+  const counts = new Map<string, number>();
+  let first: string | undefined;
+  let last: string | undefined;
+  for (const s of sessions) {
+    const t = sessionTime(s);
+    if (t === null || !inRange(t, range)) continue;
+    const key = toDateKey(new Date(t));
+    counts.set(key, (counts.get(key) ?? 0) + (Number(s.samples_count) || 0));
+    if (!first || key < first) first = key;
+    if (!last || key > last) last = key;
+  }
+  const start = range.from ?? first;
+  const end = range.to ?? last;
+  if (!start || !end || start > end) return [];
+
+  const out: DailyCount[] = [];
+  for (let d = fromDateKey(start); toDateKey(d) <= end; d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)) {
+    const key = toDateKey(d);
+    out.push({ date: key, samples: counts.get(key) ?? 0 });
+  }
+  return out;
+};
+
+// Buckets daily counts into weeks starting on Monday, keyed by that Monday
+export const samplesPerWeek = (daily: DailyCount[]): DailyCount[] => {
+  const weeks = new Map<string, number>();
+  for (const { date, samples } of daily) {
+    const d = fromDateKey(date);
+    const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7));
+    const key = toDateKey(monday);
+    weeks.set(key, (weeks.get(key) ?? 0) + samples);
+  }
+  return Array.from(weeks, ([date, samples]) => ({ date, samples })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Growth of the range versus the preceding period of equal length, in
+// percent. Null when the range is open or the previous period had no samples.
+export const periodGrowth = (sessions: Session[], range: DateRange): number | null => {
+  if (!range.from || !range.to) return null;
+  const from = fromDateKey(range.from).getTime();
+  const to = fromDateKey(range.to).getTime();
+  const days = Math.round((to - from) / DAY_MS) + 1;
+  const previous: DateRange = {
+    from: toDateKey(new Date(from - days * DAY_MS)),
+    to: toDateKey(new Date(from - DAY_MS)),
+  };
+  const before = totalSamples(filterSessions(sessions, previous));
+  if (before === 0) return null;
+  const current = totalSamples(filterSessions(sessions, range));
+  return ((current - before) / before) * 100;
+};
+
+export const classCount = (row: ClassStatsRow) => Number(row.count ?? row.samples_count ?? 0) || 0;
+
+// Most and least collected classes. Bottom excludes rows already in top so
+// small datasets do not show the same class twice.
+export const rankClasses = (rows: ClassStatsRow[], n = 5) => {
+  const sorted = [...rows].sort((a, b) => classCount(b) - classCount(a));
+  const top = sorted.slice(0, n);
+  const topIds = new Set(top.map((r) => r.class_uid));
+  const bottom = sorted.filter((r) => !topIds.has(r.class_uid)).slice(-n).reverse();
+  return { top, bottom };
+};
+
+export const dialectCoverage = (rows: ClassStatsRow[], minSamples: number): DialectCoverageRow[] => {
+  const byDialect = new Map<string, DialectCoverageRow>();
+  for (const row of rows) {
+    const dialect = row.dialect || "Chung";
+    const entry = byDialect.get(dialect) ?? { dialect, classes: 0, covered: 0, samples: 0, percent: 0 };
+    const count = classCount(row);
+    entry.classes += 1;
+    entry.samples += count;
+    if (count >= minSamples) entry.covered += 1;
+    byDialect.set(dialect, entry);
+  }
+  return Array.from(byDialect.values())
+    .map((e) => ({ ...e, percent: e.classes > 0 ? (e.covered / e.classes) * 100 : 0 }))
+    .sort((a, b) => b.samples - a.samples);
+};
+
+export const contributorLeaderboard = (sessions: Session[], n = 10): ContributorRow[] => {
+  const byUser = new Map<string, ContributorRow>();
+  for (const s of sessions) {
+    const user = s.user || "—";
+    const entry = byUser.get(user) ?? { user, samples: 0, sessions: 0, lastActive: 0 };
+    entry.samples += Number(s.samples_count) || 0;
+    entry.sessions += 1;
+    entry.lastActive = Math.max(entry.lastActive, sessionTime(s) ?? 0);
+    byUser.set(user, entry);
+  }
+  return Array.from(byUser.values())
+    .sort((a, b) => b.samples - a.samples || b.lastActive - a.lastActive)
+    .slice(0, n);
+};
+
+export const recentSessions = (sessions: Session[], n = 8) =>
+  sessions
+    .map((s) => ({ session: s, time: sessionTime(s) }))
+    .filter((x): x is { session: Session; time: number } => x.time !== null)
+    .sort((a, b) => b.time - a.time)
+    .slice(0, n);
+
+export const formatRelative = (time: number, now = Date.now()) => {
+  const diff = Math.max(0, now - time);
+  const minutes = Math.floor(diff / 60000);
+  if (minutes < 1) return "vừa xong";
+  if (minutes < 60) return `${minutes} phút trước`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} giờ trước`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `${days} ngày trước`;
+  return new Date(time).toLocaleDateString();
+};
@@ -0,0 +1,213 @@
+import type { ClassRow } from "../types";
+import { normalizeText, SLUG_PATTERN, slugify } from "./text";
+import { normalizeDialect } from "./dialects";
+
+// Parsing and dry-run diffing for the bulk class import on LabelsPage.
+// Accepts the page's own CSV / JSON exports as well as spreadsheets with
+// extra columns (language, dialect, common flags).
+
+export type ImportRow = {
+  line: number; // 1-based line (CSV) or item index + 1 (JSON)
+  label: string;
+  slug: string;
+  language: string;
+  dialect: string;
+  is_common_global: boolean;
+  is_common_language: boolean;
+};
+
+export type ImportParseError = { line: number; message: string };
+
+export type ImportStatus = "new" | "changed" | "unchanged" | "conflict" | "duplicate" | "invalid";
+
+export type ImportDiffRow = {
+  row: ImportRow;
+  status: ImportStatus;
+  message?: string;
+  // Existing class the row matched (changed / unchanged / conflict / duplicate)
+  existing?: ClassRow;
+  changes?: string[];
+};
+
+const HEADER_ALIASES: Record<string, keyof Omit<ImportRow, "line">> = {
+  label: "label",
+  label_original: "label",
+  nhan: "label",
+  slug: "slug",
+  language: "language",
+  lang: "language",
+  ngon_ngu: "language",
+  dialect: "dialect",
+  phuong_ngu: "dialect",
+  is_common_global: "is_common_global",
+  common_global: "is_common_global",
+  is_common_language: "is_common_language",
+  common_language: "is_common_language",
+};
+
+const TRUE_VALUES = new Set(["1", "true", "yes", "y", "x", "co"]);
+
+const toFlag = (v: unknown) => v === true || TRUE_VALUES.has(normalizeText(String(v ?? "")));
+
+// RFC 4180-ish: quoted fields, doubled quotes, commas / newlines inside quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const toImportRow = (
+  raw: Record<string, unknown>,
+  line: number,
+  defaults: { language: string },
+): ImportRow => {
+  const label = String(raw.label ?? "").trim();
+  const slug = String(raw.slug ?? "").trim().toLowerCase();
+  return {
+    line,
+    label,
+    slug: slug || slugify(label),
+    language: String(raw.language ?? "").trim() || defaults.language,
+    dialect: normalizeDialect(String(raw.dialect ?? "")) || "common",
+    is_common_global: toFlag(raw.is_common_global),
+    is_common_language: toFlag(raw.is_common_language),
+  };
+};
+
+const parseCsvRows = (text: string, defaults: { language: string }) => {
+  const errors: ImportParseError[] = [];
+  const table = parseCsv(text);
+  const header = (table[0] ?? []).map((h) => HEADER_ALIASES[slugify(h).replace(/-/g, "_")]);
+  if (!header.includes("label")) {
+    return { rows: [], errors: [{ line: 1, message: "Thiếu cột label / label_original trong dòng tiêu đề" }] };
+  }
+  const rows: ImportRow[] = [];
+  table.slice(1).forEach((cells, i) => {
+    if (cells.every((c) => c.trim() === "")) return;
+    const raw: Record<string, unknown> = {};
+    header.forEach((key, col) => {
+      if (key) raw[key] = cells[col];
+    });
+    rows.push(toImportRow(raw, i + 2, defaults));
+  });
+  return { rows, errors };
+};
+
+const parseJsonRows = (text: string, defaults: { language: string }) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { rows: [], errors: [{ line: 1, message: "JSON không hợp lệ" }] };
+  }
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { items?: unknown }).items)
+      ? (data as { items: unknown[] }).items
+      : null;
+  if (!list) return { rows: [], errors: [{ line: 1, message: "Cần một mảng nhãn hoặc { items: [...] }" }] };
+
+  const rows: ImportRow[] = [];
+  const errors: ImportParseError[] = [];
+  list.forEach((item, i) => {
+    if (!item || typeof item !== "object") {
+      errors.push({ line: i + 1, message: "Phần tử không phải object" });
+      return;
+    }
+    const obj = item as Record<string, unknown>;
+    rows.push(toImportRow({ ...obj, label: obj.label_original ?? obj.label }, i + 1, defaults));
+  });
+  return { rows, errors };
+};
+
+export const parseClassImport = (filename: string, text: string, defaults: { language: string }) =>
+  /\.json$/i.test(filename) || /^\s*[[{]/.test(text) ? parseJsonRows(text, defaults) : parseCsvRows(text, defaults);
+
+const flagOf = (v: unknown) => v === true || String(v) === "1";
+
+// Classifies every row against the existing classes (all languages in the
+// import must be present in `existing`). Rows are keyed by language + dialect
+// + slug; labels are compared with diacritics folded so "Cam on" and "Cảm ơn"
+// are treated as the same sign.
+export const diffClassImport = (rows: ImportRow[], existing: ClassRow[]): ImportDiffRow[] => {
+  const scope = (language: string | undefined, dialect: string | undefined) =>
+    `${language || ""}|${normalizeDialect(dialect) || "common"}`;
+  const bySlug = new Map<string, ClassRow>();
+  const byLabel = new Map<string, ClassRow>();
+  for (const c of existing) {
+    if (flagOf(c.archived)) continue;
+    const key = scope(c.language, c.dialect);
+    bySlug.set(`${key}|${c.slug}`, c);
+    byLabel.set(`${key}|${normalizeText(c.label_original)}`, c);
+  }
+
+  const seenSlugs = new Map<string, number>();
+  const seenLabels = new Map<string, number>();
+
+  return rows.map((row): ImportDiffRow => {
+    if (!row.label) return { row, status: "invalid", message: "Thiếu nhãn" };
+    if (!SLUG_PATTERN.test(row.slug)) return { row, status: "invalid", message: `Slug không hợp lệ: "${row.slug}"` };
+
+    const key = scope(row.language, row.dialect);
+    const folded = normalizeText(row.label);
+    const firstSlug = seenSlugs.get(`${key}|${row.slug}`);
+    const firstLabel = seenLabels.get(`${key}|${folded}`);
+    if (firstSlug !== undefined) return { row, status: "duplicate", message: `Trùng slug với dòng ${firstSlug}` };
+    if (firstLabel !== undefined) return { row, status: "duplicate", message: `Trùng nhãn (bỏ dấu) với dòng ${firstLabel}` };
+    seenSlugs.set(`${key}|${row.slug}`, row.line);
+    seenLabels.set(`${key}|${folded}`, row.line);
+
+    const sameSlug = bySlug.get(`${key}|${row.slug}`);
+    if (sameSlug) {
+      if (normalizeText(sameSlug.label_original) !== folded) {
+        return { row, status: "conflict", existing: sameSlug, message: `Slug đã thuộc về "${sameSlug.label_original}"` };
+      }
+      const changes: string[] = [];
+      if (sameSlug.label_original !== row.label) changes.push(`nhãn: "${sameSlug.label_original}" → "${row.label}"`);
+      if (flagOf(sameSlug.is_common_global) !== row.is_common_global) changes.push(`is_common_global → ${row.is_common_global ? 1 : 0}`);
+      if (flagOf(sameSlug.is_common_language) !== row.is_common_language) changes.push(`is_common_language → ${row.is_common_language ? 1 : 0}`);
+      return changes.length > 0
+        ? { row, status: "changed", existing: sameSlug, changes }
+        : { row, status: "unchanged", existing: sameSlug };
+    }
+
+    const sameLabel = byLabel.get(`${key}|${folded}`);
+    if (sameLabel) {
+      return { row, status: "duplicate", existing: sameLabel, message: `Đã có "${sameLabel.label_original}" (${sameLabel.slug})` };
+    }
+    return { row, status: "new" };
+  });
+};
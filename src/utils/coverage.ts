@@ -0,0 +1,116 @@
+// Coverage planning: how many samples each class still needs and the order
+// to record them in. Targets and the current worklist live in localStorage so
+// the planner (LabelsPage) and the capture screen (CaptureCamera) share them.
+
+export type CoverageTargets = {
+  global: number;
+  // Overrides keyed by normalized dialect slug (bac, nam, can-tho, ...)
+  byDialect: Record<string, number>;
+};
+
+export type CoverageInput = {
+  class_uid: string;
+  label: string;
+  dialect?: string;
+  count: number;
+};
+
+export type CoverageRow = CoverageInput & {
+  target: number;
+  deficit: number;
+  percent: number;
+};
+
+export type WorklistItem = {
+  class_uid: string;
+  label: string;
+  dialect?: string;
+  deficit: number;
+};
+
+export const DEFAULT_COVERAGE_TARGET = 50;
+export const WORKLIST_CHANGE_EVENT = "voya:worklistchange";
+
+const TARGETS_KEY = "coverageTargets";
+const WORKLIST_KEY = "recordingWorklist";
+
+const toTarget = (value: unknown) => {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+export const loadCoverageTargets = (): CoverageTargets => {
+  const targets: CoverageTargets = { global: DEFAULT_COVERAGE_TARGET, byDialect: {} };
+  try {
+    const parsed = JSON.parse(localStorage.getItem(TARGETS_KEY) || "null");
+    if (parsed && typeof parsed === "object") {
+      targets.global = toTarget(parsed.global) ?? DEFAULT_COVERAGE_TARGET;
+      if (parsed.byDialect && typeof parsed.byDialect === "object") {
+        for (const [dialect, value] of Object.entries(parsed.byDialect)) {
+          const n = toTarget(value);
+          if (n !== null) targets.byDialect[dialect] = n;
+        }
+      }
+    }
+  } catch {
+    // ignore
+  }
+  return targets;
+};
+
+export const saveCoverageTargets = (targets: CoverageTargets) => {
+  try {
+    localStorage.setItem(TARGETS_KEY, JSON.stringify(targets));
+  } catch {
+    // ignore
+  }
+};
+
+export const targetFor = (targets: CoverageTargets, dialect?: string) =>
+  (dialect && targets.byDialect[dialect]) || targets.global;
+
+// Largest deficit first; ties go to the class with fewer samples, then by label
+export const rankByDeficit = (rows: CoverageInput[], targets: CoverageTargets): CoverageRow[] =>
+  rows
+    .map((row) => {
+      const target = targetFor(targets, row.dialect);
+      const deficit = Math.max(0, target - row.count);
+      return { ...row, target, deficit, percent: Math.min(100, (row.count / target) * 100) };
+    })
+    .sort((a, b) => b.deficit - a.deficit || a.count - b.count || a.label.localeCompare(b.label));
+
+// Classes still under target, in ranked order, capped at `limit`
+export const buildWorklist = (ranked: CoverageRow[], limit: number): WorklistItem[] =>
+  ranked
+    .filter((r) => r.deficit > 0)
+    .slice(0, Math.max(0, limit))
+    .map(({ class_uid, label, dialect, deficit }) => ({ class_uid, label, dialect, deficit }));
+
+export const loadWorklist = (): WorklistItem[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(WORKLIST_KEY) || "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (x): x is WorklistItem => !!x && typeof x.class_uid === "string" && typeof x.label === "string" && x.label.trim() !== "",
+    );
+  } catch {
+    return [];
+  }
+};
+
+export const saveWorklist = (items: WorklistItem[]) => {
+  try {
+    if (items.length > 0) localStorage.setItem(WORKLIST_KEY, JSON.stringify(items));
+    else localStorage.removeItem(WORKLIST_KEY);
+  } catch {
+    // ignore
+  }
+  window.dispatchEvent(new CustomEvent(WORKLIST_CHANGE_EVENT));
+};
+
+// Drops a class from the worklist once its takes have been recorded
+export const completeWorklistItem = (classUid: string) => {
+  const items = loadWorklist();
+  if (!items.some((x) => x.class_uid === classUid)) return;
+  saveWorklist(items.filter((x) => x.class_uid !== classUid));
+};
@@ -0,0 +1,33 @@
+// Canonical dialect slugs used by the backend and their display names
+
+export const DIALECT_NAMES: Record<string, string> = {
+  common: 'Chung',
+  bac: 'Miền Bắc',
+  nam: 'Miền Nam',
+  trung: 'Miền Trung',
+  'can-tho': 'Cần Thơ',
+  'hoa-de': 'Hòa Đê',
+};
+
+const DIALECT_ALIASES: Record<string, string> = {
+  'chung': 'common',
+  'common': 'common',
+  'bac': 'bac',
+  'bắc': 'bac',
+  'nam': 'nam',
+  'trung': 'trung',
+  'hoa-de': 'hoa-de',
+  'hoa de': 'hoa-de',
+  'hoade': 'hoa-de',
+  'cần thơ': 'can-tho',
+  'can tho': 'can-tho',
+  'cantho': 'can-tho',
+  'can-tho': 'can-tho',
+};
+
+// Map the various spellings found in data to canonical slugs; unknown values pass through
+export const normalizeDialect = (d?: string) => {
+  if (!d) return '';
+  const s = String(d).toLowerCase().trim();
+  return DIALECT_ALIASES[s] ?? s;
+};
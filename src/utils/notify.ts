@@ -0,0 +1,15 @@
+// App-wide toasts. Anything can raise one; the ToastContainer in Layout shows them.
+
+export type ToastType = "success" | "error" | "warning" | "info";
+
+export type ToastDetail = { message: string; type?: ToastType; duration?: number };
+
+export const TOAST_EVENT = "voya:toast";
+
+export const notify = (message: string, type: ToastType = "info", duration?: number) => {
+  try {
+    window.dispatchEvent(new CustomEvent<ToastDetail>(TOAST_EVENT, { detail: { message, type, duration } }));
+  } catch {
+    // ignore
+  }
+};
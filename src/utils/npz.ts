@@ -0,0 +1,175 @@
+// Minimal NumPy .npy / .npz reader for sample data served by the backend.
+// Supports numeric and bool dtypes in either byte order, C or Fortran order
+// (Fortran arrays are transposed to C order), and stored or deflated archives
+// as written by np.savez / np.savez_compressed.
+
+export type NpyArray = {
+  dtype: string; // numpy descr, e.g. "<f4"
+  shape: number[];
+  // Always row-major (C order), whatever the file used
+  data: Float64Array;
+};
+
+const NPY_MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59]; // \x93NUMPY
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) => prefix.every((b, i) => bytes[i] === b);
+
+export const isNpy = (buffer: ArrayBuffer) => startsWith(new Uint8Array(buffer, 0, Math.min(6, buffer.byteLength)), NPY_MAGIC);
+
+export const isNpz = (buffer: ArrayBuffer) =>
+  buffer.byteLength >= 4 && new DataView(buffer).getUint32(0, true) === ZIP_LOCAL_HEADER;
+
+// Header is a Python dict literal: {'descr': '<f4', 'fortran_order': False, 'shape': (60, 126), }
+const parseHeader = (text: string) => {
+  const descr = /'descr'\s*:\s*'([^']+)'/.exec(text)?.[1];
+  const fortran = /'fortran_order'\s*:\s*(True|False)/.exec(text)?.[1];
+  const shapeText = /'shape'\s*:\s*\(([^)]*)\)/.exec(text)?.[1];
+  if (!descr || !fortran || shapeText === undefined) throw new Error("Invalid .npy header");
+  const shape = shapeText.split(",").map((s) => s.trim()).filter(Boolean).map(Number);
+  if (shape.some((n) => !Number.isInteger(n) || n < 0)) throw new Error("Invalid .npy shape");
+  return { descr, fortranOrder: fortran === "True", shape };
+};
+
+type Reader = (view: DataView, offset: number, littleEndian: boolean) => number;
+
+const READERS: Record<string, { size: number; read: Reader }> = {
+  f2: { size: 2, read: (v, o, le) => halfToFloat(v.getUint16(o, le)) },
+  f4: { size: 4, read: (v, o, le) => v.getFloat32(o, le) },
+  f8: { size: 8, read: (v, o, le) => v.getFloat64(o, le) },
+  i1: { size: 1, read: (v, o) => v.getInt8(o) },
+  i2: { size: 2, read: (v, o, le) => v.getInt16(o, le) },
+  i4: { size: 4, read: (v, o, le) => v.getInt32(o, le) },
+  i8: { size: 8, read: (v, o, le) => Number(v.getBigInt64(o, le)) },
+  u1: { size: 1, read: (v, o) => v.getUint8(o) },
+  u2: { size: 2, read: (v, o, le) => v.getUint16(o, le) },
+  u4: { size: 4, read: (v, o, le) => v.getUint32(o, le) },
+  u8: { size: 8, read: (v, o, le) => Number(v.getBigUint64(o, le)) },
+  b1: { size: 1, read: (v, o) => (v.getUint8(o) ? 1 : 0) },
+};
+
+const halfToFloat = (h: number) => {
+  const sign = h & 0x8000 ? -1 : 1;
+  const exp = (h >> 10) & 0x1f;
+  const frac = h & 0x3ff;
+  if (exp === 0) return sign * 2 ** -14 * (frac / 1024);
+  if (exp === 0x1f) return frac ? NaN : sign * Infinity;
+  return sign * 2 ** (exp - 15) * (1 + frac / 1024);
+};
+
+// Fortran (column-major) data to row-major
+const toCOrder = (data: Float64Array, shape: number[]) => {
+  if (shape.length < 2) return data;
+  const out = new Float64Array(data.length);
+  const n = shape.length;
+  const index = new Array<number>(n).fill(0);
+  for (let c = 0; c < data.length; c++) {
+    // index holds the C-order position of element c
+    let f = 0;
+    let stride = 1;
+    for (let d = 0; d < n; d++) {
+      f += index[d] * stride;
+      stride *= shape[d];
+    }
+    out[c] = data[f];
+    for (let d = n - 1; d >= 0; d--) {
+      if (++index[d] < shape[d]) break;
+      index[d] = 0;
+    }
+  }
+  return out;
+};
+
+export const parseNpy = (buffer: ArrayBuffer): NpyArray => {
+  const bytes = new Uint8Array(buffer);
+  if (!startsWith(bytes, NPY_MAGIC)) throw new Error("Not a .npy file");
+  const view = new DataView(buffer);
+  const major = bytes[6];
+  // Version 1 has a 2-byte header length, versions 2 and 3 a 4-byte one
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = major === 1 ? 10 : 12;
+  const header = new TextDecoder(major === 3 ? "utf-8" : "latin1").decode(bytes.subarray(headerStart, headerStart + headerLength));
+  const { descr, fortranOrder, shape } = parseHeader(header);
+
+  const order = descr[0];
+  const kind = /^[<>|=]/.test(order) ? descr.slice(1) : descr;
+  const reader = READERS[kind === "?" ? "b1" : kind];
+  if (!reader) throw new Error(`Unsupported .npy dtype: ${descr}`);
+  const littleEndian = order !== ">";
+
+  const count = shape.reduce((a, b) => a * b, 1);
+  const offset = headerStart + headerLength;
+  if (offset + count * reader.size > buffer.byteLength) throw new Error("Truncated .npy data");
+  const data = new Float64Array(count);
+  for (let i = 0; i < count; i++) data[i] = reader.read(view, offset + i * reader.size, littleEndian);
+  return { dtype: descr, shape, data: fortranOrder ? toCOrder(data, shape) : data };
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<ArrayBuffer> => {
+  if (typeof DecompressionStream === "undefined") throw new Error("This browser cannot read compressed .npz files");
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).arrayBuffer();
+};
+
+// Every array in the archive, keyed by name without the ".npy" suffix
+export const parseNpz = async (buffer: ArrayBuffer): Promise<Record<string, NpyArray>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a .npz (zip) file");
+
+  const entries = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const out: Record<string, NpyArray> = {};
+  for (let e = 0; e < entries; e++) {
+    if (view.getUint32(pos, true) !== ZIP_CENTRAL_HEADER) throw new Error("Corrupt .npz directory");
+    const method = view.getUint16(pos + 10, true);
+    let compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    let localOffset = view.getUint32(pos + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+
+    // Large members written by numpy carry real sizes in a zip64 extra field (id 0x0001)
+    const extraStart = pos + 46 + nameLength;
+    for (let x = extraStart; x + 4 <= extraStart + extraLength;) {
+      const id = view.getUint16(x, true);
+      const size = view.getUint16(x + 2, true);
+      if (id === 0x0001) {
+        let field = x + 4;
+        if (view.getUint32(pos + 24, true) === 0xffffffff) field += 8; // uncompressed size
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(view.getBigUint64(field, true));
+          field += 8;
+        }
+        if (localOffset === 0xffffffff) localOffset = Number(view.getBigUint64(field, true));
+      }
+      x += 4 + size;
+    }
+    pos = extraStart + extraLength + commentLength;
+
+    if (!name.endsWith(".npy")) continue;
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let member: ArrayBuffer;
+    if (method === 0) member = raw.slice().buffer;
+    else if (method === 8) member = await inflateRaw(raw);
+    else throw new Error(`Unsupported .npz compression method ${method} for ${name}`);
+    out[name.replace(/\.npy$/, "")] = parseNpy(member);
+  }
+  return out;
+};
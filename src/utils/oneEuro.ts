@@ -1,3 +1,5 @@
+import type { MediaPipeLandmark } from "../types";
+
 export class LowPassFilter {
   private yPrev: number | null = null;
   private a: number;
@@ -82,3 +84,39 @@ export class OneEuroFilter {
     return filtered;
   }
 }
+
+// One filter per landmark coordinate, keyed by group.index.coord like the
+// capture modal, for smoothing whole landmark lists frame by frame.
+export class LandmarkSmoother {
+  private filters: Record<string, OneEuroFilter> = {};
+  private minCutoff: number;
+  private beta: number;
+
+  constructor(minCutoff = 1.0, beta = 0.01) {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+  }
+
+  private get(key: string) {
+    if (!this.filters[key]) this.filters[key] = new OneEuroFilter(30, this.minCutoff, this.beta, 1.0);
+    return this.filters[key];
+  }
+
+  filter(landmarks: MediaPipeLandmark[] | undefined, group: string, timestampMs: number): MediaPipeLandmark[] {
+    if (!landmarks) return [];
+    return landmarks.map((lm, idx) => ({
+      ...lm,
+      x: this.get(`${group}.${idx}.x`).filter(lm.x ?? 0, timestampMs),
+      y: this.get(`${group}.${idx}.y`).filter(lm.y ?? 0, timestampMs),
+      z: this.get(`${group}.${idx}.z`).filter(lm.z ?? 0, timestampMs),
+      visibility: typeof lm.visibility === "number" ? this.get(`${group}.${idx}.v`).filter(lm.visibility, timestampMs) : lm.visibility,
+    }));
+  }
+
+  // Drop the filter state for a group, e.g. when a hand disappears
+  resetGroup(group: string) {
+    for (const key of Object.keys(this.filters)) {
+      if (key.startsWith(`${group}.`)) delete this.filters[key];
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import type { CapturedFrame, LandmarkMode, MediaPipeLandmark, QualityInfo, QualityIssue, QualityIssueCode, SegmentInfo } from "../types";
+import { detectSignRange } from "./segment";
+
+// Per-take quality scoring. Pure functions over the segmented frames so the
+// same checks run in the capture review step and before upload. Each detector
+// yields at most one issue with a penalty; the score is 100 minus the penalties.
+
+// Below this score a sample is flagged for review
+export const QUALITY_FLAG_THRESHOLD = 60;
+
+export const QUALITY_ISSUE_CODES: QualityIssueCode[] = ["low_hands", "jitter", "hand_swap", "out_of_frame", "frozen", "short_motion"];
+
+// Short English names for the sample browser; the capture screen shows each issue's message
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueCode, string> = {
+  low_hands: "Few hand frames",
+  jitter: "Jitter",
+  hand_swap: "Hand swap",
+  out_of_frame: "Out of frame",
+  frozen: "Frozen frames",
+  short_motion: "Too short",
+};
+
+const THRESHOLDS = {
+  // Share of frames that must contain at least one hand
+  minHandsPercent: 70,
+  // Mean second difference of hand landmarks (normalized image units) above which
+  // the skeleton is shaking rather than moving
+  jitter: 0.012,
+  // Share of hand frames with a landmark outside the image
+  outOfFrame: 0.1,
+  // Identical consecutive frames (not counting held fallback or padding)
+  frozenRun: 6,
+  // Shortest detected signing motion
+  minMotionMs: 300,
+  minMotionFrames: 5,
+  // Wrist distance under which a hand that changed sides counts as swapped
+  swapDistance: 0.06,
+};
+
+const PENALTIES: Record<QualityIssueCode, number> = {
+  low_hands: 45,
+  jitter: 20,
+  hand_swap: 20,
+  out_of_frame: 15,
+  frozen: 20,
+  short_motion: 25,
+};
+
+const live = (frame: CapturedFrame, side: "left" | "right") => frame.source?.[side] !== "fallback";
+
+const handOf = (frame: CapturedFrame, side: "left" | "right") =>
+  side === "left" ? frame.left_hand : frame.right_hand;
+
+const dist = (a?: MediaPipeLandmark, b?: MediaPipeLandmark) =>
+  a && b ? Math.hypot(a.x - b.x, a.y - b.y) : Infinity;
+
+// Mean |p[t+1] - 2p[t] + p[t-1]| over landmarks and live hand triples
+const jitterOf = (frames: CapturedFrame[]) => {
+  let sum = 0;
+  let count = 0;
+  for (let t = 1; t < frames.length - 1; t++) {
+    for (const side of ["left", "right"] as const) {
+      const [a, b, c] = [frames[t - 1], frames[t], frames[t + 1]];
+      const pa = handOf(a, side), pb = handOf(b, side), pc = handOf(c, side);
+      if (!pa.length || pa.length !== pb.length || pb.length !== pc.length) continue;
+      if (!live(a, side) || !live(b, side) || !live(c, side)) continue;
+      let frameSum = 0;
+      for (let i = 0; i < pb.length; i++) {
+        frameSum += Math.hypot(pc[i].x - 2 * pb[i].x + pa[i].x, pc[i].y - 2 * pb[i].y + pa[i].y);
+      }
+      sum += frameSum / pb.length;
+      count++;
+    }
+  }
+  return count ? sum / count : 0;
+};
+
+// Frames where the left/right labels flipped: with both hands present the crossed
+// pairing of wrists is much closer than the straight one; with one hand, it jumped
+// sides while staying in place.
+const countHandSwaps = (frames: CapturedFrame[]) => {
+  let swaps = 0;
+  for (let t = 1; t < frames.length; t++) {
+    const prev = frames[t - 1], cur = frames[t];
+    const pl = prev.left_hand[0], pr = prev.right_hand[0], cl = cur.left_hand[0], cr = cur.right_hand[0];
+    if (pl && pr && cl && cr) {
+      const straight = dist(pl, cl) + dist(pr, cr);
+      const crossed = dist(pl, cr) + dist(pr, cl);
+      if (crossed < straight * 0.5 && straight > THRESHOLDS.swapDistance) swaps++;
+    } else if ((pl && !pr && cr && !cl && dist(pl, cr) < THRESHOLDS.swapDistance)
+      || (pr && !pl && cl && !cr && dist(pr, cl) < THRESHOLDS.swapDistance)) {
+      swaps++;
+    }
+  }
+  return swaps;
+};
+
+const sameHand = (a: MediaPipeLandmark[], b: MediaPipeLandmark[]) =>
+  a.length > 0 && a.length === b.length && a.every((p, i) => p.x === b[i].x && p.y === b[i].y && (p.z ?? 0) === (b[i].z ?? 0));
+
+// Longest run of recorded frames whose hands did not move at all
+const longestFrozenRun = (frames: CapturedFrame[], segment?: SegmentInfo) => {
+  const from = segment?.padded_before ?? 0;
+  const to = frames.length - (segment?.padded_after ?? 0);
+  let longest = 1;
+  let run = 1;
+  for (let t = from + 1; t < to; t++) {
+    const prev = frames[t - 1], cur = frames[t];
+    const held = !live(cur, "left") || !live(cur, "right");
+    const hasHands = cur.left_hand.length > 0 || cur.right_hand.length > 0;
+    const frozen = hasHands && !held
+      && (cur.left_hand.length === 0 || sameHand(prev.left_hand, cur.left_hand))
+      && (cur.right_hand.length === 0 || sameHand(prev.right_hand, cur.right_hand));
+    run = frozen ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  return longest > 1 ? longest : 0;
+};
+
+const outOfFrameShare = (frames: CapturedFrame[]) => {
+  let handFrames = 0;
+  let outside = 0;
+  for (const f of frames) {
+    const points = [...f.left_hand, ...f.right_hand];
+    if (points.length === 0) continue;
+    handFrames++;
+    if (points.some((p) => p.x < 0 || p.x > 1 || p.y < 0 || p.y > 1)) outside++;
+  }
+  return handFrames ? outside / handFrames : 0;
+};
+
+const detectIssues = (frames: CapturedFrame[], percentWithHands: number, segment?: SegmentInfo): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+  const add = (code: QualityIssueCode, message: string) => issues.push({ code, message, penalty: PENALTIES[code] });
+
+  if (percentWithHands < THRESHOLDS.minHandsPercent) {
+    add("low_hands", `Chỉ ${percentWithHands.toFixed(0)}% khung thấy tay`);
+  }
+
+  const jitter = jitterOf(frames);
+  if (jitter > THRESHOLDS.jitter) add("jitter", `Landmark bị rung (${(jitter * 1000).toFixed(0)}‰)`);
+
+  const swaps = countHandSwaps(frames);
+  if (swaps > 0) add("hand_swap", `Tay trái/phải bị đảo ${swaps} lần`);
+
+  const outside = outOfFrameShare(frames);
+  if (outside > THRESHOLDS.outOfFrame) add("out_of_frame", `${(outside * 100).toFixed(0)}% khung có tay ra ngoài khung hình`);
+
+  const frozen = longestFrozenRun(frames, segment);
+  if (frozen >= THRESHOLDS.frozenRun) add("frozen", `${frozen} khung liên tiếp đứng yên hoàn toàn`);
+
+  const range = detectSignRange(frames);
+  if (!range) {
+    add("short_motion", "Không phát hiện chuyển động ký hiệu");
+  } else {
+    const frameCount = range.offset - range.onset + 1;
+    const ms = frames[range.offset].timestamp - frames[range.onset].timestamp;
+    if (frameCount < THRESHOLDS.minMotionFrames || ms < THRESHOLDS.minMotionMs) {
+      add("short_motion", `Chuyển động quá ngắn (${ms} ms)`);
+    }
+  }
+  return issues;
+};
+
+// Lightweight metrics plus a 0–100 score and the reasons behind it
+export const computeQuality = (
+  capturedFrames: CapturedFrame[],
+  landmarkMode?: LandmarkMode,
+  segment?: SegmentInfo
+): QualityInfo => {
+  let totalHandLandmarks = 0;
+  let framesWithHands = 0;
+  let framesWithPose = 0;
+  let framesWithFace = 0;
+  let confidenceSum = 0;
+  let confidenceCount = 0;
+
+  for (const f of capturedFrames) {
+    const handCount = (f.left_hand || []).length + (f.right_hand || []).length;
+    totalHandLandmarks += handCount;
+    if (handCount > 0) framesWithHands++;
+    if ((f.pose?.length ?? 0) > 0) framesWithPose++;
+    if ((f.face?.length ?? 0) > 0) framesWithFace++;
+
+    // approximate confidence if landmark has visibility field
+    for (const lm of [...(f.left_hand || []), ...(f.right_hand || [])]) {
+      if (typeof lm.visibility === "number") {
+        confidenceSum += lm.visibility;
+        confidenceCount++;
+      }
+    }
+  }
+
+  const n = capturedFrames.length;
+  const percentFramesWithHands = n ? (framesWithHands / n) * 100 : 0;
+  const quality: QualityInfo = {
+    framesCollected: n,
+    // Acceptance: require at least one hand landmark
+    framesAccepted: framesWithHands,
+    avgPoseLandmarksPerFrame: n ? totalHandLandmarks / n : 0,
+    percentFramesWithHands,
+    confidenceSummary: confidenceCount ? { avg: confidenceSum / confidenceCount } : undefined,
+    landmarkMode,
+  };
+  if (landmarkMode && landmarkMode !== "hands") {
+    quality.percentFramesWithPose = n ? (framesWithPose / n) * 100 : 0;
+  }
+  if (landmarkMode === "holistic") {
+    quality.percentFramesWithFace = n ? (framesWithFace / n) * 100 : 0;
+  }
+
+  const issues = n ? detectIssues(capturedFrames, percentFramesWithHands, segment) : [];
+  quality.issues = issues;
+  quality.score = n ? Math.max(0, 100 - issues.reduce((sum, i) => sum + i.penalty, 0)) : 0;
+  quality.flagged = quality.score < QUALITY_FLAG_THRESHOLD;
+  return quality;
+};
+
+// Badge colour for a score
+export const qualityVariant = (score?: number): "success" | "warning" | "danger" | "default" =>
+  typeof score !== "number" ? "default" : score >= 80 ? "success" : score >= QUALITY_FLAG_THRESHOLD ? "warning" : "danger";
@@ -1,33 +1,16 @@
-// Lightweight client-side role helper for demo/admin gating.
-// Stores role in localStorage under 'voya_role' as either 'admin' or 'public'.
-export type Role = 'admin' | 'public';
+// Role of the signed-in user, for admin gating in the UI. It comes from the
+// login session (api/session); anonymous visitors are 'public'. The backend
+// enforces the same rule on the token, this only hides what would be refused.
+// 'voya:rolechange' fires whenever it changes.
+import { getSession } from '../api/session';
+import type { Role } from '../types';
 
-const KEY = 'voya_role';
+export type { Role };
 
 export function getRole(): Role {
-  try {
-    const v = localStorage.getItem(KEY);
-    if (v === 'admin') return 'admin';
-  } catch {
-    /* ignore */
-  }
-  return 'public';
+  return getSession()?.user.role ?? 'public';
 }
 
 export function isAdmin(): boolean {
   return getRole() === 'admin';
 }
-
-export function setRole(r: Role) {
-  try {
-    localStorage.setItem(KEY, r);
-    // Notify other windows/components
-    window.dispatchEvent(new Event('voya:rolechange'));
-  } catch {
-    // ignore
-  }
-}
-
-export function toggleRole() {
-  setRole(isAdmin() ? 'public' : 'admin');
-}
@@ -0,0 +1,136 @@
+import type { CapturedFrame, MediaPipeLandmark } from "../types";
+import { validateReferenceFrames } from "../api/validators";
+import { isNpy, isNpz, parseNpy, parseNpz } from "./npz";
+import type { NpyArray } from "./npz";
+
+// Turns the bytes from `/dataset/samples/{id}/data` into landmark frames for
+// the sample viewer. The backend stores .npz (one keypoint array per sample);
+// .npy and JSON (`{ keypoints }` or capture-shaped frames) are accepted too.
+
+export type DecodedSample = {
+  frames: CapturedFrame[];
+  format: "npz" | "npy" | "json";
+  // Human-readable description of the layout that was recognised
+  layout: string;
+};
+
+const DEFAULT_FPS = 30;
+const HAND_POINTS = 21;
+const POSE_POINTS = 33;
+const FACE_POINTS = 468;
+
+// Arrays tried in order when an archive holds several
+const KEYPOINT_KEYS = ["keypoints", "landmarks", "frames", "data", "x", "arr_0"];
+
+type Segment = { part: "left_hand" | "right_hand" | "pose" | "face"; points: number; dims: 2 | 3 | 4 };
+
+// Per-frame value counts of the layouts produced by the extraction pipelines
+// we know of. Hands are [left, right]; holistic layouts put pose first.
+const LAYOUTS: Record<number, { name: string; segments: Segment[] }> = {
+  126: { name: "2 hands × 21 × xyz", segments: [{ part: "left_hand", points: HAND_POINTS, dims: 3 }, { part: "right_hand", points: HAND_POINTS, dims: 3 }] },
+  84: { name: "2 hands × 21 × xy", segments: [{ part: "left_hand", points: HAND_POINTS, dims: 2 }, { part: "right_hand", points: HAND_POINTS, dims: 2 }] },
+  63: { name: "1 hand × 21 × xyz", segments: [{ part: "right_hand", points: HAND_POINTS, dims: 3 }] },
+  42: { name: "1 hand × 21 × xy", segments: [{ part: "right_hand", points: HAND_POINTS, dims: 2 }] },
+  225: {
+    name: "pose 33 + 2 hands × xyz",
+    segments: [{ part: "pose", points: POSE_POINTS, dims: 3 }, { part: "left_hand", points: HAND_POINTS, dims: 3 }, { part: "right_hand", points: HAND_POINTS, dims: 3 }],
+  },
+  258: {
+    name: "pose 33 × xyzv + 2 hands × xyz",
+    segments: [{ part: "pose", points: POSE_POINTS, dims: 4 }, { part: "left_hand", points: HAND_POINTS, dims: 3 }, { part: "right_hand", points: HAND_POINTS, dims: 3 }],
+  },
+  1662: {
+    name: "holistic (pose xyzv + face + 2 hands)",
+    segments: [
+      { part: "pose", points: POSE_POINTS, dims: 4 },
+      { part: "face", points: FACE_POINTS, dims: 3 },
+      { part: "left_hand", points: HAND_POINTS, dims: 3 },
+      { part: "right_hand", points: HAND_POINTS, dims: 3 },
+    ],
+  },
+};
+
+// MediaPipe writes zeros for parts it did not detect
+const readPoints = (data: Float64Array, start: number, segment: Segment): MediaPipeLandmark[] => {
+  const points: MediaPipeLandmark[] = [];
+  let any = false;
+  for (let p = 0; p < segment.points; p++) {
+    const o = start + p * segment.dims;
+    const point: MediaPipeLandmark = { x: data[o], y: data[o + 1], z: segment.dims >= 3 ? data[o + 2] : 0 };
+    if (segment.dims === 4) point.visibility = data[o + 3];
+    if (point.x !== 0 || point.y !== 0) any = true;
+    points.push(point);
+  }
+  return any ? points : [];
+};
+
+const pickKeypointArray = (arrays: Record<string, NpyArray>) => {
+  const names = Object.keys(arrays);
+  const name = KEYPOINT_KEYS.find((k) => arrays[k] && arrays[k].shape.length >= 2)
+    ?? names.find((k) => arrays[k].shape.length >= 2);
+  if (!name) throw new Error(`No keypoint array found (arrays: ${names.join(", ") || "none"})`);
+  return arrays[name];
+};
+
+const scalar = (arrays: Record<string, NpyArray>, key: string) => {
+  const a = arrays[key];
+  return a && a.data.length === 1 && Number.isFinite(a.data[0]) && a.data[0] > 0 ? a.data[0] : undefined;
+};
+
+// (T, D), (T, P, C) or (T, H, 21, C): frame count first, everything else per frame
+export const framesFromArray = (array: NpyArray, fps = DEFAULT_FPS): { frames: CapturedFrame[]; layout: string } => {
+  const [count, ...rest] = array.shape;
+  const perFrame = rest.reduce((a, b) => a * b, 1);
+  const layout = LAYOUTS[perFrame];
+  if (!layout) throw new Error(`Unrecognised keypoint layout: shape (${array.shape.join(", ")}), ${perFrame} values per frame`);
+
+  const frames: CapturedFrame[] = [];
+  for (let t = 0; t < count; t++) {
+    const frame: CapturedFrame = { timestamp: Math.round((t * 1000) / fps), left_hand: [], right_hand: [] };
+    let offset = t * perFrame;
+    for (const segment of layout.segments) {
+      const points = readPoints(array.data, offset, segment);
+      if (segment.part === "left_hand" || segment.part === "right_hand") frame[segment.part] = points;
+      else if (points.length > 0) frame[segment.part] = points;
+      offset += segment.points * segment.dims;
+    }
+    frames.push(frame);
+  }
+  return { frames, layout: layout.name };
+};
+
+const decodeJson = (buffer: ArrayBuffer): DecodedSample => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(buffer));
+  } catch {
+    throw new Error("Sample data is neither .npz, .npy nor JSON");
+  }
+  // Capture-shaped frames (what the app uploads)
+  const captured = validateReferenceFrames(parsed);
+  if (captured.ok) return { frames: captured.data, format: "json", layout: "captured frames" };
+
+  // `{ keypoints: number[][] }`: flat values per frame
+  const rows = parsed && typeof parsed === "object" && Array.isArray((parsed as { keypoints?: unknown }).keypoints)
+    ? (parsed as { keypoints: unknown[] }).keypoints
+    : null;
+  if (!rows || rows.length === 0) throw new Error("Sample JSON has no frames or keypoints");
+  const flat = rows.map((r) => (Array.isArray(r) ? r.flat(3).map(Number) : []));
+  const width = flat[0].length;
+  if (flat.some((r) => r.length !== width)) throw new Error("Sample keypoints have varying lengths");
+  const { frames, layout } = framesFromArray({ dtype: "json", shape: [flat.length, width], data: Float64Array.from(flat.flat()) });
+  return { frames, format: "json", layout };
+};
+
+export const decodeSampleData = async (buffer: ArrayBuffer): Promise<DecodedSample> => {
+  if (isNpz(buffer)) {
+    const arrays = await parseNpz(buffer);
+    const fps = scalar(arrays, "fps");
+    return { ...framesFromArray(pickKeypointArray(arrays), fps), format: "npz" };
+  }
+  if (isNpy(buffer)) return { ...framesFromArray(parseNpy(buffer)), format: "npy" };
+  return decodeJson(buffer);
+};
+
+// File extension matching the bytes, for downloads
+export const sampleDataExtension = (buffer: ArrayBuffer) => (isNpz(buffer) ? "npz" : isNpy(buffer) ? "npy" : "json");
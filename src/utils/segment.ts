@@ -0,0 +1,193 @@
+import type { MediaPipeLandmark, SegmentInfo } from "../types";
+
+// Motion-energy based sign segmentation. Pure functions over landmark
+// sequences so the same logic runs on live takes and on video-extracted samples.
+
+export interface SegmentableFrame {
+  timestamp?: number;
+  left_hand?: MediaPipeLandmark[];
+  right_hand?: MediaPipeLandmark[];
+}
+
+export interface SegmentOptions {
+  // Absolute floor for "moving" (mean normalized landmark displacement per frame)
+  minEnergy?: number;
+  // Fraction of the peak smoothed energy a frame must reach to count as signing
+  relativeThreshold?: number;
+  // Centered moving-average window applied to the raw energy
+  smoothWindow?: number;
+  // Extra frames kept before onset / after offset so the sign is not clipped
+  marginFrames?: number;
+}
+
+const DEFAULTS: Required<SegmentOptions> = {
+  minEnergy: 0.002,
+  relativeThreshold: 0.2,
+  smoothWindow: 5,
+  marginFrames: 3,
+};
+
+const handDisplacement = (a?: MediaPipeLandmark[], b?: MediaPipeLandmark[]): number | null => {
+  if (!a || !b || a.length === 0 || a.length !== b.length) return null;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.hypot((b[i].x ?? 0) - (a[i].x ?? 0), (b[i].y ?? 0) - (a[i].y ?? 0));
+  }
+  return sum / a.length;
+};
+
+// Per-frame motion energy: mean landmark displacement from the previous frame,
+// averaged over the hands present in both frames. energy[0] is always 0.
+export const motionEnergy = (frames: SegmentableFrame[]): number[] => {
+  const energy = new Array<number>(frames.length).fill(0);
+  for (let i = 1; i < frames.length; i++) {
+    const parts = [
+      handDisplacement(frames[i - 1].left_hand, frames[i].left_hand),
+      handDisplacement(frames[i - 1].right_hand, frames[i].right_hand),
+    ].filter((v): v is number => v !== null);
+    energy[i] = parts.length ? parts.reduce((a, b) => a + b, 0) / parts.length : 0;
+  }
+  return energy;
+};
+
+export const smooth = (values: number[], window: number): number[] => {
+  const half = Math.max(0, Math.floor(window / 2));
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length - 1, i + half);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += values[j];
+    return sum / (to - from + 1);
+  });
+};
+
+// Detect the signing range as the first/last frame whose smoothed energy
+// crosses the threshold. Returns null when the take never moves enough.
+export const detectSignRange = (
+  frames: SegmentableFrame[],
+  options: SegmentOptions = {}
+): { onset: number; offset: number } | null => {
+  const opts = { ...DEFAULTS, ...options };
+  const energy = smooth(motionEnergy(frames), opts.smoothWindow);
+  const peak = energy.reduce((m, v) => Math.max(m, v), 0);
+  if (peak < opts.minEnergy) return null;
+
+  const threshold = Math.max(opts.minEnergy, peak * opts.relativeThreshold);
+  let onset = -1;
+  let offset = -1;
+  for (let i = 0; i < energy.length; i++) {
+    if (energy[i] >= threshold) {
+      if (onset < 0) onset = i;
+      offset = i;
+    }
+  }
+  return onset < 0 ? null : { onset, offset };
+};
+
+const shiftTimestamp = <T extends SegmentableFrame>(frame: T, deltaMs: number): T =>
+  typeof frame.timestamp === "number" ? { ...frame, timestamp: frame.timestamp + deltaMs } : { ...frame };
+
+const medianInterval = (frames: SegmentableFrame[]): number => {
+  const deltas: number[] = [];
+  for (let i = 1; i < frames.length; i++) {
+    const a = frames[i - 1].timestamp;
+    const b = frames[i].timestamp;
+    if (typeof a === "number" && typeof b === "number" && b > a) deltas.push(b - a);
+  }
+  if (deltas.length === 0) return 0;
+  deltas.sort((a, b) => a - b);
+  return deltas[Math.floor(deltas.length / 2)];
+};
+
+// Trim a take to the detected sign and fit it to exactly `target` frames:
+// longer ranges are resampled uniformly, shorter ones are widened with
+// neighbouring recorded frames first and only then padded by repeating edges.
+export const segmentTake = <T extends SegmentableFrame>(
+  frames: T[],
+  target: number,
+  options: SegmentOptions = {}
+): { frames: T[]; info: SegmentInfo } => {
+  const opts = { ...DEFAULTS, ...options };
+  const n = frames.length;
+  const range = detectSignRange(frames, opts);
+
+  const info: SegmentInfo = {
+    source_frames: n,
+    detected: range !== null,
+    onset: range?.onset ?? 0,
+    offset: range?.offset ?? Math.max(0, n - 1),
+    start: 0,
+    end: Math.max(0, n - 1),
+    method: "none",
+    padded_before: 0,
+    padded_after: 0,
+  };
+  if (n === 0 || target <= 0) return { frames: [...frames], info };
+
+  let start: number;
+  let end: number;
+  if (range) {
+    start = Math.max(0, range.onset - opts.marginFrames);
+    end = Math.min(n - 1, range.offset + opts.marginFrames);
+  } else {
+    // No clear motion: keep a centered window
+    const windowLen = Math.min(n, target);
+    start = Math.floor((n - windowLen) / 2);
+    end = start + windowLen - 1;
+  }
+
+  let out: T[];
+  const len = end - start + 1;
+  if (len > target) {
+    out = [];
+    for (let k = 0; k < target; k++) {
+      const idx = target === 1 ? start : Math.round(start + (k * (len - 1)) / (target - 1));
+      out.push(frames[idx]);
+    }
+    info.method = "resample";
+  } else {
+    // Widen with real frames, splitting the shortfall across both sides
+    let need = target - len;
+    const before = Math.min(start, Math.ceil(need / 2));
+    start -= before;
+    need -= before;
+    const after = Math.min(n - 1 - end, need);
+    end += after;
+    need -= after;
+    const extraBefore = Math.min(start, need);
+    start -= extraBefore;
+    need -= extraBefore;
+
+    out = frames.slice(start, end + 1);
+    if (need > 0) {
+      const step = medianInterval(out);
+      const padBefore = Math.floor(need / 2);
+      const padAfter = need - padBefore;
+      const first = out[0];
+      const last = out[out.length - 1];
+      const head = Array.from({ length: padBefore }, (_, i) => shiftTimestamp(first, -(padBefore - i) * step));
+      const tail = Array.from({ length: padAfter }, (_, i) => shiftTimestamp(last, (i + 1) * step));
+      out = [...head, ...out, ...tail];
+      // Head padding before a take that starts at 0 would go negative; shift the
+      // whole output instead so spacing is kept. Synthetic frames are identified
+      // by padded_before/padded_after, start_ms/end_ms stay in source time.
+      const headMs = out[0].timestamp;
+      if (typeof headMs === "number" && headMs < 0) out = out.map((f) => shiftTimestamp(f, -headMs));
+      info.padded_before = padBefore;
+      info.padded_after = padAfter;
+      info.method = "pad";
+    } else if (start > 0 || end < n - 1) {
+      info.method = "trim";
+    }
+  }
+
+  info.start = start;
+  info.end = end;
+  const startMs = frames[start].timestamp;
+  const endMs = frames[end].timestamp;
+  if (typeof startMs === "number" && typeof endMs === "number") {
+    info.start_ms = startMs;
+    info.end_ms = endMs;
+  }
+  return { frames: out, info };
+};
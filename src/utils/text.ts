@@ -0,0 +1,89 @@
+// Vietnamese-aware text helpers for search, matching and slugs.
+
+// Strips tone and vowel marks ("Cảm ơn" -> "Cam on"); đ/Đ have no
+// decomposition and are mapped explicitly.
+export const foldDiacritics = (s: string) =>
+  s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/g, "d").replace(/Đ/g, "D");
+
+// Comparison key: folded, lower case, single spaces
+export const normalizeText = (s: string) => foldDiacritics(s).toLowerCase().replace(/\s+/g, " ").trim();
+
+// "Cảm ơn bạn!" -> "cam-on-ban"
+export const slugify = (s: string) =>
+  foldDiacritics(s)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// Typos tolerated per word: none for short words, one from 4 letters, two from 8
+const allowedTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+// How well `text` matches `query`, tone-insensitive; 0 means no match.
+// Exact > prefix > word prefixes > substring > typo-tolerant words > subsequence.
+export const fuzzyScore = (text: string, query: string): number => {
+  const t = normalizeText(text);
+  const q = normalizeText(query);
+  if (!q) return 1;
+  if (!t) return 0;
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 90 - Math.min(20, t.length - q.length);
+  const words = t.split(/[\s-]+/);
+  const qWords = q.split(" ");
+  if (qWords.every((w) => words.some((tw) => tw.startsWith(w)))) return 70;
+  if (t.includes(q)) return 60;
+  const typoMatch = qWords.every((w) =>
+    words.some((tw) => tw.startsWith(w) || levenshtein(tw.slice(0, w.length + 1), w) <= allowedTypos(w) || levenshtein(tw, w) <= allowedTypos(w)));
+  if (typoMatch) return 40;
+  // Letters in order ("cmon" -> "cam on"), only for queries of 3+ letters
+  const compact = q.replace(/ /g, "");
+  if (compact.length >= 3) {
+    let i = 0;
+    for (const ch of t) if (ch === compact[i]) i++;
+    if (i === compact.length) return 20;
+  }
+  return 0;
+};
+
+// Items ordered by their best-matching field; ties keep the input order.
+// An empty query returns the items unchanged.
+export const rankMatches = <T>(items: T[], query: string, fields: (item: T) => Array<string | undefined>, limit = Infinity): T[] => {
+  if (!normalizeText(query)) return items.slice(0, limit);
+  return items
+    .map((item, index) => ({
+      item,
+      index,
+      score: Math.max(0, ...fields(item).map((f) => (f ? fuzzyScore(f, query) : 0))),
+    }))
+    .filter((x) => x.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map((x) => x.item);
+};
+
+// Labels that are probably the same sign written differently: equal once
+// folded, or within one typo for labels of 4+ letters
+export const findNearDuplicates = <T>(label: string, items: T[], getLabel: (item: T) => string): T[] => {
+  const key = normalizeText(label);
+  if (!key) return [];
+  return items.filter((item) => {
+    const other = normalizeText(getLabel(item));
+    return other === key || (key.length >= 4 && levenshtein(other, key) <= 1);
+  });
+};
@@ -0,0 +1,145 @@
+import { Hands } from "@mediapipe/hands";
+import { getFrameIntervalMs } from "../config/capture";
+import { LandmarkSmoother } from "./oneEuro";
+import type { CaptureProfile, CapturedFrame, MediaPipeLandmark } from "../types";
+
+// In-browser landmark extraction from a video file: the video is stepped
+// frame by frame at the profile's sample rate and each frame goes through the
+// same MediaPipe Hands setup and One Euro smoothing as the live camera.
+
+export const EXTRACTION_ABORTED = "Extraction aborted";
+
+// Same flag as the capture modal, in case handedness is swapped for the setup
+const SWAP_HANDEDNESS = ["1", "true", "yes", "on"].includes(
+  String(import.meta.env.VITE_SWAP_HANDEDNESS ?? "").trim().toLowerCase()
+);
+
+export type VideoExtractionOptions = {
+  profile: CaptureProfile;
+  signal?: AbortSignal;
+  onProgress?: (processedMs: number, durationMs: number) => void;
+};
+
+export type VideoExtraction = {
+  frames: CapturedFrame[];
+  duration_ms: number;
+  // Frames sent to MediaPipe, including those without hands
+  sampled: number;
+  width: number;
+  height: number;
+};
+
+type HandsResults = {
+  multiHandLandmarks?: MediaPipeLandmark[][];
+  multiHandedness?: Array<{ label?: string; score?: number }>;
+};
+
+const waitFor = (target: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener("error", onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(event, onEvent);
+      reject(new Error("Không đọc được video"));
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener("error", onError, { once: true });
+  });
+
+const splitHands = (r: HandsResults) => {
+  let left: MediaPipeLandmark[] | undefined;
+  let right: MediaPipeLandmark[] | undefined;
+  const handedness: { left?: number; right?: number } = {};
+  const landmarks = r.multiHandLandmarks ?? [];
+  const labels = r.multiHandedness ?? [];
+  if (landmarks.length !== labels.length) return { left, right, handedness };
+  for (let i = 0; i < landmarks.length; i++) {
+    const raw = labels[i]?.label;
+    const label = SWAP_HANDEDNESS ? (raw === "Left" ? "Right" : raw === "Right" ? "Left" : raw) : raw;
+    if (label === "Left" && !left) {
+      left = landmarks[i];
+      handedness.left = labels[i]?.score;
+    } else if (label === "Right" && !right) {
+      right = landmarks[i];
+      handedness.right = labels[i]?.score;
+    }
+  }
+  return { left, right, handedness };
+};
+
+export const extractVideoLandmarks = async (
+  file: File,
+  { profile, signal, onProgress }: VideoExtractionOptions
+): Promise<VideoExtraction> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  const hands = new Hands({
+    locateFile: (f: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${f}`,
+  });
+  hands.setOptions({
+    maxNumHands: 2,
+    modelComplexity: 1,
+    minDetectionConfidence: profile.min_detection_confidence,
+    minTrackingConfidence: profile.min_tracking_confidence,
+  });
+  let latest: HandsResults = {};
+  hands.onResults((results: unknown) => {
+    latest = results as HandsResults;
+  });
+
+  try {
+    const loaded = waitFor(video, "loadeddata");
+    video.src = url;
+    await loaded;
+
+    const durationMs = Math.floor((Number.isFinite(video.duration) ? video.duration : 0) * 1000);
+    const intervalMs = getFrameIntervalMs(profile);
+    const smoother = new LandmarkSmoother(profile.filter_min_cutoff, profile.filter_beta);
+    const frames: CapturedFrame[] = [];
+    let sampled = 0;
+
+    for (let t = 0; t <= durationMs; t += intervalMs) {
+      if (signal?.aborted) throw new Error(EXTRACTION_ABORTED);
+      const seeked = waitFor(video, "seeked");
+      video.currentTime = t / 1000;
+      await seeked;
+
+      latest = {};
+      await hands.send({ image: video });
+      sampled++;
+      onProgress?.(t, durationMs);
+
+      const { left, right, handedness } = splitHands(latest);
+      // Restart smoothing when a hand reappears so it does not glide in from its last position
+      if (!left) smoother.resetGroup("leftHand");
+      if (!right) smoother.resetGroup("rightHand");
+      if (!left && !right) continue;
+
+      frames.push({
+        timestamp: t,
+        left_hand: smoother.filter(left, "leftHand", t),
+        right_hand: smoother.filter(right, "rightHand", t),
+        handedness,
+        source: { left: left ? "live" : "missing", right: right ? "live" : "missing" },
+      });
+    }
+
+    onProgress?.(durationMs, durationMs);
+    return { frames, duration_ms: durationMs, sampled, width: video.videoWidth, height: video.videoHeight };
+  } finally {
+    try {
+      hands.close();
+    } catch {
+      // ignore
+    }
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};